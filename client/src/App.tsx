@@ -3,11 +3,12 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { AuthenticatedTemplate, UnauthenticatedTemplate } from '@azure/msal-react';
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import AiAssistantPage from "@/pages/ai-assistant";
 import AzureDeploymentPage from "@/pages/azure-deployment";
+import AiUsagePage from "@/pages/ai-usage";
+import SharedCodePage from "@/pages/shared-code";
 import LoginPage from "@/components/login-page";
 import AzureAuthProvider from "@/components/azure-auth-provider";
 import ProtectedRoute from "@/components/protected-route";
@@ -16,14 +17,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/login">
-        <UnauthenticatedTemplate>
-          <LoginPage />
-        </UnauthenticatedTemplate>
-        <AuthenticatedTemplate>
-          <Route path="/">
-            <Home />
-          </Route>
-        </AuthenticatedTemplate>
+        <LoginPage />
       </Route>
       
       <Route path="/">
@@ -38,12 +32,23 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/ai-usage">
+        <ProtectedRoute>
+          <AiUsagePage />
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/azure-deployment">
         <ProtectedRoute>
           <AzureDeploymentPage />
         </ProtectedRoute>
       </Route>
       
+      {/* Shared snippets are public */}
+      <Route path="/s/:vanityUrl">
+        <SharedCodePage />
+      </Route>
+      
       <Route>
         <NotFound />
       </Route>
@@ -3,10 +3,27 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ArrowUp } from "lucide-react";
+import { ArrowUp, History, Square } from "lucide-react";
 import { useSelector } from "react-redux";
-import { selectActiveFile } from "@/store/editor-slice";
-import { sendMessageToAI } from "@/lib/openai-service";
+import { selectActiveFile, selectProjectId } from "@/store/editor-slice";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import AiConversationList from "@/components/ai-conversation-list";
+import {
+  AiRequestError,
+  createConversation,
+  deleteConversation,
+  getAiProviders,
+  getConversationMessages,
+  getConversations,
+  getPreferredAiProvider,
+  renameConversation,
+  setPreferredAiProvider,
+  streamConversationMessage,
+  type AiConversation,
+  type AiMessage,
+  type AiProviderName,
+  type AiProvidersResponse,
+} from "@/lib/openai-service";
 
 interface Message {
   id: string;
@@ -15,21 +32,37 @@ interface Message {
   timestamp: Date;
 }
 
+const GREETING: Message = {
+  id: 'greeting',
+  role: 'assistant',
+  content: 'How can I help you with your code today?',
+  timestamp: new Date(),
+};
+
+const toMessage = (message: AiMessage): Message => ({
+  id: String(message.id),
+  role: message.role === 'user' ? 'user' : 'assistant',
+  content: message.content,
+  timestamp: new Date(message.createdAt),
+});
+
 export default function AiAssistant() {
   const [input, setInput] = useState("");
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: 'How can I help you with your code today?',
-      timestamp: new Date(),
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([GREETING]);
   const [isLoading, setIsLoading] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [providers, setProviders] = useState<AiProvidersResponse | null>(null);
+  const [provider, setProvider] = useState<AiProviderName | null>(getPreferredAiProvider);
+  const [conversations, setConversations] = useState<AiConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<number | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Conversation whose messages were last asked for, so a slow load cannot overwrite a later one
+  const loadingConversationRef = useRef<number | null>(null);
   
   const activeFile = useSelector(selectActiveFile);
+  const projectId = useSelector(selectProjectId);
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -39,6 +72,72 @@ export default function AiAssistant() {
     }
   }, [messages]);
 
+  const refreshConversations = async () => {
+    try {
+      setConversations(await getConversations(projectId));
+    } catch (error) {
+      console.error("Error loading conversations:", error);
+    }
+  };
+
+  // Show a saved conversation, or a fresh one for null
+  const openConversation = async (id: number | null) => {
+    abortControllerRef.current?.abort();
+    loadingConversationRef.current = id;
+    setActiveConversationId(id);
+    setShowHistory(false);
+
+    if (id === null) {
+      setMessages([GREETING]);
+      return;
+    }
+
+    try {
+      const saved = await getConversationMessages(id);
+      if (loadingConversationRef.current === id) {
+        setMessages([GREETING, ...saved.map(toMessage)]);
+      }
+    } catch (error) {
+      console.error("Error loading conversation:", error);
+    }
+  };
+
+  // Load the project's conversations and pick up the most recent one
+  useEffect(() => {
+    let cancelled = false;
+    getConversations(projectId)
+      .then((list) => {
+        if (cancelled) return;
+        setConversations(list);
+        openConversation(list[0]?.id ?? null);
+      })
+      .catch((error) => console.error("Error loading conversations:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleRename = async (id: number, title: string) => {
+    try {
+      const renamed = await renameConversation(id, title);
+      setConversations((prev) => prev.map((conversation) => conversation.id === id ? renamed : conversation));
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteConversation(id);
+      setConversations((prev) => prev.filter((conversation) => conversation.id !== id));
+      if (id === activeConversationId) {
+        openConversation(null);
+      }
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -52,47 +151,55 @@ export default function AiAssistant() {
       timestamp: new Date()
     };
     
-    setMessages((prev) => [...prev, userMessage]);
+    // The reply is added empty and filled in as it streams
+    const assistantId = (Date.now() + 1).toString();
+    const setReply = (update: (content: string) => string) => {
+      setMessages((prev) => prev.map((message) =>
+        message.id === assistantId ? { ...message, content: update(message.content) } : message
+      ));
+    };
+    
+    setMessages((prev) => [...prev, userMessage, { id: assistantId, role: 'assistant', content: '', timestamp: new Date() }]);
     setInput("");
     setIsLoading(true);
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
     try {
       // Get context from active file
       const context = activeFile 
         ? `Current file: ${activeFile.name}\n\n${activeFile.content}`
         : "No file is currently open.";
       
-      // Try to send message to AI if OpenAI API key is set
-      let response;
-      try {
-        // Send message to AI
-        response = await sendMessageToAI(input, context);
-      } catch (error) {
-        console.error("AI service error:", error);
-        response = "I'm having trouble connecting to the OpenAI service. This could be due to an API key issue or network problem. I can still help with basic IDE functionality, though!";
+      // The first message starts a conversation, titled after it by the server
+      let conversationId = activeConversationId;
+      if (conversationId === null) {
+        conversationId = (await createConversation(projectId)).id;
+        loadingConversationRef.current = conversationId;
+        setActiveConversationId(conversationId);
       }
-      
-      // Add AI response
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response,
-        timestamp: new Date()
-      };
-      
-      setMessages((prev) => [...prev, assistantMessage]);
+
+      await streamConversationMessage(conversationId, userMessage.content, context, {
+        onToken: (text) => setReply((content) => content + text),
+        signal: controller.signal,
+      });
     } catch (error) {
-      // Add error message
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: "Sorry, I encountered an error processing your request. Please try again.",
-        timestamp: new Date()
-      };
-      
-      setMessages((prev) => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        setReply((content) => content ? `${content}\n\n(stopped)` : "(stopped)");
+      } else {
+        console.error("AI service error:", error);
+        // Keep whatever arrived before the failure
+        if (error instanceof AiRequestError && error.status === 429) {
+          setReply((content) => content || error.message);
+        } else {
+          setReply((content) => content || "I'm having trouble connecting to the OpenAI service. This could be due to an API key issue or network problem. I can still help with basic IDE functionality, though!");
+        }
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      refreshConversations();
       
       // Focus input after response
       if (inputRef.current) {
@@ -101,6 +208,28 @@ export default function AiAssistant() {
     }
   };
 
+  // Load the providers the server offers for the picker
+  useEffect(() => {
+    getAiProviders()
+      .then(setProviders)
+      .catch((error) => console.error("Error loading AI providers:", error));
+  }, []);
+
+  // Use the picked provider for this and later requests
+  const handleProviderChange = (value: string) => {
+    const name = value as AiProviderName;
+    setPreferredAiProvider(name === providers?.default ? null : name);
+    setProvider(name);
+  };
+
+  // Stop the response being generated
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Stop generating if the assistant is closed mid-response
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const formatCode = (content: string) => {
     // Simple regex-based code block formatter
     return content.replace(/```([\s\S]*?)```/g, (match, code) => {
@@ -110,13 +239,53 @@ export default function AiAssistant() {
 
   return (
     <div className="flex flex-col h-full">
-      <div className="px-3 py-2 font-medium text-sm border-b border-border">
-        AI ASSISTANT
+      <div className="px-3 py-2 font-medium text-sm border-b border-border flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1 min-w-0">
+          <Button
+            variant={showHistory ? "secondary" : "ghost"}
+            size="icon"
+            className="h-6 w-6 p-0 shrink-0"
+            onClick={() => setShowHistory((show) => !show)}
+            title="Conversations"
+          >
+            <History className="h-3.5 w-3.5" />
+          </Button>
+          <span className="truncate">
+            {conversations.find((conversation) => conversation.id === activeConversationId)?.title ?? 'AI ASSISTANT'}
+          </span>
+        </div>
+        {providers && (
+          <Select value={provider ?? providers.default} onValueChange={handleProviderChange}>
+            <SelectTrigger className="h-6 w-28 text-xs" aria-label="AI provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {providers.providers.map((info) => (
+                <SelectItem key={info.name} value={info.name} disabled={!info.configured} className="text-xs">
+                  {info.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
       
+      {showHistory && (
+        <div className="border-b border-border h-1/2">
+          <AiConversationList
+            conversations={conversations}
+            activeId={activeConversationId}
+            onSelect={openConversation}
+            onNew={() => openConversation(null)}
+            onRename={handleRename}
+            onDelete={handleDelete}
+          />
+        </div>
+      )}
+      
       <ScrollArea className="flex-1 p-3" ref={scrollAreaRef}>
         <div className="space-y-4">
-          {messages.map((message) => (
+          {messages.filter((message) => message.content).map((message) => (
             <div 
               key={message.id}
               className={`p-2 rounded shadow-sm ${
@@ -137,7 +306,7 @@ export default function AiAssistant() {
             </div>
           ))}
           
-          {isLoading && (
+          {isLoading && !messages[messages.length - 1]?.content && (
             <div className="p-2 bg-background rounded shadow-sm mr-4">
               <div className="text-xs text-muted-foreground mb-1">
                 AI Assistant
@@ -164,15 +333,27 @@ export default function AiAssistant() {
             className="pr-10"
             disabled={isLoading}
           />
-          <Button
-            type="submit"
-            variant="ghost"
-            size="icon"
-            className="absolute right-2 top-2 h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
-            disabled={isLoading}
-          >
-            <ArrowUp className="h-4 w-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="absolute right-2 top-2 h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+              onClick={handleStop}
+              title="Stop generating"
+            >
+              <Square className="h-3.5 w-3.5 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              variant="ghost"
+              size="icon"
+              className="absolute right-2 top-2 h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </form>
     </div>
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { AiConversation } from "@/lib/openai-service";
+
+interface AiConversationListProps {
+  conversations: AiConversation[];
+  activeId: number | null;
+  onSelect: (id: number) => void;
+  onNew: () => void;
+  onRename: (id: number, title: string) => void;
+  onDelete: (id: number) => void;
+}
+
+/**
+ * The assistant's saved conversations, most recent first, with switching,
+ * renaming in place and deleting
+ */
+export default function AiConversationList({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: AiConversationListProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [title, setTitle] = useState("");
+
+  const startRename = (conversation: AiConversation) => {
+    setEditingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const finishRename = () => {
+    if (editingId !== null && title.trim()) {
+      onRename(editingId, title.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-2">
+        <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={onNew}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          New conversation
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="px-2 pb-2 space-y-1">
+          {conversations.length === 0 && (
+            <div className="text-xs text-muted-foreground text-center py-4">
+              No conversations yet
+            </div>
+          )}
+
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded px-2 py-1 text-xs cursor-pointer ${
+                conversation.id === activeId ? 'bg-primary/10' : 'hover:bg-muted'
+              }`}
+              onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+            >
+              {editingId === conversation.id ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    finishRename();
+                  }}
+                >
+                  <Input
+                    autoFocus
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    className="h-6 text-xs"
+                    maxLength={80}
+                    aria-label="Conversation title"
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-5 w-5 p-0" title="Save title">
+                    <Check className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 p-0"
+                    onClick={() => setEditingId(null)}
+                    title="Cancel"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <MessageSquare className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate" title={conversation.title}>
+                    {conversation.title}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startRename(conversation);
+                    }}
+                    title="Rename conversation"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(conversation.id);
+                    }}
+                    title="Delete conversation"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as monaco from 'monaco-editor';
+import { useTheme } from 'next-themes';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, FileCode, FilePlus, Loader2, X } from 'lucide-react';
+import { registerEditorThemes } from '@/lib/editor-utils';
+import { applyHunks, computeHunks, type DiffHunk } from '@/lib/diff-hunks';
+import type { ProposedFileChange } from '@/lib/openai-service';
+import { getLanguageForFile } from '@shared/file-tree';
+
+registerEditorThemes();
+
+type HunkDecision = 'pending' | 'accepted' | 'rejected';
+
+// A reviewed file and the content it ends up with
+export interface ReviewedChange {
+  change: ProposedFileChange;
+  content: string;
+}
+
+interface AiEditReviewProps {
+  changes: ProposedFileChange[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (reviewed: ReviewedChange[]) => Promise<void>;
+}
+
+interface ChangeDiffProps {
+  change: ProposedFileChange;
+  // The original with every hunk but the rejected ones applied
+  preview: string;
+  onReady: (diffEditor: monaco.editor.IStandaloneDiffEditor | null) => void;
+}
+
+/**
+ * Side-by-side diff of a file against the changes still in play
+ */
+function ChangeDiff({ change, preview, onReady }: ChangeDiffProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+  const { theme } = useTheme();
+
+  // Create the diff editor once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const diffEditor = monaco.editor.createDiffEditor(containerRef.current, {
+      readOnly: true,
+      originalEditable: false,
+      automaticLayout: true,
+      renderSideBySide: true,
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+      fontSize: 13,
+      fontFamily: "'Fira Code', monospace",
+    });
+    diffEditorRef.current = diffEditor;
+    onReady(diffEditor);
+
+    return () => {
+      const model = diffEditor.getModel();
+      onReady(null);
+      diffEditor.dispose();
+      model?.original.dispose();
+      model?.modified.dispose();
+      diffEditorRef.current = null;
+    };
+  }, []);
+
+  // Swap in new models whenever the file or the decisions on it change
+  useEffect(() => {
+    const diffEditor = diffEditorRef.current;
+    if (!diffEditor) return;
+
+    const language = getLanguageForFile(change.path);
+    const previous = diffEditor.getModel();
+    diffEditor.setModel({
+      original: monaco.editor.createModel(change.original, language),
+      modified: monaco.editor.createModel(preview, language),
+    });
+    previous?.original.dispose();
+    previous?.modified.dispose();
+  }, [change, preview]);
+
+  useEffect(() => {
+    monaco.editor.setTheme(theme === 'light' ? 'azure-light' : 'azure-dark');
+  }, [theme]);
+
+  return <div ref={containerRef} className="h-full w-full rounded-md border overflow-hidden" />;
+}
+
+/**
+ * Short description of where a hunk sits and how big it is
+ */
+const describeHunk = (hunk: DiffHunk): string => {
+  const where = hunk.originalLength === 0
+    ? `Insert after line ${hunk.originalStart}`
+    : hunk.originalLength === 1
+      ? `Line ${hunk.originalStart + 1}`
+      : `Lines ${hunk.originalStart + 1}-${hunk.originalStart + hunk.originalLength}`;
+  return `${where} (-${hunk.originalLength} +${hunk.lines.length})`;
+};
+
+/**
+ * Review of AI-proposed changes across files, hunk by hunk
+ * Nothing touches the editor until Apply; only accepted hunks are applied,
+ * and a file none of whose hunks were accepted is left alone. Rejected hunks
+ * drop out of the diff straight away.
+ */
+export default function AiEditReview({ changes, open, onOpenChange, onApply }: AiEditReviewProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, HunkDecision[]>>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState('');
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+
+  const hunksByPath = useMemo(() => {
+    const hunks: Record<string, DiffHunk[]> = {};
+    changes.forEach((change) => {
+      hunks[change.path] = computeHunks(change.original, change.modified);
+    });
+    return hunks;
+  }, [changes]);
+
+  // Start every review afresh
+  useEffect(() => {
+    const initial: Record<string, HunkDecision[]> = {};
+    changes.forEach((change) => {
+      initial[change.path] = hunksByPath[change.path].map((): HunkDecision => 'pending');
+    });
+    setDecisions(initial);
+    setSelectedPath(changes[0]?.path ?? null);
+    setError('');
+  }, [changes, hunksByPath]);
+
+  const selected = changes.find((change) => change.path === selectedPath);
+  const selectedHunks = selected ? hunksByPath[selected.path] : [];
+  const selectedDecisions = selected ? decisions[selected.path] ?? [] : [];
+
+  const preview = useMemo(
+    () => selected ? applyHunks(selected.original, selectedHunks, (i) => selectedDecisions[i] !== 'rejected') : '',
+    [selected, selectedHunks, selectedDecisions]
+  );
+
+  const acceptedCount = Object.values(decisions).reduce(
+    (total, fileDecisions) => total + fileDecisions.filter((decision) => decision === 'accepted').length,
+    0
+  );
+
+  const decide = (path: string, index: number, decision: HunkDecision) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [path]: prev[path].map((current, i) => (i === index ? (current === decision ? 'pending' : decision) : current)),
+    }));
+  };
+
+  const decideAll = (path: string, decision: HunkDecision) => {
+    setDecisions((prev) => ({ ...prev, [path]: prev[path].map(() => decision) }));
+  };
+
+  // Scroll both sides of the diff to a hunk
+  const revealHunk = (hunk: DiffHunk) => {
+    diffEditorRef.current?.getOriginalEditor().revealLineInCenter(Math.max(1, hunk.originalStart + 1));
+  };
+
+  const handleApply = async () => {
+    const reviewed: ReviewedChange[] = changes.flatMap((change) => {
+      const fileDecisions = decisions[change.path] ?? [];
+      if (!fileDecisions.includes('accepted')) return [];
+      const content = applyHunks(change.original, hunksByPath[change.path], (i) => fileDecisions[i] === 'accepted');
+      return [{ change, content }];
+    });
+
+    setIsApplying(true);
+    setError('');
+    try {
+      await onApply(reviewed);
+      onOpenChange(false);
+    } catch (err: any) {
+      console.error('Error applying AI edits:', err);
+      setError(err.message || 'Failed to apply the changes');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isApplying && onOpenChange(next)}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review changes</DialogTitle>
+          <DialogDescription>
+            Accept or reject each change. Only accepted changes are applied, and they can be undone together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 min-h-0 gap-3">
+          <ScrollArea className="w-56 shrink-0 border rounded-md">
+            <div className="p-1 space-y-1">
+              {changes.map((change) => {
+                const fileDecisions = decisions[change.path] ?? [];
+                const accepted = fileDecisions.filter((decision) => decision === 'accepted').length;
+                return (
+                  <button
+                    key={change.path}
+                    type="button"
+                    onClick={() => setSelectedPath(change.path)}
+                    className={`w-full flex items-center gap-1.5 rounded px-2 py-1 text-left text-xs ${
+                      change.path === selectedPath ? 'bg-primary/10' : 'hover:bg-muted'
+                    }`}
+                  >
+                    {change.isNewFile
+                      ? <FilePlus className="h-3.5 w-3.5 shrink-0 text-green-600" />
+                      : <FileCode className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                    <span className="flex-1 truncate font-mono" title={change.path}>{change.path}</span>
+                    <span className="text-muted-foreground shrink-0">{accepted}/{fileDecisions.length}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          {selected ? (
+            <div className="flex flex-1 min-w-0 flex-col gap-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-mono text-sm truncate">{selected.path}</span>
+                  {selected.isNewFile && <Badge variant="secondary">new file</Badge>}
+                  {selected.isCurrentFile && <Badge variant="outline">current file</Badge>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => decideAll(selected.path, 'accepted')}>
+                    Accept all
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => decideAll(selected.path, 'rejected')}>
+                    Reject all
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex-1 min-h-0">
+                <ChangeDiff
+                  change={selected}
+                  preview={preview}
+                  onReady={(diffEditor) => { diffEditorRef.current = diffEditor; }}
+                />
+              </div>
+
+              <ScrollArea className="max-h-40 border rounded-md">
+                <div className="p-1 space-y-1">
+                  {selectedHunks.map((hunk, i) => (
+                    <div
+                      key={`${hunk.originalStart}:${i}`}
+                      className={`flex items-center gap-2 rounded px-2 py-1 text-xs cursor-pointer hover:bg-muted ${
+                        selectedDecisions[i] === 'rejected' ? 'text-muted-foreground line-through' : ''
+                      }`}
+                      onClick={() => revealHunk(hunk)}
+                    >
+                      <span className="flex-1 truncate">{describeHunk(hunk)}</span>
+                      <Button
+                        variant={selectedDecisions[i] === 'accepted' ? 'default' : 'ghost'}
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          decide(selected.path, i, 'accepted');
+                        }}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        Accept
+                      </Button>
+                      <Button
+                        variant={selectedDecisions[i] === 'rejected' ? 'destructive' : 'ghost'}
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          decide(selected.path, i, 'rejected');
+                        }}
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          ) : (
+            <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+              No changes to review
+            </div>
+          )}
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isApplying || acceptedCount === 0}>
+            {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply {acceptedCount} accepted {acceptedCount === 1 ? 'change' : 'changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
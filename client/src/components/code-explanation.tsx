@@ -1,11 +1,11 @@
-import React, { useState } from 'react';
-import { explainCode } from '../lib/openai-service';
+import React, { useEffect, useRef, useState } from 'react';
+import { streamCodeExplanation } from '../lib/openai-service';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Label } from './ui/label';
-import { Loader2, Code, FileText } from 'lucide-react';
+import { Loader2, Code, FileText, Square } from 'lucide-react';
 import { SUPPORTED_LANGUAGES } from '../lib/editor-utils';
 
 /**
@@ -22,6 +22,10 @@ export default function CodeExplanation() {
   const [explanation, setExplanation] = useState('');
   const [error, setError] = useState('');
   const [mode, setMode] = useState<'explain' | 'document'>('explain');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running explanation when the component goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   // Handle code input change
   const handleCodeChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -40,23 +44,36 @@ export default function CodeExplanation() {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       setIsExplaining(true);
       setError('');
       setExplanation('');
 
-      // Call the API to explain the code
-      const result = await explainCode(code, language);
-      
-      setExplanation(result);
+      // Stream the explanation in as it is written
+      await streamCodeExplanation(code, language, {
+        onToken: (text) => setExplanation((current) => current + text),
+        signal: controller.signal,
+      });
     } catch (err: any) {
-      console.error('Error explaining code:', err);
-      setError(err.message || 'Failed to explain the code. Please try again.');
+      // Stopping keeps the part of the explanation already shown
+      if (!controller.signal.aborted) {
+        console.error('Error explaining code:', err);
+        setError(err.message || 'Failed to explain the code. Please try again.');
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsExplaining(false);
     }
   };
 
+  // Stop the explanation being generated
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Toggle between explanation and documentation modes
   const toggleMode = () => {
     setMode(mode === 'explain' ? 'document' : 'explain');
@@ -145,20 +162,28 @@ export default function CodeExplanation() {
       
       <CardFooter className="flex-col space-y-4">
         {/* Generate Button */}
-        <Button 
-          onClick={handleExplainCode} 
-          disabled={isExplaining || !code.trim()} 
-          className="w-full"
-        >
-          {isExplaining ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              {mode === 'explain' ? 'Analyzing Code...' : 'Generating Documentation...'}
-            </>
-          ) : (
-            mode === 'explain' ? 'Explain Code' : 'Generate Documentation'
+        <div className="flex w-full gap-2">
+          <Button 
+            onClick={handleExplainCode} 
+            disabled={isExplaining || !code.trim()} 
+            className="flex-1"
+          >
+            {isExplaining ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {mode === 'explain' ? 'Analyzing Code...' : 'Generating Documentation...'}
+              </>
+            ) : (
+              mode === 'explain' ? 'Explain Code' : 'Generate Documentation'
+            )}
+          </Button>
+          {isExplaining && (
+            <Button variant="outline" onClick={handleStop}>
+              <Square className="mr-2 h-3.5 w-3.5 fill-current" />
+              Stop
+            </Button>
           )}
-        </Button>
+        </div>
         
         {/* Error Message */}
         {error && (
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -21,6 +21,10 @@ import {
   Calendar, Code2, Sparkles, AtSign
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { createSnippet, getSnippetUrl, VanityUrlTakenError } from '@/lib/snippet-service';
+import { isComplexityLanguage } from '@/lib/complexity-service';
+import { useComplexityAnalysis } from '@/hooks/use-complexity-analysis';
+import ComplexityIndicator from './complexity-indicator';
 
 // Language options
 const LANGUAGES = [
@@ -73,7 +77,7 @@ const codeShareFormSchema = z.object({
     message: "Vanity URL must be at least 3 characters.",
   }).regex(/^[a-zA-Z0-9-_]+$/, {
     message: "Vanity URL can only contain letters, numbers, hyphens, and underscores.",
-  }).optional(),
+  }).optional().or(z.literal('')),
   complexity: z.preprocess(
     (val) => Number(val),
     z.number().min(1).max(5)
@@ -83,6 +87,14 @@ const codeShareFormSchema = z.object({
   }),
   isPublic: z.boolean().default(true),
   expiresAt: z.string().optional(),
+  // Comma-separated, e.g. "react, hooks"
+  tags: z.string().optional(),
+  burnAfterViews: z.preprocess(
+    (val) => (val === '' || val === undefined || val === null ? undefined : Number(val)),
+    z.number().int().min(1, {
+      message: "Must allow at least one view.",
+    }).optional()
+  ),
 });
 
 type CodeShareFormValues = z.infer<typeof codeShareFormSchema>;
@@ -111,9 +123,26 @@ export default function CodeSharing() {
       mood: 'neutral',
       isPublic: true,
       expiresAt: '',
+      tags: '',
+      burnAfterViews: undefined,
     },
   });
   
+  // Supported languages are measured on the server instead of picked by hand
+  const code = form.watch('code');
+  const language = form.watch('language');
+  const { report, isAnalyzing } = useComplexityAnalysis(code, language);
+  const mostComplexFunction = report?.functions.reduce((worst, fn) =>
+    fn.score > worst.score || (fn.score === worst.score && fn.cyclomatic > worst.cyclomatic) ? fn : worst
+  );
+  
+  useEffect(() => {
+    if (report) {
+      setComplexity(report.score);
+      form.setValue('complexity', report.score);
+    }
+  }, [report, form]);
+  
   // Generate a random vanity URL
   const generateVanityUrl = () => {
     const random = nanoid(8);
@@ -125,29 +154,35 @@ export default function CodeSharing() {
     try {
       setIsSubmitting(true);
       
-      // If no vanity URL is provided, generate one
-      if (!values.vanityUrl) {
-        values.vanityUrl = nanoid(8);
-      }
-      
-      // TODO: Send data to server
-      console.log("Sharing code snippet:", values);
-      
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Without a vanity URL the server picks a random one
+      const { burnAfterViews, tags, ...snippetValues } = values;
+      const snippet = await createSnippet({
+        ...snippetValues,
+        vanityUrl: values.vanityUrl || undefined,
+        expiresAt: values.expiresAt ? new Date(values.expiresAt).toISOString() : null,
+        maxViews: burnAfterViews ?? null,
+        tags: tags ? tags.split(',').map((tag) => tag.trim()).filter(Boolean) : [],
+      });
       
-      // Set shared URL (in a real app, this would come from the server)
-      const baseUrl = window.location.origin;
-      setSharedUrl(`${baseUrl}/s/${values.vanityUrl}`);
+      setSharedUrl(getSnippetUrl(snippet.vanityUrl!));
       
       toast({
         title: "Code shared successfully!",
         description: "Your code snippet is now available with a custom URL.",
       });
     } catch (error) {
+      if (error instanceof VanityUrlTakenError) {
+        // Offer the server's suggestion, keeping the message visible until the next submit
+        form.setValue('vanityUrl', error.suggestion);
+        form.setError('vanityUrl', {
+          message: `That URL is already taken, so "${error.suggestion}" was filled in instead.`,
+        });
+        return;
+      }
+      
       toast({
         title: "Failed to share code",
-        description: "There was an error sharing your code snippet. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error sharing your code snippet. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -324,6 +359,23 @@ export default function CodeSharing() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl>
+                      <Input placeholder="react, hooks, error-handling" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Comma-separated; helps others find your snippet in search.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
                   control={form.control}
@@ -396,28 +448,51 @@ export default function CodeSharing() {
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <FormLabel>Code Complexity</FormLabel>
-                  <div className="flex items-center mt-2">
-                    <span
-                      className={`inline-block w-4 h-4 rounded-full mr-2 ${getComplexityColor(complexity)}`}
-                    ></span>
-                    <div className="flex-1 h-2 bg-gray-200 rounded-full">
-                      {[1, 2, 3, 4, 5].map((value) => (
-                        <button
-                          key={value}
-                          type="button"
-                          className={`inline-block h-full rounded-full ${
-                            value <= complexity ? getComplexityColor(value) : 'bg-transparent'
-                          }`}
-                          style={{ width: '20%' }}
-                          onClick={() => handleComplexityChange(value)}
+                {isComplexityLanguage(language) ? (
+                  <div>
+                    <FormLabel>Code Complexity</FormLabel>
+                    {report && mostComplexFunction ? (
+                      <>
+                        <ComplexityIndicator
+                          value={report.score}
+                          className="mt-2"
+                          details={mostComplexFunction}
                         />
-                      ))}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Measured across {report.summary.functionCount} {report.summary.functionCount === 1 ? 'function' : 'functions'}
+                          {mostComplexFunction.score > 1 && `; most complex: ${mostComplexFunction.name}`}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground mt-2">
+                        {isAnalyzing ? 'Analyzing...' : 'Measured automatically once you add code.'}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <FormLabel>Code Complexity</FormLabel>
+                    <div className="flex items-center mt-2">
+                      <span
+                        className={`inline-block w-4 h-4 rounded-full mr-2 ${getComplexityColor(complexity)}`}
+                      ></span>
+                      <div className="flex-1 h-2 bg-gray-200 rounded-full">
+                        {[1, 2, 3, 4, 5].map((value) => (
+                          <button
+                            key={value}
+                            type="button"
+                            className={`inline-block h-full rounded-full ${
+                              value <= complexity ? getComplexityColor(value) : 'bg-transparent'
+                            }`}
+                            style={{ width: '20%' }}
+                            onClick={() => handleComplexityChange(value)}
+                          />
+                        ))}
+                      </div>
+                      <span className="ml-2 text-sm">{getComplexityLabel(complexity)}</span>
                     </div>
-                    <span className="ml-2 text-sm">{getComplexityLabel(complexity)}</span>
                   </div>
-                </div>
+                )}
                 
                 <div className="flex flex-col justify-center gap-4">
                   <FormField
@@ -443,6 +518,50 @@ export default function CodeSharing() {
                       </FormItem>
                     )}
                   />
+                  
+                  <FormField
+                    control={form.control}
+                    name="expiresAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" /> Expires
+                        </FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Leave empty to keep the link working forever.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="burnAfterViews"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-1">
+                          <EyeOff className="h-4 w-4" /> Burn after views
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder="Unlimited"
+                            {...field}
+                            value={field.value ?? ''}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Delete the snippet once this many people have viewed it.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
               </div>
               
@@ -28,6 +28,21 @@ import { toast } from '@/hooks/use-toast';
 import { motion } from 'framer-motion';
 import { AnimatedCodeGeneration } from './animated-code-generation';
 import ComplexityIndicator from './complexity-indicator';
+import { useSelector } from 'react-redux';
+import { selectActiveFile } from '@/store/editor-slice';
+import { getLanguageForFile } from '@/lib/editor-utils';
+import { insertSnippetAtCursor } from '@/lib/snippet-insertion';
+import {
+  getSnippetRecommendations,
+  getSnippetUrl,
+  searchSnippets,
+  sendSnippetFeedback,
+  type EditorContext,
+  type SearchFacet,
+  type SnippetRecommendation,
+  type SnippetSearchHit,
+  type SnippetSearchResult,
+} from '@/lib/snippet-service';
 
 interface CodeSnippet {
   id: string;
@@ -39,43 +54,67 @@ interface CodeSnippet {
   relevance: number; // 0-100
   complexity: number; // 1-5
   source?: string;
+  // The user's thumbs up (true) or down (false), for recommendations
+  userFeedback?: boolean | null;
 }
 
+const SEARCH_PAGE_SIZE = 10;
+
+// Show a search hit as a recommendation card, scoring relevance against the best hit
+const toRecommendation = (hit: SnippetSearchHit, topScore: number): CodeSnippet => ({
+  id: String(hit.id),
+  title: hit.title,
+  code: hit.code,
+  language: hit.language,
+  description: hit.description ?? '',
+  tags: hit.tags,
+  relevance: topScore > 0 ? Math.round((hit.score / topScore) * 100) : 0,
+  complexity: hit.complexity ?? 1,
+  source: hit.vanityUrl ? getSnippetUrl(hit.vanityUrl) : undefined,
+});
+
+// Show a recommendation for the active file, keeping the server's relevance and the user's vote
+const toContextualRecommendation = (recommendation: SnippetRecommendation): CodeSnippet => ({
+  ...toRecommendation(recommendation, 0),
+  relevance: recommendation.relevance,
+  userFeedback: recommendation.userFeedback,
+});
+
 interface CodeSnippetRecommendationsProps {
-  currentCode?: string;
-  currentLanguage?: string;
   recentSearches?: string[];
   onInsertSnippet?: (snippet: CodeSnippet) => void;
 }
 
 /**
- * AI-Powered Code Snippet Recommendation Sidebar
+ * Code Snippet Recommendation Sidebar
  * 
- * This component analyzes the current code context and suggests relevant
- * code snippets that can be inserted into the editor.
+ * This component matches the imports and identifiers of the active file
+ * against the snippet library and suggests snippets that can be inserted
+ * into the editor, learning from the user's thumbs up/down feedback.
  */
 export default function CodeSnippetRecommendations({
-  currentCode = '',
-  currentLanguage = 'javascript',
   recentSearches = [],
   onInsertSnippet
 }: CodeSnippetRecommendationsProps) {
+  const activeFile = useSelector(selectActiveFile);
   const [activeTab, setActiveTab] = useState<'contextual' | 'search' | 'saved'>('contextual');
   const [isLoading, setIsLoading] = useState(true);
   const [snippets, setSnippets] = useState<CodeSnippet[]>([]);
+  const [editorContext, setEditorContext] = useState<EditorContext | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<CodeSnippet[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchPage, setSearchPage] = useState(1);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searchTopScore, setSearchTopScore] = useState(0);
+  const [searchFacets, setSearchFacets] = useState<SnippetSearchResult['facets'] | null>(null);
+  const [languageFilter, setLanguageFilter] = useState<string | null>(null);
+  const [moodFilter, setMoodFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [savedSnippets, setSavedSnippets] = useState<CodeSnippet[]>([]);
   const [selectedSnippet, setSelectedSnippet] = useState<CodeSnippet | null>(null);
   const [showSnippetDetail, setShowSnippetDetail] = useState(false);
   
-  // Load contextual recommendations when current code changes
-  useEffect(() => {
-    if (currentCode) {
-      loadContextualRecommendations();
-    }
-  }, [currentCode, currentLanguage]);
-  
   // Load saved snippets from localStorage
   useEffect(() => {
     const saved = localStorage.getItem('saved-snippets');
@@ -88,111 +127,27 @@ export default function CodeSnippetRecommendations({
     }
   }, []);
   
-  // Load contextual recommendations based on current code
+  // Recommend snippets for the active file, sending bookmarks so they rank higher
   const loadContextualRecommendations = async () => {
-    setIsLoading(true);
-    
-    try {
-      // In a real app, this would call an API to get AI-powered recommendations
-      await new Promise(resolve => setTimeout(resolve, 1200));
-      
-      // Example hardcoded snippets for demonstration
-      const mockSnippets: CodeSnippet[] = [
-        {
-          id: '1',
-          title: 'Fetch API with error handling',
-          code: `async function fetchData(url) {
-  try {
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(\`HTTP error! Status: \${response.status}\`);
+    if (!activeFile) {
+      setSnippets([]);
+      setEditorContext(null);
+      setIsLoading(false);
+      return;
     }
     
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Fetch error:', error);
-    throw error;
-  }
-}`,
-          language: 'javascript',
-          description: 'A robust fetch function with proper error handling and async/await pattern.',
-          tags: ['fetch', 'api', 'async', 'error-handling'],
-          relevance: 95,
-          complexity: 2,
-        },
-        {
-          id: '2',
-          title: 'React useEffect cleanup',
-          code: `useEffect(() => {
-  // Setup code here (e.g. event listeners, subscriptions)
-  const subscription = someExternalAPI.subscribe();
-  
-  // Cleanup function to prevent memory leaks
-  return () => {
-    subscription.unsubscribe();
-  };
-}, [dependency1, dependency2]);`,
-          language: 'javascript',
-          description: 'Proper useEffect hook with cleanup to prevent memory leaks.',
-          tags: ['react', 'hooks', 'useEffect', 'cleanup'],
-          relevance: 87,
-          complexity: 2,
-        },
-        {
-          id: '3',
-          title: 'Throttle function',
-          code: `function throttle(func, limit) {
-  let inThrottle;
-  
-  return function(...args) {
-    const context = this;
+    setIsLoading(true);
     
-    if (!inThrottle) {
-      func.apply(context, args);
-      inThrottle = true;
-      setTimeout(() => (inThrottle = false), limit);
-    }
-  };
-}
-
-// Usage
-const throttledScroll = throttle(() => {
-  console.log('Scroll event throttled');
-}, 300);
-
-window.addEventListener('scroll', throttledScroll);`,
-          language: 'javascript',
-          description: 'Throttle function to limit the rate at which a function can fire.',
-          tags: ['performance', 'throttle', 'optimization'],
-          relevance: 78,
-          complexity: 3,
-        },
-        {
-          id: '4',
-          title: 'Framer Motion fade-in animation',
-          code: `import { motion } from 'framer-motion';
-
-export const FadeIn = ({ children }) => (
-  <motion.div
-    initial={{ opacity: 0 }}
-    animate={{ opacity: 1 }}
-    exit={{ opacity: 0 }}
-    transition={{ duration: 0.3 }}
-  >
-    {children}
-  </motion.div>
-);`,
-          language: 'javascript',
-          description: 'Simple fade-in animation component using Framer Motion.',
-          tags: ['animation', 'framer-motion', 'react'],
-          relevance: 65,
-          complexity: 1,
-        },
-      ];
+    try {
+      const response = await getSnippetRecommendations({
+        language: activeFile.language || getLanguageForFile(activeFile.name),
+        code: activeFile.content,
+        fileName: activeFile.name,
+        savedSnippetIds: savedSnippets.map(snippet => Number(snippet.id)).filter(Number.isInteger),
+      });
       
-      setSnippets(mockSnippets);
+      setSnippets(response.recommendations.map(toContextualRecommendation));
+      setEditorContext(response.context);
       
     } catch (error) {
       console.error('Error loading recommendations:', error);
@@ -208,27 +163,43 @@ export const FadeIn = ({ children }) => (
     }
   };
   
-  // Search for code snippets
-  const searchSnippets = async (query: string) => {
-    if (!query.trim()) {
+  // Recommend again once the active file stops changing for a moment, or bookmarks change
+  useEffect(() => {
+    const timer = setTimeout(loadContextualRecommendations, 1500);
+    return () => clearTimeout(timer);
+  }, [activeFile?.id, activeFile?.content, activeFile?.language, savedSnippets]);
+  
+  const hasSearchFilters = !!searchQuery.trim() || !!languageFilter || !!moodFilter || tagFilter.length > 0;
+  
+  // Search shared snippets; later pages are appended to the results already shown
+  const searchSharedSnippets = async (page: number) => {
+    if (!hasSearchFilters) {
       setSearchResults([]);
+      setSearchFacets(null);
+      setSearchTotal(0);
       return;
     }
     
-    setIsLoading(true);
+    setIsSearching(true);
     
     try {
-      // In a real app, this would call an API to search for snippets
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Filter existing snippets for demo purposes
-      const results = snippets.filter(snippet => 
-        snippet.title.toLowerCase().includes(query.toLowerCase()) || 
-        snippet.description.toLowerCase().includes(query.toLowerCase()) ||
-        snippet.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()))
-      );
+      const result = await searchSnippets({
+        query: searchQuery.trim(),
+        language: languageFilter ?? undefined,
+        mood: moodFilter ?? undefined,
+        tags: tagFilter,
+        page,
+        pageSize: SEARCH_PAGE_SIZE,
+      });
       
-      setSearchResults(results);
+      // Relevance is measured against the best hit, which is always on the first page
+      const topScore = page === 1 ? result.results[0]?.score ?? 0 : searchTopScore;
+      const results = result.results.map(hit => toRecommendation(hit, topScore));
+      setSearchResults(page === 1 ? results : [...searchResults, ...results]);
+      setSearchTopScore(topScore);
+      setSearchFacets(result.facets);
+      setSearchTotal(result.total);
+      setSearchPage(page);
       
     } catch (error) {
       console.error('Error searching snippets:', error);
@@ -240,10 +211,23 @@ export const FadeIn = ({ children }) => (
       });
       
     } finally {
-      setIsLoading(false);
+      setIsSearching(false);
     }
   };
   
+  // Search again shortly after the query or filters stop changing
+  useEffect(() => {
+    const timer = setTimeout(() => searchSharedSnippets(1), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, languageFilter, moodFilter, tagFilter]);
+  
+  // Browse every snippet with a tag
+  const browseTag = (tag: string) => {
+    setTagFilter(current => current.includes(tag) ? current : [...current, tag]);
+    setActiveTab('search');
+    setShowSnippetDetail(false);
+  };
+  
   // Save snippet to localStorage
   const saveSnippet = (snippet: CodeSnippet) => {
     // Check if already saved
@@ -280,26 +264,78 @@ export const FadeIn = ({ children }) => (
     });
   };
   
-  // Insert snippet into editor
+  // Insert snippet at the cursor of the active editor; ${1:name} placeholders become tab-stops
   const insertSnippet = (snippet: CodeSnippet) => {
-    if (onInsertSnippet) {
-      onInsertSnippet(snippet);
+    if (!activeFile || !insertSnippetAtCursor(activeFile.id, snippet.code)) {
+      toast({
+        title: "No editor open",
+        description: "Open a file to insert the code snippet into.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    onInsertSnippet?.(snippet);
+    setShowSnippetDetail(false);
+    
+    toast({
+      title: "Snippet inserted",
+      description: "The code snippet has been inserted into your editor. Press Tab to move between placeholders.",
+    });
+  };
+  
+  // Record feedback on a snippet; it re-ranks the next recommendations
+  const provideFeedback = async (snippet: CodeSnippet, isPositive: boolean) => {
+    try {
+      await sendSnippetFeedback(Number(snippet.id), isPositive);
+      
+      const withVote = (s: CodeSnippet) => s.id === snippet.id ? { ...s, userFeedback: isPositive } : s;
+      setSnippets(current => current.map(withVote));
+      setSearchResults(current => current.map(withVote));
+      setSelectedSnippet(current => current && withVote(current));
+      
+      toast({
+        title: "Feedback recorded",
+        description: `Thank you for your ${isPositive ? 'positive' : 'negative'} feedback.`,
+      });
+      
+      loadContextualRecommendations();
+      
+    } catch (error) {
+      console.error('Error recording feedback:', error);
       
       toast({
-        title: "Snippet inserted",
-        description: "The code snippet has been inserted into your editor.",
+        title: "Feedback not recorded",
+        description: "Could not save your feedback. Please try again.",
+        variant: "destructive",
       });
     }
   };
   
-  // Provide feedback on snippet
-  const provideFeedback = (snippet: CodeSnippet, isPositive: boolean) => {
-    // In a real app, this would call an API to record feedback
+  // Render a row of facet values; clicking the selected value clears the filter
+  const renderFacet = (
+    label: string,
+    facets: SearchFacet[] | undefined,
+    selected: string | null,
+    onSelect: (value: string | null) => void
+  ) => {
+    if (!facets || facets.length === 0) return null;
     
-    toast({
-      title: "Feedback recorded",
-      description: `Thank you for your ${isPositive ? 'positive' : 'negative'} feedback.`,
-    });
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-1">{label}:</span>
+        {facets.map((facet) => (
+          <Badge
+            key={facet.value}
+            variant={selected === facet.value ? 'default' : 'outline'}
+            className="cursor-pointer text-[10px] capitalize"
+            onClick={() => onSelect(selected === facet.value ? null : facet.value)}
+          >
+            {facet.value} ({facet.count})
+          </Badge>
+        ))}
+      </div>
+    );
   };
   
   // Render snippet card
@@ -345,7 +381,12 @@ export const FadeIn = ({ children }) => (
             
             <div className="flex flex-wrap gap-1 mt-2">
               {snippet.tags.map((tag) => (
-                <Badge key={tag} variant="outline" className="text-[10px]">
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="text-[10px] cursor-pointer"
+                  onClick={() => browseTag(tag)}
+                >
                   {tag}
                 </Badge>
               ))}
@@ -467,7 +508,12 @@ export const FadeIn = ({ children }) => (
               
               <div className="flex flex-wrap gap-1 mb-4">
                 {selectedSnippet.tags.map((tag) => (
-                  <Badge key={tag} variant="outline">
+                  <Badge
+                    key={tag}
+                    variant="outline"
+                    className="cursor-pointer"
+                    onClick={() => browseTag(tag)}
+                  >
                     {tag}
                   </Badge>
                 ))}
@@ -510,7 +556,7 @@ export const FadeIn = ({ children }) => (
               
               <div className="flex justify-center gap-4 mt-6 pt-4 border-t">
                 <Button 
-                  variant="ghost" 
+                  variant={selectedSnippet.userFeedback === true ? 'secondary' : 'ghost'}
                   size="sm"
                   onClick={() => provideFeedback(selectedSnippet, true)}
                 >
@@ -519,7 +565,7 @@ export const FadeIn = ({ children }) => (
                 </Button>
                 
                 <Button 
-                  variant="ghost" 
+                  variant={selectedSnippet.userFeedback === false ? 'secondary' : 'ghost'}
                   size="sm"
                   onClick={() => provideFeedback(selectedSnippet, false)}
                 >
@@ -543,7 +589,7 @@ export const FadeIn = ({ children }) => (
             Code Recommendations
           </CardTitle>
           <CardDescription className="text-xs">
-            AI-powered snippet suggestions based on your code
+            Snippet suggestions based on the file you are editing
           </CardDescription>
         </CardHeader>
         
@@ -570,6 +616,11 @@ export const FadeIn = ({ children }) => (
             
             <div className="flex-1 overflow-hidden">
               <TabsContent value="contextual" className="h-full mt-2 overflow-y-auto">
+                {editorContext && !isLoading && (editorContext.imports.length > 0 || editorContext.identifiers.length > 0) && (
+                  <p className="text-[10px] text-muted-foreground mb-2 line-clamp-2">
+                    Based on {[...editorContext.imports, ...editorContext.identifiers.slice(0, 5)].join(', ')}
+                  </p>
+                )}
                 {isLoading ? (
                   <div className="space-y-3">
                     {Array(3).fill(0).map((_, i) => (
@@ -591,7 +642,7 @@ export const FadeIn = ({ children }) => (
                     <Lightbulb className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
                     <h3 className="font-medium">No recommendations yet</h3>
                     <p className="text-sm text-muted-foreground mt-1">
-                      Start coding to get AI-powered snippet suggestions
+                      {activeFile ? 'No snippets match this file yet' : 'Open a file to get snippet suggestions'}
                     </p>
                   </div>
                 )}
@@ -604,10 +655,7 @@ export const FadeIn = ({ children }) => (
                     className="w-full p-2 pl-8 text-sm border rounded-md"
                     placeholder="Search for code snippets..."
                     value={searchQuery}
-                    onChange={(e) => {
-                      setSearchQuery(e.target.value);
-                      searchSnippets(e.target.value);
-                    }}
+                    onChange={(e) => setSearchQuery(e.target.value)}
                   />
                   <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
                 </div>
@@ -624,10 +672,7 @@ export const FadeIn = ({ children }) => (
                           key={i}
                           variant="outline"
                           className="cursor-pointer"
-                          onClick={() => {
-                            setSearchQuery(search);
-                            searchSnippets(search);
-                          }}
+                          onClick={() => setSearchQuery(search)}
                         >
                           {search}
                         </Badge>
@@ -636,8 +681,35 @@ export const FadeIn = ({ children }) => (
                   </div>
                 )}
                 
+                {(searchFacets || tagFilter.length > 0) && (
+                  <div className="mb-3 space-y-2">
+                    {tagFilter.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1">
+                        {tagFilter.map((tag) => (
+                          <Badge
+                            key={tag}
+                            className="cursor-pointer text-[10px]"
+                            onClick={() => setTagFilter(current => current.filter(t => t !== tag))}
+                          >
+                            <TagIcon className="h-3 w-3 mr-1" />
+                            {tag} &times;
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {renderFacet('Language', searchFacets?.languages, languageFilter, setLanguageFilter)}
+                    {renderFacet('Mood', searchFacets?.moods, moodFilter, setMoodFilter)}
+                    {renderFacet(
+                      'Tags',
+                      searchFacets?.tags.filter(facet => !tagFilter.includes(facet.value)),
+                      null,
+                      (tag) => tag && browseTag(tag)
+                    )}
+                  </div>
+                )}
+                
                 <div className="overflow-y-auto">
-                  {isLoading ? (
+                  {isSearching && searchResults.length === 0 ? (
                     <div className="space-y-3">
                       {Array(2).fill(0).map((_, i) => (
                         <div key={i} className="p-4 border rounded-lg animate-pulse">
@@ -651,9 +723,22 @@ export const FadeIn = ({ children }) => (
                         </div>
                       ))}
                     </div>
-                  ) : searchQuery ? (
+                  ) : hasSearchFilters ? (
                     searchResults.length > 0 ? (
-                      searchResults.map(snippet => renderSnippetCard(snippet))
+                      <>
+                        {searchResults.map(snippet => renderSnippetCard(snippet))}
+                        {searchResults.length < searchTotal && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full h-7 text-xs mb-2"
+                            disabled={isSearching}
+                            onClick={() => searchSharedSnippets(searchPage + 1)}
+                          >
+                            {isSearching ? 'Loading...' : `Load more (${searchTotal - searchResults.length} remaining)`}
+                          </Button>
+                        )}
+                      </>
                     ) : (
                       <div className="text-center p-8 border rounded-md">
                         <Search className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
@@ -14,6 +14,12 @@ interface ComplexityIndicatorProps {
   showLabel?: boolean;
   maxValue?: number;
   className?: string;
+  // Measured metrics behind the score, shown in the tooltip
+  details?: {
+    cyclomatic: number;
+    maxNesting: number;
+    length: number;
+  };
 }
 
 /**
@@ -28,6 +34,7 @@ export default function ComplexityIndicator({
   showLabel = true,
   maxValue = 5,
   className,
+  details,
 }: ComplexityIndicatorProps) {
   // Ensure value is within range
   const normalizedValue = Math.max(1, Math.min(value, maxValue));
@@ -90,6 +97,16 @@ export default function ComplexityIndicator({
           <div className="flex flex-col gap-1">
             <p className="font-medium">Code Complexity: {normalizedValue}/{maxValue}</p>
             <p className="text-xs text-muted-foreground">{getComplexityDescription(normalizedValue, maxValue)}</p>
+            {details && (
+              <div className="grid grid-cols-2 gap-x-3 text-xs mt-1">
+                <span className="text-muted-foreground">Cyclomatic</span>
+                <span>{details.cyclomatic}</span>
+                <span className="text-muted-foreground">Max nesting</span>
+                <span>{details.maxNesting}</span>
+                <span className="text-muted-foreground">Length</span>
+                <span>{details.length} lines</span>
+              </div>
+            )}
           </div>
         </TooltipContent>
       </Tooltip>
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { useSelector } from 'react-redux';
-import { selectFiles, selectOpenFiles } from '../store/editor-slice';
-import { generateContextAwareCode } from '../lib/openai-service';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch } from '../store';
+import { applyAiEdits, selectLastAiEdit, selectOpenFiles, selectProjectId, undoAiEdits } from '../store/editor-slice';
+import { generateContextAwareCode, type ContextAwareCodeRequest, type ContextSource, type ProposedFileChange } from '../lib/openai-service';
+import { getEditorSelection } from '../lib/editor-registry';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
@@ -9,9 +11,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Label } from './ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
-import { Loader2, CheckIcon, Code2Icon } from 'lucide-react';
+import { Loader2, Code2Icon, GitCompareIcon, Undo2Icon } from 'lucide-react';
 import { SUPPORTED_LANGUAGES } from '../lib/editor-utils';
 import { AnimatedCodeGeneration } from './animated-code-generation';
+import AiEditReview, { type ReviewedChange } from './ai-edit-review';
 
 /**
  * Context-Aware Code Generator Component
@@ -28,6 +31,10 @@ export default function ContextAwareCodeGenerator() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedCode, setGeneratedCode] = useState('');
   const [explanation, setExplanation] = useState('');
+  const [sources, setSources] = useState<ContextSource[]>([]);
+  const [changes, setChanges] = useState<ProposedFileChange[]>([]);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
   const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState('code');
   const [selectedContextOptions, setSelectedContextOptions] = useState({
@@ -37,14 +44,23 @@ export default function ContextAwareCodeGenerator() {
     includeRelatedFiles: false,
   });
 
-  // Get files and active file from the store
-  const files = useSelector(selectFiles);
+  // Get the project and active file from the store
+  const dispatch = useDispatch<AppDispatch>();
+  const projectId = useSelector(selectProjectId);
+  const lastAiEdit = useSelector(selectLastAiEdit);
   const openFiles = useSelector(selectOpenFiles);
   const activeFile = openFiles.find((file) => file.active);
 
-  // Get selected code (simulated - would come from editor)
+  // Code selected in the active file's editor
   const [selectedCode, setSelectedCode] = useState('');
 
+  // The file sent as the current file, which changes to it refer to
+  const [requestFileId, setRequestFileId] = useState<string | undefined>();
+
+  useEffect(() => {
+    setSelectedCode(activeFile ? getEditorSelection(activeFile.id) : '');
+  }, [activeFile?.id]);
+
   // Handle prompt change
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setPrompt(e.target.value);
@@ -63,26 +79,6 @@ export default function ContextAwareCodeGenerator() {
     }));
   };
 
-  // Get project structure
-  const getProjectStructure = () => {
-    return files.map((file) => ({
-      name: file.name,
-      type: file.type,
-    }));
-  };
-
-  // Get related files (simplified - in a real app, this would be more sophisticated)
-  const getRelatedFiles = () => {
-    // For demo, just return the first 2 open files that aren't the active file
-    return openFiles
-      .filter((file) => file.id !== activeFile?.id)
-      .slice(0, 2)
-      .map((file) => ({
-        name: file.name,
-        content: file.content,
-      }));
-  };
-
   // Generate code with context
   const handleGenerateCode = async () => {
     if (!prompt.trim()) {
@@ -95,34 +91,39 @@ export default function ContextAwareCodeGenerator() {
       setError('');
       setGeneratedCode('');
       setExplanation('');
+      setSources([]);
+      setChanges([]);
 
-      // Build context object
-      const codeContext: any = {};
+      // The server retrieves the relevant parts of the project for the prompt
+      const request: ContextAwareCodeRequest = {
+        prompt,
+        language,
+        projectId,
+        includeProjectStructure: selectedContextOptions.includeProjectStructure,
+        includeRelatedFiles: selectedContextOptions.includeRelatedFiles,
+      };
 
-      if (selectedContextOptions.includeCurrentFile && activeFile) {
-        codeContext.currentFile = {
+      const currentFileId = selectedContextOptions.includeCurrentFile ? activeFile?.id : undefined;
+      setRequestFileId(currentFileId);
+      if (currentFileId && activeFile) {
+        request.currentFile = {
+          fileId: activeFile.serverId,
           name: activeFile.name,
           content: activeFile.content,
         };
       }
 
       if (selectedContextOptions.includeSelectedCode && selectedCode) {
-        codeContext.selectedCode = selectedCode;
-      }
-
-      if (selectedContextOptions.includeProjectStructure) {
-        codeContext.projectStructure = getProjectStructure();
-      }
-
-      if (selectedContextOptions.includeRelatedFiles) {
-        codeContext.relatedFiles = getRelatedFiles();
+        request.selectedCode = selectedCode;
       }
 
       // Call the API
-      const result = await generateContextAwareCode(prompt, language, codeContext);
+      const result = await generateContextAwareCode(request);
       
       setGeneratedCode(result.code);
       setExplanation(result.explanation);
+      setSources(result.sources);
+      setChanges(result.changes);
       setActiveTab('code');
     } catch (err: any) {
       console.error('Error generating code:', err);
@@ -132,15 +133,46 @@ export default function ContextAwareCodeGenerator() {
     }
   };
 
-  // Insert code into editor (would be implemented based on your editor integration)
-  const handleInsertCode = () => {
-    // This would dispatch an action to insert the code at the cursor position
-    console.log('Inserting code into editor');
-    // Example: dispatch(insertCodeAtCursor(generatedCode));
-    // Show success message
-    alert('Code inserted successfully!');
+  // Apply the reviewed changes to the project as one undoable step
+  const handleApplyChanges = async (reviewed: ReviewedChange[]) => {
+    await dispatch(applyAiEdits({
+      label: prompt,
+      edits: reviewed.map(({ change, content }) => ({
+        path: change.path,
+        fileId: change.isCurrentFile ? requestFileId : undefined,
+        content,
+      })),
+    })).unwrap();
   };
 
+  const handleUndoChanges = async () => {
+    try {
+      setIsUndoing(true);
+      setError('');
+      await dispatch(undoAiEdits()).unwrap();
+    } catch (err: any) {
+      console.error('Error undoing AI edits:', err);
+      setError(err.message || 'Failed to undo the changes.');
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  // Button opening the diff review of the proposed changes
+  const reviewButton = (
+    <Button
+      onClick={() => setIsReviewOpen(true)}
+      variant="outline"
+      className="mt-4"
+      disabled={changes.length === 0}
+    >
+      <GitCompareIcon className="mr-2 h-4 w-4" />
+      {changes.length === 0
+        ? 'No changes proposed'
+        : `Review Changes (${changes.length} ${changes.length === 1 ? 'file' : 'files'})`}
+    </Button>
+  );
+
   return (
     <Card className="w-full max-w-3xl mx-auto shadow-lg">
       <CardHeader className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-t-lg">
@@ -251,21 +283,20 @@ export default function ContextAwareCodeGenerator() {
           </AccordionItem>
         </Accordion>
         
-        {/* Text field for selected code simulation */}
+        {/* Selection from the editor */}
         <div className="space-y-2">
-          <Label htmlFor="selectedCode" className="text-sm font-medium">
-            Selected Code (for testing)
+          <Label className="text-sm font-medium">
+            Selected Code
           </Label>
-          <Textarea
-            id="selectedCode"
-            placeholder="Paste code here to simulate selected text in editor"
-            value={selectedCode}
-            onChange={(e) => setSelectedCode(e.target.value)}
-            className="h-[80px] resize-y"
-          />
-          <p className="text-xs text-gray-500">
-            In a real implementation, this would come from the editor selection.
-          </p>
+          {selectedCode ? (
+            <pre className="bg-gray-900 text-gray-100 p-2 rounded-md overflow-auto text-xs max-h-[120px]">
+              <code>{selectedCode}</code>
+            </pre>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Nothing is selected{activeFile ? ` in ${activeFile.name}` : ''}. Select code in the editor to focus the generated code on it.
+            </p>
+          )}
         </div>
       </CardContent>
       
@@ -291,6 +322,19 @@ export default function ContextAwareCodeGenerator() {
           <div className="text-red-500 text-sm mt-2">{error}</div>
         )}
         
+        {/* Undo for the last applied changes */}
+        {lastAiEdit && (
+          <div className="w-full flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+            <span className="truncate">
+              Applied changes to {lastAiEdit.files.length} {lastAiEdit.files.length === 1 ? 'file' : 'files'}: {lastAiEdit.label}
+            </span>
+            <Button variant="outline" size="sm" onClick={handleUndoChanges} disabled={isUndoing}>
+              {isUndoing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2Icon className="mr-2 h-4 w-4" />}
+              Undo
+            </Button>
+          </div>
+        )}
+        
         {/* Generated Code Result */}
         {(generatedCode || explanation) && (
           <div className="w-full mt-4 border rounded-md">
@@ -305,20 +349,16 @@ export default function ContextAwareCodeGenerator() {
                 <TabsTrigger value="animated" className="flex-1">
                   Animated View
                 </TabsTrigger>
+                <TabsTrigger value="context" className="flex-1">
+                  Context ({sources.length})
+                </TabsTrigger>
               </TabsList>
               
               <TabsContent value="code" className="p-4">
                 <pre className="bg-gray-900 text-gray-100 p-4 rounded-md overflow-x-auto text-sm">
                   <code>{generatedCode}</code>
                 </pre>
-                <Button 
-                  onClick={handleInsertCode} 
-                  variant="outline" 
-                  className="mt-4"
-                >
-                  <CheckIcon className="mr-2 h-4 w-4" />
-                  Insert Code at Cursor
-                </Button>
+                {reviewButton}
               </TabsContent>
               
               <TabsContent value="explanation" className="p-4">
@@ -335,19 +375,38 @@ export default function ContextAwareCodeGenerator() {
                   language={language}
                   className="border-none shadow-none"
                 />
-                <Button 
-                  onClick={handleInsertCode} 
-                  variant="outline" 
-                  className="mt-4"
-                >
-                  <CheckIcon className="mr-2 h-4 w-4" />
-                  Insert Code at Cursor
-                </Button>
+                {reviewButton}
+              </TabsContent>
+              
+              <TabsContent value="context" className="p-4">
+                {sources.length === 0 ? (
+                  <p className="text-sm text-gray-500">No project code was relevant enough to include.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {sources.map((source) => (
+                      <li key={`${source.path}:${source.startLine}`} className="flex justify-between gap-2">
+                        <span className="font-mono text-xs truncate">
+                          {source.path}:{source.startLine}-{source.endLine}
+                        </span>
+                        <span className="text-xs text-gray-500 shrink-0">
+                          {source.reason === 'current-file' ? 'current file' : source.reason === 'import' ? 'imported' : 'matches prompt'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </TabsContent>
             </Tabs>
           </div>
         )}
       </CardFooter>
+      
+      <AiEditReview
+        changes={changes}
+        open={isReviewOpen}
+        onOpenChange={setIsReviewOpen}
+        onApply={handleApplyChanges}
+      />
     </Card>
   );
 }
\ No newline at end of file
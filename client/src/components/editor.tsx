@@ -1,34 +1,106 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import * as monaco from "monaco-editor";
 import { useSelector, useDispatch } from "react-redux";
+import type { AppDispatch } from "@/store";
 import { 
   selectOpenFiles, 
   updateFileContent, 
   closeFile, 
-  setActiveFile 
+  setActiveFile,
+  saveFile,
+  flushFile,
+  resolveConflict,
+  type OpenFile
 } from "@/store/editor-slice";
 import { useEditorSetup } from "@/hooks/use-editor";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useComplexityAnalysis } from "@/hooks/use-complexity-analysis";
+import { TOP_LEVEL_NAME, type FunctionComplexity } from "@/lib/complexity-service";
+import { getLanguageForFile } from "@/lib/editor-utils";
+import { registerEditor, unregisterEditor } from "@/lib/editor-registry";
+import ComplexityIndicator from "@/components/complexity-indicator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, Loader2, X } from "lucide-react";
+
+// Small save indicator shown next to the file name in the tab strip
+const SaveStatusIndicator = ({ file }: { file: OpenFile }) => {
+  switch (file.saveStatus) {
+    case "dirty":
+      return <span className="h-2 w-2 rounded-full bg-foreground/70" title="Unsaved changes" />;
+    case "saving":
+      return <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" aria-label="Saving" />;
+    case "error":
+      return <AlertTriangle className="h-3 w-3 text-red-500" aria-label="Save failed" />;
+    case "conflict":
+      return <AlertTriangle className="h-3 w-3 text-yellow-500" aria-label="Changed on the server" />;
+    default:
+      return null;
+  }
+};
+
+// Gutter marker for each function, showing the most complex one where several start on a line
+const toComplexityDecorations = (functions: FunctionComplexity[]): monaco.editor.IModelDeltaDecoration[] => {
+  const worstByLine: { [line: number]: FunctionComplexity } = {};
+  functions.forEach((fn) => {
+    if (fn.name === TOP_LEVEL_NAME) return;
+    const current = worstByLine[fn.startLine];
+    if (!current || fn.score > current.score) worstByLine[fn.startLine] = fn;
+  });
+
+  return Object.values(worstByLine).map((fn) => ({
+    range: new monaco.Range(fn.startLine, 1, fn.startLine, 1),
+    options: {
+      glyphMarginClassName: `complexity-glyph complexity-glyph-${fn.score}`,
+      glyphMarginHoverMessage: {
+        value: `**${fn.name}**: complexity ${fn.score}/5\n\n` +
+          `Cyclomatic ${fn.cyclomatic} · nesting ${fn.maxNesting} · ${fn.length} lines`,
+      },
+    },
+  }));
+};
 
 export default function Editor() {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const openFiles = useSelector(selectOpenFiles);
   const editorContainerRef = useRef<HTMLDivElement>(null);
   const editorInstances = useRef<{[key: string]: monaco.editor.IStandaloneCodeEditor}>({});
+  const complexityDecorations = useRef(new WeakMap<monaco.editor.IStandaloneCodeEditor, monaco.editor.IEditorDecorationsCollection>());
+  // Open file whose unsaved edits would be lost by closing it
+  const [discardTargetId, setDiscardTargetId] = useState<string>();
   
   const { setupEditor } = useEditorSetup();
+  
+  useAutosave();
 
   // Find the active file
   const activeFile = openFiles.find(file => file.active);
   const activeFileId = activeFile?.id || '';
+  const discardTarget = openFiles.find(file => file.id === discardTargetId);
+  
+  const { report: complexityReport } = useComplexityAnalysis(
+    activeFile?.content ?? '',
+    activeFile ? activeFile.language || getLanguageForFile(activeFile.name) : 'plaintext',
+    activeFile?.name
+  );
 
   useEffect(() => {
     if (!editorContainerRef.current) return;
     
     // Cleanup function to dispose editors
     return () => {
-      Object.values(editorInstances.current).forEach(editor => {
+      Object.entries(editorInstances.current).forEach(([fileId, editor]) => {
+        unregisterEditor(fileId);
         editor.dispose();
       });
       editorInstances.current = {};
@@ -52,17 +124,69 @@ export default function Editor() {
           dispatch(updateFileContent({ id: file.id, content: value }));
         });
         
+        // Ctrl/Cmd+S saves right away instead of waiting for autosave
+        editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
+          dispatch(saveFile(file.id));
+        });
+        
         editorInstances.current[file.id] = editor;
+        registerEditor(file.id, editor);
       }
     });
     
   }, [openFiles, activeFile, setupEditor, dispatch]);
 
-  const handleCloseFile = (e: React.MouseEvent, fileId: string) => {
+  useEffect(() => {
+    // Dispose editors of files closed from outside the tab strip, e.g. deleted in the explorer
+    Object.keys(editorInstances.current).forEach((fileId) => {
+      if (!openFiles.some((file) => file.id === fileId)) {
+        unregisterEditor(fileId);
+        editorInstances.current[fileId].dispose();
+        delete editorInstances.current[fileId];
+      }
+    });
+    
+    // Pick up content replaced from outside the editor, e.g. a resolved conflict
+    openFiles.forEach((file) => {
+      const editor = editorInstances.current[file.id];
+      if (editor && editor.getValue() !== file.content) {
+        editor.setValue(file.content);
+      }
+    });
+  }, [openFiles]);
+
+  useEffect(() => {
+    const editor = editorInstances.current[activeFileId];
+    if (!editor) return;
+    
+    let decorations = complexityDecorations.current.get(editor);
+    if (!decorations) {
+      decorations = editor.createDecorationsCollection();
+      complexityDecorations.current.set(editor, decorations);
+    }
+    decorations.set(complexityReport ? toComplexityDecorations(complexityReport.functions) : []);
+  }, [complexityReport, activeFileId]);
+
+  const handleCloseFile = async (e: React.MouseEvent, fileId: string) => {
     e.stopPropagation();
     
+    // Flush unsaved edits before the file leaves the store
+    const flushed = await dispatch(flushFile(fileId));
+    
+    // Keep a file that could not be saved open, showing why, unless the user chooses to discard its edits
+    if (flushFile.rejected.match(flushed)) {
+      dispatch(setActiveFile(fileId));
+      setDiscardTargetId(fileId);
+      return;
+    }
+    
+    removeFile(fileId);
+  };
+
+  const removeFile = (fileId: string) => {
     // Dispose editor instance
     if (editorInstances.current[fileId]) {
+      unregisterEditor(fileId);
       editorInstances.current[fileId].dispose();
       delete editorInstances.current[fileId];
     }
@@ -70,6 +194,13 @@ export default function Editor() {
     dispatch(closeFile(fileId));
   };
 
+  const handleConfirmDiscard = () => {
+    if (discardTarget) {
+      removeFile(discardTarget.id);
+    }
+    setDiscardTargetId(undefined);
+  };
+
   const handleTabChange = (value: string) => {
     dispatch(setActiveFile(value));
   };
@@ -90,6 +221,7 @@ export default function Editor() {
                 className="px-3 py-1 h-full data-[state=active]:bg-background flex items-center gap-1 border-r border-border"
               >
                 <span className="text-sm truncate max-w-[120px]">{file.name}</span>
+                <SaveStatusIndicator file={file} />
                 <button
                   onClick={(e) => handleCloseFile(e, file.id)}
                   className="ml-1 rounded-full hover:bg-muted p-0.5"
@@ -98,8 +230,46 @@ export default function Editor() {
                 </button>
               </TabsTrigger>
             ))}
+            {complexityReport && (
+              <ComplexityIndicator
+                value={complexityReport.score}
+                size="sm"
+                className="ml-auto px-3 w-40 shrink-0"
+                details={{
+                  cyclomatic: complexityReport.summary.maxCyclomatic,
+                  maxNesting: complexityReport.summary.maxNesting,
+                  length: complexityReport.summary.longestFunction,
+                }}
+              />
+            )}
           </TabsList>
           
+          {activeFile?.saveStatus === "conflict" && (
+            <div className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm bg-yellow-500/10 border-b border-yellow-500/30">
+              <span className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                {activeFile.name} was changed on the server since you opened it.
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7"
+                  onClick={() => dispatch(resolveConflict({ id: activeFile.id, resolution: "server" }))}
+                >
+                  Use server version
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7"
+                  onClick={() => dispatch(resolveConflict({ id: activeFile.id, resolution: "local" }))}
+                >
+                  Keep my changes
+                </Button>
+              </div>
+            </div>
+          )}
+          
           <div className="flex-1 relative" ref={editorContainerRef}>
             {openFiles.map((file) => (
               <TabsContent
@@ -122,6 +292,24 @@ export default function Editor() {
           </div>
         </div>
       )}
+      
+      <AlertDialog open={!!discardTarget} onOpenChange={(open) => !open && setDiscardTargetId(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved changes to "{discardTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {discardTarget?.saveStatus === "conflict"
+                ? "The file was changed on the server since you opened it, so your edits were not saved."
+                : "Your edits could not be saved to the server."}
+              {" "}Closing the file now loses them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep open</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDiscard}>Discard and close</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
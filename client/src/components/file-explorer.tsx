@@ -1,27 +1,62 @@
-import { useState } from "react";
-import { 
-  Folder, 
-  File, 
-  ChevronDown, 
-  ChevronRight, 
-  Plus,
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Folder,
+  File,
+  ChevronDown,
+  ChevronRight,
+  FilePlus,
+  FolderPlus,
   FileText,
   FileCode,
   FileJson,
-  FileImage
+  FileImage,
+  Pencil,
+  Trash2,
+  Download,
+  Upload
 } from "lucide-react";
 import { useDispatch, useSelector } from "react-redux";
-import { openFile, selectFiles, selectOpenFiles } from "@/store/editor-slice";
-
-interface FileItem {
-  id: string;
-  name: string;
-  type: 'file' | 'folder';
-  language?: string;
-  content?: string;
-  children?: FileItem[];
+import type { AppDispatch } from "@/store";
+import {
+  openFile,
+  selectFiles,
+  selectOpenFiles,
+  createItem,
+  renameItem,
+  moveItems,
+  deleteItems,
+  loadWorkspace,
+  selectProjectId,
+  type FileItem
+} from "@/store/editor-slice";
+import { getProjectExportUrl, importProject } from "@/lib/project-service";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+
+// Inline creation of a new item inside a folder
+interface PendingCreate {
+  parentPath: string;
+  type: "file" | "folder";
 }
 
+const DRAG_MIME_TYPE = "application/x-cloudide-files";
+
 const FileIcon = ({ fileType, className = "h-4 w-4" }: { fileType: string; className?: string }) => {
   switch (fileType) {
     case 'js':
@@ -46,52 +81,208 @@ const FileIcon = ({ fileType, className = "h-4 w-4" }: { fileType: string; class
   }
 };
 
-const FileTreeItem = ({ item, level = 0 }: { item: FileItem; level?: number }) => {
-  const [isOpen, setIsOpen] = useState(true);
+// Text input used for naming new items and renaming existing ones
+const NameInput = ({
+  initialValue = "",
+  level,
+  onSubmit,
+  onCancel
+}: {
+  initialValue?: string;
+  level: number;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const doneRef = useRef(false);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    input.focus();
+    // Select the name without its extension, like most editors do
+    const dotIndex = initialValue.lastIndexOf('.');
+    input.setSelectionRange(0, dotIndex > 0 ? dotIndex : initialValue.length);
+  }, [initialValue]);
+
+  const finish = (submit: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+
+    const value = inputRef.current?.value.trim() || "";
+    if (submit && value && value !== initialValue) {
+      onSubmit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="py-0.5 pr-2" style={{ paddingLeft: `${level * 12 + 12}px` }}>
+      <input
+        ref={inputRef}
+        defaultValue={initialValue}
+        className="w-full text-sm bg-background border border-primary rounded px-1 outline-none"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') finish(true);
+          if (e.key === 'Escape') finish(false);
+        }}
+        onBlur={() => finish(true)}
+        onClick={(e) => e.stopPropagation()}
+      />
+    </div>
+  );
+};
+
+// Parent folder path of a tree item ("" for the project root)
+const parentPathOf = (item: FileItem) => {
+  const path = item.path || "";
+  return path.slice(0, path.lastIndexOf('/'));
+};
+
+// Flatten the visible part of the tree, in display order
+const flattenVisible = (items: FileItem[], collapsed: Set<string>): FileItem[] =>
+  items.flatMap(item => [
+    item,
+    ...(item.type === 'folder' && item.children && !collapsed.has(item.id)
+      ? flattenVisible(item.children, collapsed)
+      : [])
+  ]);
+
+interface FileTreeItemProps {
+  item: FileItem;
+  level?: number;
+  collapsed: Set<string>;
+  selectedIds: Set<string>;
+  renamingId: string | null;
+  pendingCreate: PendingCreate | null;
+  dropTargetPath: string | null;
+  onToggle: (item: FileItem) => void;
+  onSelect: (item: FileItem, e: React.MouseEvent) => void;
+  onContextMenu: (item: FileItem) => void;
+  onStartCreate: (parentPath: string, type: "file" | "folder") => void;
+  onCreate: (name: string) => void;
+  onCancelCreate: () => void;
+  onStartRename: (item: FileItem) => void;
+  onRename: (item: FileItem, name: string) => void;
+  onCancelRename: () => void;
+  onRequestDelete: (item: FileItem) => void;
+  onDragStart: (item: FileItem, e: React.DragEvent) => void;
+  onDragOverFolder: (path: string | null) => void;
+  onDrop: (targetPath: string, e: React.DragEvent) => void;
+}
+
+const FileTreeItem = (props: FileTreeItemProps) => {
+  const {
+    item,
+    level = 0,
+    collapsed,
+    selectedIds,
+    renamingId,
+    pendingCreate,
+    dropTargetPath,
+    onToggle,
+    onSelect,
+    onContextMenu,
+    onStartCreate,
+    onCreate,
+    onCancelCreate,
+    onStartRename,
+    onRename,
+    onCancelRename,
+    onRequestDelete,
+    onDragStart,
+    onDragOverFolder,
+    onDrop
+  } = props;
   const openFiles = useSelector(selectOpenFiles);
-  const dispatch = useDispatch();
-  
+
+  const isFolder = item.type === 'folder';
+  const isOpen = isFolder && !collapsed.has(item.id);
   const isActive = openFiles.some(f => f.id === item.id && f.active);
+  const isSelected = selectedIds.has(item.id);
   const fileExtension = item.name.split('.').pop() || '';
+  // Dropping on a file moves into the folder that contains it
+  const dropPath = isFolder ? item.path || "" : parentPathOf(item);
 
   const handleToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsOpen(!isOpen);
+    onToggle(item);
   };
 
-  const handleFileClick = () => {
-    if (item.type === 'file') {
-      dispatch(openFile(item));
-    }
-  };
+  if (renamingId === item.id) {
+    return (
+      <NameInput
+        initialValue={item.name}
+        level={level}
+        onSubmit={(name) => onRename(item, name)}
+        onCancel={onCancelRename}
+      />
+    );
+  }
 
   return (
     <div>
-      <div 
-        className={`flex items-center py-1 px-3 cursor-pointer hover:bg-muted ${isActive ? 'bg-primary/10 dark:bg-primary/20' : ''}`}
-        style={{ paddingLeft: `${level * 12 + 12}px` }}
-        onClick={item.type === 'folder' ? handleToggle : handleFileClick}
-      >
-        {item.type === 'folder' ? (
-          <>
-            <button className="p-0.5 mr-1" onClick={handleToggle}>
-              {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
-            </button>
-            <Folder className="h-4 w-4 mr-1.5 text-yellow-500" />
-          </>
-        ) : (
-          <>
-            <div className="w-4 mr-1"></div>
-            <FileIcon fileType={fileExtension} className="h-4 w-4 mr-1.5" />
-          </>
-        )}
-        <span className="text-sm truncate">{item.name}</span>
-      </div>
-      
-      {item.type === 'folder' && isOpen && item.children && (
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            className={`flex items-center py-1 px-3 cursor-pointer hover:bg-muted ${isActive ? 'bg-primary/10 dark:bg-primary/20' : ''} ${isSelected ? 'bg-muted' : ''} ${isFolder && dropTargetPath === item.path ? 'ring-1 ring-inset ring-primary' : ''}`}
+            style={{ paddingLeft: `${level * 12 + 12}px` }}
+            draggable
+            onClick={(e) => onSelect(item, e)}
+            onContextMenu={() => onContextMenu(item)}
+            onDragStart={(e) => onDragStart(item, e)}
+            onDragEnd={() => onDragOverFolder(null)}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(DRAG_MIME_TYPE)) return;
+              e.preventDefault();
+              e.stopPropagation();
+              onDragOverFolder(dropPath);
+            }}
+            onDrop={(e) => onDrop(dropPath, e)}
+          >
+            {isFolder ? (
+              <>
+                <button className="p-0.5 mr-1" onClick={handleToggle}>
+                  {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                </button>
+                <Folder className="h-4 w-4 mr-1.5 text-yellow-500" />
+              </>
+            ) : (
+              <>
+                <div className="w-4 mr-1"></div>
+                <FileIcon fileType={fileExtension} className="h-4 w-4 mr-1.5" />
+              </>
+            )}
+            <span className="text-sm truncate">{item.name}</span>
+          </div>
+        </ContextMenuTrigger>
+
+        <ContextMenuContent className="w-48">
+          <ContextMenuItem onSelect={() => onStartCreate(dropPath, 'file')}>
+            <FilePlus className="h-4 w-4 mr-2" /> New File
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onStartCreate(dropPath, 'folder')}>
+            <FolderPlus className="h-4 w-4 mr-2" /> New Folder
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => onStartRename(item)}>
+            <Pencil className="h-4 w-4 mr-2" /> Rename
+          </ContextMenuItem>
+          <ContextMenuItem className="text-red-500" onSelect={() => onRequestDelete(item)}>
+            <Trash2 className="h-4 w-4 mr-2" /> Delete
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+
+      {isFolder && isOpen && (
         <div>
-          {item.children.map((child) => (
-            <FileTreeItem key={child.id} item={child} level={level + 1} />
+          {pendingCreate && pendingCreate.parentPath === item.path && (
+            <NameInput level={level + 1} onSubmit={onCreate} onCancel={onCancelCreate} />
+          )}
+          {item.children?.map((child) => (
+            <FileTreeItem key={child.id} {...props} item={child} level={level + 1} />
           ))}
         </div>
       )}
@@ -100,22 +291,322 @@ const FileTreeItem = ({ item, level = 0 }: { item: FileItem; level?: number }) =
 };
 
 export default function FileExplorer() {
+  const dispatch = useDispatch<AppDispatch>();
   const files = useSelector(selectFiles);
-  
+  const projectId = useSelector(selectProjectId);
+  const { toast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [pendingCreate, setPendingCreate] = useState<PendingCreate | null>(null);
+  const [deleteTargets, setDeleteTargets] = useState<FileItem[]>([]);
+  const [dropTargetPath, setDropTargetPath] = useState<string | null>(null);
+
+  const visibleItems = useMemo(() => flattenVisible(files, collapsed), [files, collapsed]);
+
+  // Forget selections of items that no longer exist
+  useEffect(() => {
+    const ids = new Set(flattenVisible(files, new Set()).map(item => item.id));
+    setSelectedIds(prev => {
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [files]);
+
+  // Run a structure change and surface failures as a toast
+  const runAction = async <T,>(action: Promise<T>, failureTitle: string): Promise<T | undefined> => {
+    try {
+      return await action;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return undefined;
+    }
+  };
+
+  const handleToggle = (item: FileItem) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+      return next;
+    });
+  };
+
+  const handleSelect = (item: FileItem, e: React.MouseEvent) => {
+    if (e.shiftKey && anchorId) {
+      // Select the visible range between the anchor and this item
+      const anchorIndex = visibleItems.findIndex(i => i.id === anchorId);
+      const itemIndex = visibleItems.findIndex(i => i.id === item.id);
+      if (anchorIndex !== -1 && itemIndex !== -1) {
+        const [start, end] = anchorIndex < itemIndex ? [anchorIndex, itemIndex] : [itemIndex, anchorIndex];
+        setSelectedIds(new Set(visibleItems.slice(start, end + 1).map(i => i.id)));
+        return;
+      }
+    }
+
+    if (e.metaKey || e.ctrlKey) {
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(item.id)) {
+          next.delete(item.id);
+        } else {
+          next.add(item.id);
+        }
+        return next;
+      });
+      setAnchorId(item.id);
+      return;
+    }
+
+    setSelectedIds(new Set([item.id]));
+    setAnchorId(item.id);
+
+    if (item.type === 'folder') {
+      handleToggle(item);
+    } else {
+      dispatch(openFile(item));
+    }
+  };
+
+  const handleContextMenu = (item: FileItem) => {
+    // Right-clicking outside the selection acts on that item alone
+    if (!selectedIds.has(item.id)) {
+      setSelectedIds(new Set([item.id]));
+      setAnchorId(item.id);
+    }
+  };
+
+  const handleStartCreate = (parentPath: string, type: "file" | "folder") => {
+    setRenamingId(null);
+    setPendingCreate({ parentPath, type });
+
+    // Make sure the new item's input is visible
+    const parent = flattenVisible(files, new Set()).find(i => i.type === 'folder' && i.path === parentPath);
+    if (parent) {
+      setCollapsed(prev => {
+        const next = new Set(prev);
+        next.delete(parent.id);
+        return next;
+      });
+    }
+  };
+
+  const handleHeaderCreate = (type: "file" | "folder") => {
+    // Create next to the current selection, or at the project root
+    const selected = visibleItems.find(item => item.id === anchorId && selectedIds.has(item.id));
+    const parentPath = !selected ? "" : selected.type === 'folder' ? selected.path || "" : parentPathOf(selected);
+    handleStartCreate(parentPath, type);
+  };
+
+  const handleCreate = async (name: string) => {
+    if (!pendingCreate) return;
+    const { parentPath, type } = pendingCreate;
+    setPendingCreate(null);
+
+    const result = await runAction(
+      dispatch(createItem({ parentPath, name, type })).unwrap(),
+      `Could not create ${type}`
+    );
+    if (!result) return;
+
+    setSelectedIds(new Set([result.createdId]));
+    setAnchorId(result.createdId);
+
+    if (type === 'file') {
+      const created = flattenVisible(result.files, new Set()).find(item => item.id === result.createdId);
+      if (created) {
+        dispatch(openFile(created));
+      }
+    }
+  };
+
+  const handleRename = async (item: FileItem, name: string) => {
+    setRenamingId(null);
+    await runAction(dispatch(renameItem({ id: item.id, name })).unwrap(), "Could not rename");
+  };
+
+  const handleRequestDelete = (item: FileItem) => {
+    const targets = selectedIds.has(item.id)
+      ? visibleItems.filter(i => selectedIds.has(i.id))
+      : [item];
+    setDeleteTargets(targets);
+  };
+
+  const handleConfirmDelete = async () => {
+    const ids = deleteTargets.map(item => item.id);
+    setDeleteTargets([]);
+    await runAction(dispatch(deleteItems(ids)).unwrap(), "Could not delete");
+  };
+
+  const handleDragStart = (item: FileItem, e: React.DragEvent) => {
+    // Dragging part of a multi-selection drags the whole selection
+    const ids = selectedIds.has(item.id) ? Array.from(selectedIds) : [item.id];
+    if (!selectedIds.has(item.id)) {
+      setSelectedIds(new Set([item.id]));
+      setAnchorId(item.id);
+    }
+
+    e.dataTransfer.setData(DRAG_MIME_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDrop = async (targetPath: string, e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetPath(null);
+
+    const data = e.dataTransfer.getData(DRAG_MIME_TYPE);
+    if (!data) return;
+
+    await runAction(dispatch(moveItems({ ids: JSON.parse(data), targetPath })).unwrap(), "Could not move");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (renamingId || pendingCreate || selectedIds.size === 0) return;
+
+    if (e.key === 'Delete' || (e.key === 'Backspace' && e.metaKey)) {
+      e.preventDefault();
+      setDeleteTargets(visibleItems.filter(i => selectedIds.has(i.id)));
+    } else if (e.key === 'F2' && anchorId) {
+      e.preventDefault();
+      setRenamingId(anchorId);
+    }
+  };
+
+  // Import a zip archive as a new project and switch to it
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';
+    if (!archive) return;
+
+    const result = await runAction(importProject(archive, archive.name.replace(/\.zip$/i, '')), "Could not import project");
+    if (!result) return;
+
+    await runAction(dispatch(loadWorkspace(result.project.id)).unwrap(), "Could not open imported project");
+    toast({
+      title: "Project imported",
+      description: `${result.fileCount} files imported` +
+        (result.skipped.length > 0 ? `, ${result.skipped.length} binary or invalid entries skipped` : ''),
+    });
+  };
+
   return (
     <div className="h-full flex flex-col">
       <div className="px-3 py-2 font-medium text-sm flex justify-between items-center border-b border-border">
         <span>EXPLORER</span>
-        <button className="p-1 rounded hover:bg-muted">
-          <Plus className="h-4 w-4" />
-        </button>
-      </div>
-      
-      <div className="overflow-auto flex-1">
-        {files.map((item) => (
-          <FileTreeItem key={item.id} item={item} />
-        ))}
+        <div className="flex items-center">
+          <button className="p-1 rounded hover:bg-muted" title="New File" onClick={() => handleHeaderCreate('file')}>
+            <FilePlus className="h-4 w-4" />
+          </button>
+          <button className="p-1 rounded hover:bg-muted" title="New Folder" onClick={() => handleHeaderCreate('folder')}>
+            <FolderPlus className="h-4 w-4" />
+          </button>
+          <button className="p-1 rounded hover:bg-muted" title="Import Project from Zip" onClick={() => importInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+          </button>
+          {projectId !== null && (
+            <a className="p-1 rounded hover:bg-muted" title="Download Project as Zip" href={getProjectExportUrl(projectId)} download>
+              <Download className="h-4 w-4" />
+            </a>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
       </div>
+
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            className={`overflow-auto flex-1 outline-none ${dropTargetPath === "" ? 'ring-1 ring-inset ring-primary' : ''}`}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(DRAG_MIME_TYPE)) return;
+              e.preventDefault();
+              setDropTargetPath("");
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setDropTargetPath(null);
+              }
+            }}
+            onDrop={(e) => handleDrop("", e)}
+          >
+            {pendingCreate && pendingCreate.parentPath === "" && (
+              <NameInput level={0} onSubmit={handleCreate} onCancel={() => setPendingCreate(null)} />
+            )}
+            {files.map((item) => (
+              <FileTreeItem
+                key={item.id}
+                item={item}
+                collapsed={collapsed}
+                selectedIds={selectedIds}
+                renamingId={renamingId}
+                pendingCreate={pendingCreate}
+                dropTargetPath={dropTargetPath}
+                onToggle={handleToggle}
+                onSelect={handleSelect}
+                onContextMenu={handleContextMenu}
+                onStartCreate={handleStartCreate}
+                onCreate={handleCreate}
+                onCancelCreate={() => setPendingCreate(null)}
+                onStartRename={(target) => setRenamingId(target.id)}
+                onRename={handleRename}
+                onCancelRename={() => setRenamingId(null)}
+                onRequestDelete={handleRequestDelete}
+                onDragStart={handleDragStart}
+                onDragOverFolder={setDropTargetPath}
+                onDrop={handleDrop}
+              />
+            ))}
+          </div>
+        </ContextMenuTrigger>
+
+        <ContextMenuContent className="w-48">
+          <ContextMenuItem onSelect={() => handleStartCreate("", 'file')}>
+            <FilePlus className="h-4 w-4 mr-2" /> New File
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => handleStartCreate("", 'folder')}>
+            <FolderPlus className="h-4 w-4 mr-2" /> New Folder
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+
+      <AlertDialog open={deleteTargets.length > 0} onOpenChange={(open) => !open && setDeleteTargets([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTargets.length === 1
+                ? `Delete "${deleteTargets[0].name}"?`
+                : `Delete ${deleteTargets.length} items?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTargets.some(item => item.type === 'folder')
+                ? "Folders are deleted together with everything inside them. This cannot be undone."
+                : "This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -12,18 +12,37 @@ import {
   Play, 
   Cloud,
   HelpCircle,
-  Sparkles
+  Sparkles,
+  BarChart3,
+  LogOut
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useDispatch } from "react-redux";
 import { deployToAzure } from "@/lib/azure-service";
 import { toast } from "@/hooks/use-toast";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
+import { useSession } from "@/hooks/use-session";
+import { signOut } from "@/lib/session-service";
 
 export default function Header() {
   const { theme, setTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
   const dispatch = useDispatch();
+  const { user } = useSession();
+  const [, setLocation] = useLocation();
+  
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      setLocation("/login");
+    } catch (error) {
+      toast({
+        title: "Sign out failed",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
   
   useEffect(() => {
     setMounted(true);
@@ -102,6 +121,12 @@ export default function Header() {
               AI Assistant
             </Button>
           </Link>
+          <Link href="/ai-usage">
+            <Button variant="ghost" size="sm" className="px-3 py-1 text-sm rounded hover:bg-muted">
+              <BarChart3 className="h-4 w-4 mr-1" />
+              Usage
+            </Button>
+          </Link>
         </div>
       </div>
       
@@ -127,10 +152,20 @@ export default function Header() {
           )}
         </Button>
         
-        <Avatar className="h-8 w-8">
-          <AvatarImage src="https://github.com/shadcn.png" alt="User" />
-          <AvatarFallback>AI</AvatarFallback>
+        <Avatar className="h-8 w-8" title={user?.username}>
+          <AvatarImage src="https://github.com/shadcn.png" alt={user?.username ?? "User"} />
+          <AvatarFallback>{user?.username.slice(0, 2).toUpperCase() ?? "AI"}</AvatarFallback>
         </Avatar>
+        
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleSignOut}
+          className="p-1 rounded-full hover:bg-muted"
+          title="Sign out"
+        >
+          <LogOut className="h-5 w-5" />
+        </Button>
       </div>
     </header>
   );
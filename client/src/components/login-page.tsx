@@ -1,22 +1,58 @@
-import React from 'react';
-import { AuthService } from '../lib/auth-service';
+import React, { useState } from 'react';
+import { Redirect, useLocation } from 'wouter';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
-import { SquareAsterisk } from 'lucide-react';
+import { Loader2 } from 'lucide-react';
+import { useSession } from '@/hooks/use-session';
+import { register, sessionErrorMessage, signIn } from '@/lib/session-service';
 
 /**
- * Login page component with Azure Authentication
+ * Login page component
+ * Signs in to, or creates, an account on this server; the session it
+ * starts is what the editor's API routes check.
  */
 export default function LoginPage() {
-  const handleLogin = async () => {
+  const { user, isLoading } = useSession();
+  const [, setLocation] = useLocation();
+  const [mode, setMode] = useState<'sign-in' | 'register'>('sign-in');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isLoading && user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
     try {
-      await AuthService.handleRedirectResponse();
-      AuthService.login();
-    } catch (error) {
-      console.error('Login error:', error);
+      if (mode === 'sign-in') {
+        await signIn(username, password);
+      } else {
+        await register({ username, password, confirmPassword, email: email || undefined });
+      }
+      setLocation('/');
+    } catch (err) {
+      console.error('Login error:', err);
+      setError(sessionErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
+  const switchMode = () => {
+    setMode(mode === 'sign-in' ? 'register' : 'sign-in');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-900 dark:to-gray-800">
       <Card className="w-full max-w-md shadow-xl">
@@ -31,27 +67,75 @@ export default function LoginPage() {
             The intelligent cloud development environment with Azure integration
           </CardDescription>
         </CardHeader>
-        
-        <CardContent className="space-y-4">
-          <div className="text-center mb-6">
-            <p className="text-sm text-gray-500 dark:text-gray-400">
-              Sign in to access your projects, deploy to Azure, and use AI coding tools.
-            </p>
-          </div>
-          
-          <Button 
-            onClick={handleLogin} 
-            className="w-full flex items-center justify-center gap-2"
-          >
-            <SquareAsterisk className="h-5 w-5" />
-            Sign in with Microsoft
+
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
+
+            {mode === 'register' && (
+              <div className="space-y-2">
+                <Label htmlFor="email">Email (optional)</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {mode === 'register' && (
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {mode === 'sign-in' ? 'Sign in' : 'Create account'}
+            </Button>
+          </CardContent>
+        </form>
+
+        <CardFooter className="justify-center text-sm text-gray-500">
+          {mode === 'sign-in' ? 'New here?' : 'Already have an account?'}
+          <Button variant="link" className="px-1" onClick={switchMode}>
+            {mode === 'sign-in' ? 'Create an account' : 'Sign in'}
           </Button>
-        </CardContent>
-        
-        <CardFooter className="text-center text-xs text-gray-500">
-          <p>Secure login powered by Microsoft Entra ID</p>
         </CardFooter>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
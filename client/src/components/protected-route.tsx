@@ -1,7 +1,7 @@
 import React, { ReactNode } from 'react';
 import { Redirect } from 'wouter';
-import { AuthService } from '../lib/auth-service';
-import { useIsAuthenticated } from '@azure/msal-react';
+import { Loader2 } from 'lucide-react';
+import { useSession } from '@/hooks/use-session';
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -10,14 +10,23 @@ interface ProtectedRouteProps {
 /**
  * Protected Route Component
  * 
- * Redirects to login page if user is not authenticated
+ * Redirects to login page if there is no server session; the API routes
+ * behind these pages all need one
  */
 export default function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const isAuthenticated = useIsAuthenticated();
+  const { user, isLoading } = useSession();
 
-  if (!isAuthenticated) {
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
     return <Redirect to="/login" />;
   }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
@@ -101,7 +101,7 @@ EXPLANATION:
 <explanation of changes>`;
 
       // Call the API to refactor code
-      const result = await generateCode(prompt, language);
+      const result = await generateCode(prompt, language, '', 'refactoring');
       
       // Parse the result to extract code and explanation
       const parseResult = (text: string) => {
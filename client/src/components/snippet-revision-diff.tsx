@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import * as monaco from 'monaco-editor';
+import { useTheme } from 'next-themes';
+import { registerEditorThemes } from '@/lib/editor-utils';
+import type { CodeSnippetRevision } from '@/lib/snippet-service';
+
+registerEditorThemes();
+
+interface SnippetRevisionDiffProps {
+  original: CodeSnippetRevision;
+  modified: CodeSnippetRevision;
+}
+
+/**
+ * Read-only side-by-side diff of two snippet revisions
+ */
+export default function SnippetRevisionDiff({ original, modified }: SnippetRevisionDiffProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+  const { theme } = useTheme();
+
+  // Create the diff editor once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const diffEditor = monaco.editor.createDiffEditor(containerRef.current, {
+      readOnly: true,
+      originalEditable: false,
+      automaticLayout: true,
+      renderSideBySide: true,
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+      fontSize: 13,
+      fontFamily: "'Fira Code', monospace",
+    });
+    diffEditorRef.current = diffEditor;
+
+    return () => {
+      const model = diffEditor.getModel();
+      diffEditor.dispose();
+      model?.original.dispose();
+      model?.modified.dispose();
+      diffEditorRef.current = null;
+    };
+  }, []);
+
+  // Swap in new models whenever the compared revisions change
+  useEffect(() => {
+    const diffEditor = diffEditorRef.current;
+    if (!diffEditor) return;
+
+    const previous = diffEditor.getModel();
+    diffEditor.setModel({
+      original: monaco.editor.createModel(original.code, original.language),
+      modified: monaco.editor.createModel(modified.code, modified.language),
+    });
+    previous?.original.dispose();
+    previous?.modified.dispose();
+  }, [original, modified]);
+
+  useEffect(() => {
+    monaco.editor.setTheme(theme === 'light' ? 'azure-light' : 'azure-dark');
+  }, [theme]);
+
+  return <div ref={containerRef} className="h-[400px] w-full rounded-md border overflow-hidden" />;
+}
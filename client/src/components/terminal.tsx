@@ -3,18 +3,126 @@ import { Terminal as XTerm } from "xterm";
 import { FitAddon } from "xterm-addon-fit";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { createTerminalSocket, type TerminalSocket } from "@/lib/terminal-socket";
 import "xterm/css/xterm.css";
-import { Maximize2, Minimize2 } from "lucide-react";
+import { Maximize2, Minimize2, Plus, X } from "lucide-react";
 
 interface TerminalTab {
   id: string;
   name: string;
 }
 
-export default function Terminal() {
-  const terminalRef = useRef<HTMLDivElement>(null);
-  const xtermRef = useRef<XTerm | null>(null);
+const terminalTheme = {
+  background: '#121212',
+  foreground: '#f0f0f0',
+  cursor: '#f0f0f0',
+  black: '#121212',
+  brightBlack: '#666666',
+  red: '#ff5555',
+  brightRed: '#ff6e6e',
+  green: '#50fa7b',
+  brightGreen: '#69ff94',
+  yellow: '#f1fa8c',
+  brightYellow: '#ffffa5',
+  blue: '#0e9ce9',
+  brightBlue: '#38b7f8',
+  magenta: '#ff79c6',
+  brightMagenta: '#ff92df',
+  cyan: '#8be9fd',
+  brightCyan: '#a4ffff',
+  white: '#f8f8f2',
+  brightWhite: '#ffffff'
+};
+
+const createShellTab = (index: number): TerminalTab => ({
+  id: `shell-${Date.now()}-${index}`,
+  name: `bash ${index}`
+});
+
+interface TerminalSessionViewProps {
+  sessionId: string;
+  socket: TerminalSocket;
+  visible: boolean;
+  layoutKey: string;
+}
+
+// A single xterm.js instance attached to a server-side shell session
+function TerminalSessionView({ sessionId, socket, visible, layoutKey }: TerminalSessionViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    // Initialize xterm.js
+    const term = new XTerm({
+      cursorBlink: true,
+      fontFamily: "'Fira Code', monospace",
+      fontSize: 14,
+      theme: terminalTheme
+    });
+
+    // Create and attach fit addon
+    const fitAddon = new FitAddon();
+    term.loadAddon(fitAddon);
+
+    // Render terminal
+    term.open(containerRef.current);
+    fitAddon.fit();
+    fitAddonRef.current = fitAddon;
+
+    // Wire the terminal to its shell session
+    const unsubscribe = socket.subscribe(sessionId, (message) => {
+      if (message.type === "terminal-session-output") {
+        term.write(message.output);
+      } else if (message.type === "terminal-session-exit") {
+        term.writeln('');
+        if (message.reason) {
+          term.writeln(`\x1b[31m${message.reason}\x1b[0m`);
+        }
+        term.writeln(`\x1b[2m[Process exited with code ${message.exitCode}]\x1b[0m`);
+      }
+    });
+
+    const dataListener = term.onData(data => socket.sendInput(sessionId, data));
+    const resizeListener = term.onResize(({ cols, rows }) => socket.resize(sessionId, cols, rows));
+
+    socket.createSession(sessionId, term.cols, term.rows);
+
+    // Refit whenever the panel changes size
+    const resizeObserver = new ResizeObserver(() => {
+      if (containerRef.current?.offsetParent) {
+        fitAddon.fit();
+      }
+    });
+    resizeObserver.observe(containerRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      dataListener.dispose();
+      resizeListener.dispose();
+      unsubscribe();
+      socket.closeSession(sessionId);
+      term.dispose();
+      fitAddonRef.current = null;
+    };
+  }, [sessionId, socket]);
+
+  useEffect(() => {
+    // Fit terminal when it's shown or the layout changes
+    if (visible && fitAddonRef.current) {
+      setTimeout(() => {
+        fitAddonRef.current?.fit();
+      }, 10);
+    }
+  }, [visible, layoutKey]);
+
+  return <div ref={containerRef} className={`h-full w-full ${visible ? '' : 'hidden'}`} />;
+}
+
+export default function Terminal() {
+  const shellCounterRef = useRef(1);
+  const [socket, setSocket] = useState<TerminalSocket | null>(null);
   const [activeTab, setActiveTab] = useState<string>("terminal");
   const [tabs] = useState<TerminalTab[]>([
     { id: "terminal", name: "TERMINAL" },
@@ -22,111 +130,48 @@ export default function Terminal() {
     { id: "output", name: "OUTPUT" },
     { id: "debug", name: "DEBUG CONSOLE" }
   ]);
+  const [shellTabs, setShellTabs] = useState<TerminalTab[]>(() => [createShellTab(1)]);
+  const [activeShell, setActiveShell] = useState<string>(() => shellTabs[0].id);
   const [maximized, setMaximized] = useState(false);
-  
+
   useEffect(() => {
-    if (!terminalRef.current) return;
-    
-    if (!xtermRef.current) {
-      // Initialize xterm.js
-      const term = new XTerm({
-        cursorBlink: true,
-        fontFamily: "'Fira Code', monospace",
-        fontSize: 14,
-        theme: {
-          background: '#121212',
-          foreground: '#f0f0f0',
-          cursor: '#f0f0f0',
-          black: '#121212',
-          brightBlack: '#666666',
-          red: '#ff5555',
-          brightRed: '#ff6e6e',
-          green: '#50fa7b',
-          brightGreen: '#69ff94',
-          yellow: '#f1fa8c',
-          brightYellow: '#ffffa5',
-          blue: '#0e9ce9',
-          brightBlue: '#38b7f8',
-          magenta: '#ff79c6',
-          brightMagenta: '#ff92df',
-          cyan: '#8be9fd',
-          brightCyan: '#a4ffff',
-          white: '#f8f8f2',
-          brightWhite: '#ffffff'
-        }
-      });
-      
-      // Create and attach fit addon
-      const fitAddon = new FitAddon();
-      term.loadAddon(fitAddon);
-      
-      // Render terminal
-      term.open(terminalRef.current);
-      fitAddon.fit();
-      
-      // Store references
-      xtermRef.current = term;
-      fitAddonRef.current = fitAddon;
-      
-      // Welcome message
-      term.writeln('\x1b[1;34mWelcome to Azure CloudIDE Terminal\x1b[0m');
-      term.writeln('Type commands to interact with your development environment');
-      term.writeln('');
-      term.write('$ ');
-      
-      // Handle user input
-      term.onKey(({ key, domEvent }) => {
-        const isEnter = domEvent.key === 'Enter';
-        
-        if (isEnter) {
-          term.writeln('');
-          term.write('$ ');
-        } else {
-          term.write(key);
-        }
-      });
-      
-      // Handle window resize
-      const handleResize = () => {
-        if (fitAddonRef.current) {
-          fitAddonRef.current.fit();
-        }
-      };
-      
-      window.addEventListener('resize', handleResize);
-      
-      return () => {
-        window.removeEventListener('resize', handleResize);
-        term.dispose();
-      };
-    } else {
-      // Terminal already initialized, just fit it
-      if (fitAddonRef.current) {
-        setTimeout(() => {
-          fitAddonRef.current?.fit();
-        }, 10);
-      }
-    }
+    // One socket carries every shell tab; closing it ends all sessions
+    const terminalSocket = createTerminalSocket();
+    setSocket(terminalSocket);
+
+    return () => {
+      terminalSocket.dispose();
+    };
   }, []);
 
-  useEffect(() => {
-    // Fit terminal when it's shown
-    if (activeTab === "terminal" && fitAddonRef.current) {
-      setTimeout(() => {
-        fitAddonRef.current?.fit();
-      }, 10);
+  const addShellTab = () => {
+    shellCounterRef.current += 1;
+    const tab = createShellTab(shellCounterRef.current);
+    setShellTabs(prev => [...prev, tab]);
+    setActiveShell(tab.id);
+  };
+
+  const closeShellTab = (id: string) => {
+    const index = shellTabs.findIndex(tab => tab.id === id);
+    const remaining = shellTabs.filter(tab => tab.id !== id);
+
+    if (remaining.length === 0) {
+      // Always keep one shell around
+      shellCounterRef.current += 1;
+      const tab = createShellTab(shellCounterRef.current);
+      setShellTabs([tab]);
+      setActiveShell(tab.id);
+      return;
     }
-  }, [activeTab]);
-  
+
+    setShellTabs(remaining);
+    if (activeShell === id) {
+      setActiveShell(remaining[Math.max(0, index - 1)].id);
+    }
+  };
+
   const toggleMaximize = () => {
     setMaximized(prev => !prev);
-    
-    // Refit the terminal after resize
-    setTimeout(() => {
-      if (fitAddonRef.current) {
-        fitAddonRef.current.fit();
-      }
-    }, 100);
   };
 
   return (
@@ -145,34 +190,77 @@ export default function Terminal() {
             ))}
           </TabsList>
         </Tabs>
-        
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={toggleMaximize}
-        >
-          {maximized ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
-        </Button>
+
+        <div className="flex items-center">
+          {activeTab === "terminal" && (
+            <>
+              {shellTabs.map(tab => (
+                <div
+                  key={tab.id}
+                  className={`flex items-center px-2 py-0.5 text-xs cursor-pointer ${activeShell === tab.id ? 'text-foreground' : 'text-muted-foreground'}`}
+                  onClick={() => setActiveShell(tab.id)}
+                >
+                  <span>{tab.name}</span>
+                  <button
+                    className="ml-1 opacity-60 hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      closeShellTab(tab.id);
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={addShellTab}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={toggleMaximize}
+          >
+            {maximized ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+          </Button>
+        </div>
       </div>
-      
+
       <div className="flex-1 overflow-hidden">
-        {activeTab === "terminal" && (
-          <div ref={terminalRef} className="h-full w-full" />
-        )}
-        
+        {/* Shell sessions stay mounted while hidden so their scrollback survives */}
+        <div className={`h-full w-full ${activeTab === "terminal" ? '' : 'hidden'}`}>
+          {socket && shellTabs.map(tab => (
+            <TerminalSessionView
+              key={tab.id}
+              sessionId={tab.id}
+              socket={socket}
+              visible={activeTab === "terminal" && activeShell === tab.id}
+              layoutKey={maximized ? "maximized" : "docked"}
+            />
+          ))}
+        </div>
+
         {activeTab === "problems" && (
           <div className="p-3">
             <p className="text-sm text-muted-foreground">No problems have been detected in the workspace.</p>
           </div>
         )}
-        
+
         {activeTab === "output" && (
           <div className="p-3">
             <p className="text-sm text-muted-foreground">No output to display.</p>
           </div>
         )}
-        
+
         {activeTab === "debug" && (
           <div className="p-3">
             <p className="text-sm text-muted-foreground">No active debug session.</p>
@@ -90,7 +90,7 @@ export default function TestGenerator() {
       const prompt = `Generate ${framework} unit tests for the following ${language} code. Include all necessary imports, mocks, and test setup. Make sure the tests are comprehensive and cover edge cases:\n\n${code}`;
       
       // Call the API to generate tests
-      const result = await generateCode(prompt, language);
+      const result = await generateCode(prompt, language, '', 'tests');
       
       setGeneratedTests(result);
     } catch (err: any) {
@@ -0,0 +1,55 @@
+import { useEffect, useRef } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import type { AppDispatch } from "@/store";
+import { saveFile, selectOpenFiles, selectProjectStatus } from "@/store/editor-slice";
+
+// Save dirty open files once the user stops typing for `delay` milliseconds
+export const useAutosave = (delay: number = 1000) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const openFiles = useSelector(selectOpenFiles);
+  const projectStatus = useSelector(selectProjectStatus);
+  const timers = useRef<{ [fileId: string]: { content: string; timer: ReturnType<typeof setTimeout> } }>({});
+
+  useEffect(() => {
+    // A closed file was flushed on close and is no longer in the store to save
+    Object.keys(timers.current).forEach((fileId) => {
+      if (!openFiles.some((file) => file.id === fileId)) {
+        clearTimeout(timers.current[fileId].timer);
+        delete timers.current[fileId];
+      }
+    });
+
+    if (projectStatus !== "ready") return;
+
+    openFiles.forEach((file) => {
+      const pending = timers.current[file.id];
+
+      if (file.saveStatus !== "dirty" || !file.serverId) {
+        if (pending) {
+          clearTimeout(pending.timer);
+          delete timers.current[file.id];
+        }
+        return;
+      }
+
+      // Only restart the countdown when the content actually changed
+      if (pending && pending.content === file.content) return;
+      if (pending) clearTimeout(pending.timer);
+
+      timers.current[file.id] = {
+        content: file.content,
+        timer: setTimeout(() => {
+          delete timers.current[file.id];
+          dispatch(saveFile(file.id));
+        }, delay),
+      };
+    });
+  }, [openFiles, projectStatus, delay, dispatch]);
+
+  useEffect(() => {
+    const pendingTimers = timers.current;
+    return () => {
+      Object.values(pendingTimers).forEach(({ timer }) => clearTimeout(timer));
+    };
+  }, []);
+};
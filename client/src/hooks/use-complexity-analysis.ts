@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { analyzeComplexity, isComplexityLanguage, type ComplexityReport } from "@/lib/complexity-service";
+
+// Analyze code on the server once it has stopped changing for `delay` milliseconds.
+// The last report is kept while the code does not parse, so the results do not flicker as the user types.
+export const useComplexityAnalysis = (code: string, language: string, fileName?: string, delay: number = 800) => {
+  const [report, setReport] = useState<ComplexityReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  // A report never outlives the file or language it was made for
+  useEffect(() => {
+    setReport(null);
+  }, [language, fileName]);
+
+  useEffect(() => {
+    if (!code.trim() || !isComplexityLanguage(language)) {
+      setReport(null);
+      setIsAnalyzing(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsAnalyzing(true);
+      try {
+        const result = await analyzeComplexity(code, language, fileName);
+        if (!cancelled) setReport(result);
+      } catch {
+        // Keep the previous report
+      } finally {
+        if (!cancelled) setIsAnalyzing(false);
+      }
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, language, fileName, delay]);
+
+  return { report, isAnalyzing };
+};
@@ -1,11 +1,15 @@
 import { useCallback } from "react";
 import * as monaco from "monaco-editor";
 import { getLanguageForFile, getEditorDefaultOptions, registerEditorThemes } from "@/lib/editor-utils";
+import { registerAiInlineCompletions } from "@/lib/inline-completions";
 import { useTheme } from "next-themes";
 
 // Initialize the editor themes
 registerEditorThemes();
 
+// AI suggestions as ghost text, for every editor
+registerAiInlineCompletions();
+
 export interface FileData {
   id: string;
   name: string;
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { getSessionUser, SESSION_QUERY_KEY, type SessionUser } from "@/lib/session-service";
+
+// The user signed in to the server, null when there is no session
+export const useSession = (): { user: SessionUser | null; isLoading: boolean } => {
+  const { data, isLoading } = useQuery<SessionUser | null>({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: getSessionUser,
+  });
+
+  return { user: data ?? null, isLoading };
+};
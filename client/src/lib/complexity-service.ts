@@ -0,0 +1,11 @@
+import { apiRequest } from "./queryClient";
+import type { ComplexityReport, FunctionComplexity } from "@shared/complexity";
+
+export type { ComplexityReport, FunctionComplexity };
+export { isComplexityLanguage, TOP_LEVEL_NAME } from "@shared/complexity";
+
+// Measure cyclomatic complexity, nesting and length for every function in the code
+export const analyzeComplexity = async (code: string, language: string, fileName?: string): Promise<ComplexityReport> => {
+  const response = await apiRequest('POST', '/api/complexity', { code, language, fileName });
+  return response.json();
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, computeHunks } from './diff-hunks';
+
+const all = () => true;
+const none = () => false;
+
+describe('computeHunks', () => {
+  it('finds nothing between identical versions', () => {
+    expect(computeHunks('a\nb\nc', 'a\nb\nc')).toEqual([]);
+  });
+
+  it('reports a single replaced line', () => {
+    expect(computeHunks('a\nb\nc', 'a\nB\nc')).toEqual([
+      { originalStart: 1, modifiedStart: 1, originalLength: 1, lines: ['B'] },
+    ]);
+  });
+
+  it('reports pure insertions and deletions', () => {
+    expect(computeHunks('a\nc', 'a\nb\nc')).toEqual([
+      { originalStart: 1, modifiedStart: 1, originalLength: 0, lines: ['b'] },
+    ]);
+    expect(computeHunks('a\nb\nc', 'a\nc')).toEqual([
+      { originalStart: 1, modifiedStart: 1, originalLength: 1, lines: [] },
+    ]);
+  });
+
+  it('keeps separate changes in separate hunks around common lines', () => {
+    const hunks = computeHunks('1\n2\n3\n4\n5\n6', '1\nTWO\n3\n4\nFIVE\nextra\n6');
+    expect(hunks).toEqual([
+      { originalStart: 1, modifiedStart: 1, originalLength: 1, lines: ['TWO'] },
+      { originalStart: 4, modifiedStart: 4, originalLength: 1, lines: ['FIVE', 'extra'] },
+    ]);
+  });
+
+  it('aligns on the longest common subsequence rather than the first match', () => {
+    // Keeping "x" in place instead would turn a, b and c into removals and insertions
+    const original = 'x\na\nb\nc';
+    const modified = 'a\nb\nc\nx';
+    const hunks = computeHunks(original, modified);
+    expect(hunks).toEqual([
+      { originalStart: 0, modifiedStart: 0, originalLength: 1, lines: [] },
+      { originalStart: 4, modifiedStart: 3, originalLength: 0, lines: ['x'] },
+    ]);
+  });
+});
+
+describe('applyHunks', () => {
+  const original = 'fn a() {}\n\nfn b() {}\n\nfn c() {}\n';
+  const modified = 'fn a() { 1 }\n\nfn b() {}\n\nfn c() { 3 }\nfn d() {}\n';
+  const hunks = computeHunks(original, modified);
+
+  it('rebuilds the modified version from every hunk', () => {
+    expect(applyHunks(original, hunks, all)).toBe(modified);
+  });
+
+  it('leaves the original alone with no hunks', () => {
+    expect(applyHunks(original, hunks, none)).toBe(original);
+  });
+
+  it('applies only the chosen hunks', () => {
+    expect(hunks).toHaveLength(2);
+    expect(applyHunks(original, hunks, (i) => i === 0)).toBe('fn a() { 1 }\n\nfn b() {}\n\nfn c() {}\n');
+    expect(applyHunks(original, hunks, (i) => i === 1)).toBe('fn a() {}\n\nfn b() {}\n\nfn c() { 3 }\nfn d() {}\n');
+  });
+
+  it('round-trips versions of different lengths and edge lines', () => {
+    const pairs: [string, string][] = [
+      ['', 'new file\n'],
+      ['only line', ''],
+      ['a\nb\nc\nd\ne', 'z\nb\nd\ne\nf\ng'],
+      ['same\nstart\nold end', 'same\nstart\nnew end\nmore'],
+    ];
+    pairs.forEach(([before, after]) => {
+      expect(applyHunks(before, computeHunks(before, after), all)).toBe(after);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// Middle sections (after trimming shared lines at both ends) larger than this
+// many line pairs become a single hunk rather than being diffed line by line
+const MAX_DIFF_CELLS = 4_000_000;
+
+// A run of lines replaced between two versions of a file
+export interface DiffHunk {
+  // Where the run starts in each version, as 0-based line indexes
+  originalStart: number;
+  modifiedStart: number;
+  // Lines of the original the run removes
+  originalLength: number;
+  // Lines it puts in their place
+  lines: string[];
+}
+
+/**
+ * Line-by-line differences between two versions of a file, top to bottom
+ * Uses the longest common subsequence of the lines, so every hunk is a
+ * contiguous replacement that can be taken or left on its own.
+ */
+export const computeHunks = (original: string, modified: string): DiffHunk[] => {
+  const a = original.split("\n");
+  const b = modified.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if (n === 0 && m === 0) return [];
+  if (n === 0 || m === 0 || n * m > MAX_DIFF_CELLS) {
+    return [{ originalStart: prefix, modifiedStart: prefix, originalLength: n, lines: b.slice(prefix, prefix + m) }];
+  }
+
+  // lcs[i * (m + 1) + j]: common lines of a's middle from i and b's middle from j
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[prefix + i] === b[prefix + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { originalStart: prefix + i, modifiedStart: prefix + j, originalLength: 0, lines: [] };
+      hunks.push(current);
+    }
+    if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      current.lines.push(b[prefix + j]);
+      j++;
+    } else {
+      current.originalLength++;
+      i++;
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * The original with only some of its hunks applied
+ */
+export const applyHunks = (original: string, hunks: DiffHunk[], include: (index: number) => boolean): string => {
+  const lines = original.split("\n");
+  const result: string[] = [];
+  let next = 0;
+
+  hunks.forEach((hunk, index) => {
+    if (!include(index)) return;
+    result.push(...lines.slice(next, hunk.originalStart), ...hunk.lines);
+    next = hunk.originalStart + hunk.originalLength;
+  });
+  result.push(...lines.slice(next));
+
+  return result.join("\n");
+};
@@ -0,0 +1,36 @@
+import type * as monaco from "monaco-editor";
+
+// Monaco editors of the open files, by file id, so panels outside the editor can act on them
+const editors = new Map<string, monaco.editor.IStandaloneCodeEditor>();
+
+export const registerEditor = (fileId: string, editor: monaco.editor.IStandaloneCodeEditor) => {
+  editors.set(fileId, editor);
+};
+
+// Selected text of each file's editor as it was when the editor went away, e.g. on leaving the editor page
+const lastSelections = new Map<string, string>();
+
+const selectedText = (editor: monaco.editor.IStandaloneCodeEditor): string => {
+  const model = editor.getModel();
+  const selection = editor.getSelection();
+  return model && selection ? model.getValueInRange(selection) : "";
+};
+
+export const unregisterEditor = (fileId: string) => {
+  const editor = editors.get(fileId);
+  if (editor) {
+    lastSelections.set(fileId, selectedText(editor));
+  }
+  editors.delete(fileId);
+};
+
+export const getEditor = (fileId: string): monaco.editor.IStandaloneCodeEditor | undefined => editors.get(fileId);
+
+/**
+ * Text selected in a file's editor, or selected when its editor was last open
+ * Empty when nothing is selected.
+ */
+export const getEditorSelection = (fileId: string): string => {
+  const editor = editors.get(fileId);
+  return editor ? selectedText(editor) : lastSelections.get(fileId) ?? "";
+};
@@ -1,29 +1,7 @@
 import * as monaco from "monaco-editor";
 
-// Define supported languages and their file extensions
-export const SUPPORTED_LANGUAGES = {
-  javascript: [".js"],
-  typescript: [".ts", ".tsx"],
-  html: [".html", ".htm"],
-  css: [".css"],
-  json: [".json"],
-  python: [".py"],
-  markdown: [".md"],
-  plaintext: [".txt"],
-};
-
-// Get language from file extension
-export const getLanguageForFile = (fileName: string): string => {
-  const extension = fileName.substring(fileName.lastIndexOf("."));
-  
-  for (const [language, extensions] of Object.entries(SUPPORTED_LANGUAGES)) {
-    if (extensions.includes(extension)) {
-      return language;
-    }
-  }
-  
-  return "plaintext";
-};
+// Language helpers are shared with the server's file tree
+export { SUPPORTED_LANGUAGES, getLanguageForFile } from "@shared/file-tree";
 
 // Common editor options
 export const getEditorDefaultOptions = (): monaco.editor.IStandaloneEditorConstructionOptions => {
@@ -32,6 +10,10 @@ export const getEditorDefaultOptions = (): monaco.editor.IStandaloneEditorConstr
     scrollBeyondLastLine: false,
     automaticLayout: true,
     lineNumbers: "on",
+    // Room for the per-function complexity markers
+    glyphMargin: true,
+    // AI suggestions shown as ghost text, accepted with Tab
+    inlineSuggest: { enabled: true, mode: "subwordSmart" },
     tabSize: 2,
     fontSize: 14,
     fontFamily: "'Fira Code', monospace",
@@ -0,0 +1,153 @@
+import * as monaco from "monaco-editor";
+import { AiRequestError, getCompletionSuggestions } from "./openai-service";
+
+// Typing pause before suggestions are requested
+const DEBOUNCE_MS = 400;
+
+const MAX_CACHE_ENTRIES = 50;
+
+// Characters typed past a cached result for its suggestions still to be reused
+const MAX_TYPED_AHEAD = 200;
+
+// How long to stop asking once the daily AI quota is used up
+const QUOTA_BACKOFF_MS = 5 * 60 * 1000;
+
+// Text to insert by language and text before the cursor, least recently used first
+const cache = new Map<string, string[]>();
+
+let suspendedUntil = 0;
+
+const cacheKey = (language: string, prefix: string) => `${language}\n${prefix}`;
+
+const remember = (key: string, suggestions: string[]) => {
+  cache.delete(key);
+  cache.set(key, suggestions);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+};
+
+/**
+ * Cached suggestions for the text before the cursor
+ * Besides an exact match, a result cached a few characters earlier still
+ * applies when what has been typed since is the start of its suggestions, so
+ * typing along with ghost text never asks the model again.
+ */
+const lookUp = (key: string): string[] | undefined => {
+  const exact = cache.get(key);
+  if (exact) {
+    remember(key, exact);
+    return exact;
+  }
+
+  const earlier = Array.from(cache.keys()).reverse().find((cached) =>
+    key.startsWith(cached) && key.length - cached.length <= MAX_TYPED_AHEAD);
+  if (!earlier) return undefined;
+
+  const typed = key.slice(earlier.length);
+  const remaining = cache.get(earlier)!
+    .filter((suggestion) => suggestion.startsWith(typed) && suggestion.length > typed.length)
+    .map((suggestion) => suggestion.slice(typed.length));
+  return remaining.length > 0 ? remaining : undefined;
+};
+
+/**
+ * Turn a suggestion into text to insert at the cursor
+ * Code fences are removed, as is any repeat of the line already typed.
+ */
+export const toInsertText = (suggestion: string, linePrefix: string): string => {
+  const text = suggestion.replace(/^```[\w-]*\n?|\n?```\s*$/g, "");
+  const typed = linePrefix.trimStart();
+  if (typed && text.startsWith(typed)) return text.slice(typed.length);
+  return text;
+};
+
+/**
+ * Resolve after a delay, or with false as soon as the request is cancelled
+ */
+const waitForPause = (token: monaco.CancellationToken): Promise<boolean> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      listener.dispose();
+      resolve(!token.isCancellationRequested);
+    }, DEBOUNCE_MS);
+    const listener = token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      listener.dispose();
+      resolve(false);
+    });
+  });
+
+/**
+ * Ask the AI for suggestions at a position, cancelling the request along with the token
+ */
+const fetchSuggestions = async (
+  model: monaco.editor.ITextModel,
+  position: monaco.Position,
+  token: monaco.CancellationToken
+): Promise<string[] | undefined> => {
+  const controller = new AbortController();
+  const listener = token.onCancellationRequested(() => controller.abort());
+
+  try {
+    const suggestions = await getCompletionSuggestions(
+      model.getValue(),
+      { lineNumber: position.lineNumber, column: position.column },
+      model.getLanguageId(),
+      controller.signal
+    );
+    return suggestions.map((suggestion) => suggestion.text).filter((text) => typeof text === "string" && text.trim());
+  } catch (error) {
+    if (error instanceof AiRequestError && error.status === 429) {
+      suspendedUntil = Date.now() + QUOTA_BACKOFF_MS;
+    }
+    return undefined;
+  } finally {
+    listener.dispose();
+  }
+};
+
+const provider: monaco.languages.InlineCompletionsProvider = {
+  async provideInlineCompletions(model, position, _context, token) {
+    if (Date.now() < suspendedUntil) return undefined;
+
+    const line = model.getLineContent(position.lineNumber);
+    const linePrefix = line.slice(0, position.column - 1);
+    // Only complete at the end of a word, not inside one
+    if (/\w/.test(line.charAt(position.column - 1))) return undefined;
+
+    const prefix = model.getValueInRange(new monaco.Range(1, 1, position.lineNumber, position.column));
+    const key = cacheKey(model.getLanguageId(), prefix);
+
+    let suggestions = lookUp(key);
+    if (!suggestions) {
+      if (!(await waitForPause(token))) return undefined;
+
+      const fetched = await fetchSuggestions(model, position, token);
+      if (!fetched || token.isCancellationRequested) return undefined;
+
+      suggestions = fetched
+        .map((suggestion) => toInsertText(suggestion, linePrefix))
+        .filter((insertText) => insertText.trim());
+      remember(key, suggestions);
+    }
+
+    const range = new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column);
+    return { items: suggestions.map((insertText) => ({ insertText, range })) };
+  },
+
+  freeInlineCompletions() {},
+};
+
+let registration: monaco.IDisposable | null = null;
+
+/**
+ * Offer AI suggestions as ghost text in every editor, accepted with Tab
+ * Suggestions are requested once typing pauses; requests overtaken by further
+ * typing are cancelled. Safe to call more than once.
+ */
+export const registerAiInlineCompletions = () => {
+  if (!registration) {
+    registration = monaco.languages.registerInlineCompletionsProvider("*", provider);
+  }
+};
@@ -1,9 +1,83 @@
 import { apiRequest } from "./queryClient";
+import { AI_PROVIDER_HEADER, isAiProviderName, type AiProviderName, type AiProvidersResponse } from "@shared/ai-providers";
+import { AI_FEATURE_HEADER, type AiFeature, type AiUsageReport } from "@shared/ai-usage";
+import type { ContextAwareCodeRequest, ContextAwareCodeResponse } from "@shared/project-context";
+import type { AiConversation, AiMessage } from "@shared/schema";
+
+export type { AiProviderInfo, AiProviderName, AiProvidersResponse } from "@shared/ai-providers";
+export type { AiFeature, AiUsageReport } from "@shared/ai-usage";
+export type { ContextAwareCodeRequest, ContextAwareCodeResponse, ContextSource, ProposedFileChange } from "@shared/project-context";
+export type { AiConversation, AiMessage };
+
+const AI_PROVIDER_STORAGE_KEY = 'ai-provider';
+
+// Provider the user picked for their AI requests, if any
+export const getPreferredAiProvider = (): AiProviderName | null => {
+  const provider = localStorage.getItem(AI_PROVIDER_STORAGE_KEY);
+  return provider && isAiProviderName(provider) ? provider : null;
+};
+
+// Pick the provider for later AI requests; null goes back to the server default
+export const setPreferredAiProvider = (provider: AiProviderName | null) => {
+  if (provider) {
+    localStorage.setItem(AI_PROVIDER_STORAGE_KEY, provider);
+  } else {
+    localStorage.removeItem(AI_PROVIDER_STORAGE_KEY);
+  }
+};
+
+// List the AI providers and which of them the server can use
+export const getAiProviders = async (): Promise<AiProvidersResponse> => {
+  const response = await apiRequest('GET', '/api/ai/providers');
+  return response.json();
+};
+
+// Error from an AI route, keeping its status so a used-up quota (429) can be told apart
+export class AiRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AiRequestError';
+  }
+}
+
+// The user's AI usage over the last few days, with today's quota
+export const getAiUsage = async (days: number = 30): Promise<AiUsageReport> => {
+  const response = await apiRequest('GET', `/api/ai/usage?days=${days}`);
+  return response.json();
+};
+
+// POST to an AI route, naming the user's preferred provider and, for routes
+// that serve several features, the feature the request is for
+const postToAI = async (
+  url: string,
+  body: unknown,
+  { signal, feature }: { signal?: AbortSignal; feature?: AiFeature } = {}
+): Promise<Response> => {
+  const provider = getPreferredAiProvider();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      "Content-Type": "application/json",
+      ...(provider ? { [AI_PROVIDER_HEADER]: provider } : {}),
+      ...(feature ? { [AI_FEATURE_HEADER]: feature } : {}),
+    },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal,
+  });
+  
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new AiRequestError(data?.message || response.statusText, response.status);
+  }
+  
+  return response;
+};
 
 // Send a message to the AI service
 export const sendMessageToAI = async (message: string, context: string = ""): Promise<string> => {
   try {
-    const response = await apiRequest('POST', '/api/ai/message', {
+    const response = await postToAI('/api/ai/message', {
       message,
       context
     });
@@ -16,18 +90,106 @@ export const sendMessageToAI = async (message: string, context: string = ""): Pr
   }
 };
 
-// Get code generation from AI
+// Handlers for an AI response streamed as it is generated
+export interface AiStreamOptions {
+  // Called with each piece of text as it arrives
+  onToken: (text: string) => void;
+  // Aborting stops generation on the server too
+  signal?: AbortSignal;
+}
+
+// Post a request to a streaming AI route and read its server-sent events, resolving with the full text
+const streamFromAI = async (url: string, body: unknown, { onToken, signal }: AiStreamOptions): Promise<string> => {
+  const response = await postToAI(url, body, { signal });
+  if (!response.body) {
+    throw new Error('The AI response could not be read');
+  }
+  
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    
+    // Events end with a blank line; the last piece may still be incomplete
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    
+    for (const event of events) {
+      const name = /^event: (.*)$/m.exec(event)?.[1];
+      const data = JSON.parse(/^data: (.*)$/m.exec(event)?.[1] ?? '{}');
+      
+      if (name === 'token') {
+        text += data.text;
+        onToken(data.text);
+      } else if (name === 'error') {
+        throw new Error(data.message);
+      } else if (name === 'done') {
+        return text;
+      }
+    }
+  }
+  
+  throw new Error('The AI response ended unexpectedly');
+};
+
+// Stream a chat response from the AI, token by token
+export const streamMessageToAI = (message: string, context: string, options: AiStreamOptions): Promise<string> =>
+  streamFromAI('/api/ai/message/stream', { message, context }, options);
+
+// List the user's conversations in a project, or outside any for null, most recent first
+export const getConversations = async (projectId: number | null): Promise<AiConversation[]> => {
+  const query = projectId !== null ? `?projectId=${projectId}` : '';
+  const response = await apiRequest('GET', `/api/ai/conversations${query}`);
+  return response.json();
+};
+
+// Start a conversation; it is titled after its first message unless given a title
+export const createConversation = async (projectId: number | null, title?: string): Promise<AiConversation> => {
+  const response = await apiRequest('POST', '/api/ai/conversations', { projectId, title });
+  return response.json();
+};
+
+export const renameConversation = async (id: number, title: string): Promise<AiConversation> => {
+  const response = await apiRequest('PATCH', `/api/ai/conversations/${id}`, { title });
+  return response.json();
+};
+
+export const deleteConversation = async (id: number): Promise<void> => {
+  await apiRequest('DELETE', `/api/ai/conversations/${id}`);
+};
+
+// Load a conversation's messages, oldest first
+export const getConversationMessages = async (id: number): Promise<AiMessage[]> => {
+  const response = await apiRequest('GET', `/api/ai/conversations/${id}/messages`);
+  return response.json();
+};
+
+// Send a message in a conversation and stream the reply; the server keeps both
+export const streamConversationMessage = (
+  id: number,
+  content: string,
+  context: string,
+  options: AiStreamOptions
+): Promise<string> =>
+  streamFromAI(`/api/ai/conversations/${id}/messages/stream`, { content, context }, options);
+
+// Get code generation from AI; feature names what the code is for, such as tests
 export const generateCode = async (
   prompt: string,
   language: string,
-  context: string = ""
+  context: string = "",
+  feature?: AiFeature
 ): Promise<string> => {
   try {
-    const response = await apiRequest('POST', '/api/ai/generate-code', {
+    const response = await postToAI('/api/ai/generate-code', {
       prompt,
       language,
       context
-    });
+    }, { feature });
     
     const data = await response.json();
     return data.code;
@@ -37,10 +199,21 @@ export const generateCode = async (
   }
 };
 
+// Stream code generation from AI; the final result has its code block markers removed
+export const streamGeneratedCode = async (
+  prompt: string,
+  language: string,
+  context: string,
+  options: AiStreamOptions
+): Promise<string> => {
+  const code = await streamFromAI('/api/ai/generate-code/stream', { prompt, language, context }, options);
+  return code.replace(/```[\w]*\n|```$/g, "").trim();
+};
+
 // Get code explanation from AI
 export const explainCode = async (code: string, language: string): Promise<string> => {
   try {
-    const response = await apiRequest('POST', '/api/ai/explain-code', {
+    const response = await postToAI('/api/ai/explain-code', {
       code,
       language
     });
@@ -53,6 +226,10 @@ export const explainCode = async (code: string, language: string): Promise<strin
   }
 };
 
+// Stream a code explanation from AI, token by token
+export const streamCodeExplanation = (code: string, language: string, options: AiStreamOptions): Promise<string> =>
+  streamFromAI('/api/ai/explain-code/stream', { code, language }, options);
+
 // AI debugging assistance
 export const debugCode = async (
   code: string,
@@ -60,7 +237,7 @@ export const debugCode = async (
   language: string
 ): Promise<string> => {
   try {
-    const response = await apiRequest('POST', '/api/ai/debug', {
+    const response = await postToAI('/api/ai/debug', {
       code,
       error,
       language
@@ -74,57 +251,43 @@ export const debugCode = async (
   }
 };
 
-// Get AI code completion suggestions
+// Get AI code completion suggestions; aborting cancels the request
 export const getCompletionSuggestions = async (
   code: string, 
   position: { lineNumber: number; column: number },
-  language: string
+  language: string,
+  signal?: AbortSignal
 ): Promise<Array<{ text: string; description: string }>> => {
   try {
-    const response = await apiRequest('POST', '/api/ai/completion', {
+    const response = await postToAI('/api/ai/completion', {
       code,
       position,
       language
-    });
+    }, { signal });
     
     const data = await response.json();
     return data.suggestions;
   } catch (error) {
-    console.error('Error getting AI code completion:', error);
-    throw [];
+    if (!signal?.aborted) {
+      console.error('Error getting AI code completion:', error);
+    }
+    throw error;
   }
 };
 
-// Types for context-aware code generation
-interface CodeContext {
-  currentFile?: { name: string; content: string };
-  selectedCode?: string;
-  projectStructure?: { name: string; type: string }[];
-  relatedFiles?: { name: string; content: string }[];
-}
-
-interface ContextAwareCodeResult {
-  code: string;
-  explanation: string;
-}
-
-// Generate context-aware code with project awareness
+// Generate context-aware code; the server picks the relevant parts of the project
 export const generateContextAwareCode = async (
-  prompt: string,
-  language: string,
-  codeContext: CodeContext
-): Promise<ContextAwareCodeResult> => {
+  request: ContextAwareCodeRequest
+): Promise<ContextAwareCodeResponse> => {
   try {
-    const response = await apiRequest('POST', '/api/ai/context-aware-code', {
-      prompt,
-      language,
-      codeContext
-    });
+    const response = await postToAI('/api/ai/context-aware-code', request);
     
     const data = await response.json();
     return {
       code: data.code || "",
-      explanation: data.explanation || ""
+      explanation: data.explanation || "",
+      changes: data.changes || [],
+      sources: data.sources || []
     };
   } catch (error) {
     console.error('Error generating context-aware code:', error);
@@ -0,0 +1,117 @@
+import { apiRequest } from "./queryClient";
+import type { Project, File as ProjectFile } from "@shared/schema";
+import type { FileTreeItem } from "@shared/file-tree";
+
+export type { Project, ProjectFile };
+
+// Thrown when the server copy of a file changed since it was last loaded
+export class FileConflictError extends Error {
+  constructor(public serverFile: ProjectFile) {
+    super('File was changed on the server');
+    this.name = 'FileConflictError';
+  }
+}
+
+// List the signed-in user's projects
+export const getProjects = async (): Promise<Project[]> => {
+  const response = await apiRequest('GET', '/api/projects');
+  return response.json();
+};
+
+// Create a new project
+export const createProject = async (name: string, description?: string): Promise<Project> => {
+  const response = await apiRequest('POST', '/api/projects', { name, description });
+  return response.json();
+};
+
+// Result of importing a zip archive as a new project
+export interface ProjectImportResult {
+  project: Project;
+  fileCount: number;
+  folderCount: number;
+  skipped: string[];
+}
+
+// URL that downloads a project as a zip archive
+export const getProjectExportUrl = (projectId: number): string => `/api/projects/${projectId}/export`;
+
+// Create a new project from a zip archive
+export const importProject = async (archive: Blob, name?: string): Promise<ProjectImportResult> => {
+  const query = name ? `?name=${encodeURIComponent(name)}` : '';
+  const response = await fetch(`/api/projects/import${query}`, {
+    method: 'POST',
+    headers: { "Content-Type": "application/zip" },
+    body: archive,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || response.statusText);
+  }
+
+  return response.json();
+};
+
+// Load every file row of a project
+export const getProjectFiles = async (projectId: number): Promise<ProjectFile[]> => {
+  const response = await apiRequest('GET', `/api/projects/${projectId}/files`);
+  return response.json();
+};
+
+// Load a project's files as a nested tree, folders first
+export const getProjectTree = async (projectId: number): Promise<FileTreeItem[]> => {
+  const response = await apiRequest('GET', `/api/projects/${projectId}/tree`);
+  return response.json();
+};
+
+// Create a file or folder in a project; missing parent folders are created too
+export const createProjectFile = async (
+  projectId: number,
+  file: { path: string; content?: string | null; isFolder: boolean }
+): Promise<ProjectFile> => {
+  const response = await apiRequest('POST', `/api/projects/${projectId}/files`, file);
+  return response.json();
+};
+
+// Save file content, failing with FileConflictError if the server copy moved on
+export const saveProjectFile = async (
+  projectId: number,
+  fileId: number,
+  content: string,
+  baseUpdatedAt?: string
+): Promise<ProjectFile> => {
+  const response = await fetch(`/api/projects/${projectId}/files/${fileId}`, {
+    method: 'PATCH',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ content, baseUpdatedAt }),
+    credentials: "include",
+  });
+
+  if (response.status === 409) {
+    const data = await response.json();
+    throw new FileConflictError(data.file);
+  }
+
+  if (!response.ok) {
+    const text = (await response.text()) || response.statusText;
+    throw new Error(`${response.status}: ${text}`);
+  }
+
+  return response.json();
+};
+
+// Rename or move a file or folder without touching its content
+export const updateProjectFile = async (
+  projectId: number,
+  fileId: number,
+  changes: { name?: string; path?: string }
+): Promise<ProjectFile> => {
+  const response = await apiRequest('PATCH', `/api/projects/${projectId}/files/${fileId}`, changes);
+  return response.json();
+};
+
+// Delete a file, or a folder and everything inside it
+export const deleteProjectFile = async (projectId: number, fileId: number): Promise<void> => {
+  await apiRequest('DELETE', `/api/projects/${projectId}/files/${fileId}`);
+};
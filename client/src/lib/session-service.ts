@@ -0,0 +1,53 @@
+import { apiRequest, getQueryFn, queryClient } from './queryClient';
+
+// Signed-in user as the server returns it, without the password hash
+export interface SessionUser {
+  id: number;
+  username: string;
+  email: string | null;
+  fullName: string | null;
+}
+
+export const SESSION_QUERY_KEY = ['/api/users/me'];
+
+// Loads the signed-in user, or null without a session
+export const getSessionUser = getQueryFn<SessionUser | null>({ on401: 'returnNull' });
+
+// Turn a failed request's "status: body" error into the server's message
+export const sessionErrorMessage = (error: unknown): string => {
+  const text = error instanceof Error ? error.message : String(error);
+  const body = text.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+// Sign in with a username and password, starting a server session
+export const signIn = async (username: string, password: string): Promise<SessionUser> => {
+  const response = await apiRequest('POST', '/api/users/login', { username, password });
+  const user: SessionUser = await response.json();
+  queryClient.setQueryData(SESSION_QUERY_KEY, user);
+  return user;
+};
+
+// Create an account; the server signs the new user in straight away
+export const register = async (account: {
+  username: string;
+  password: string;
+  confirmPassword: string;
+  email?: string;
+}): Promise<SessionUser> => {
+  const response = await apiRequest('POST', '/api/users/register', account);
+  const user: SessionUser = await response.json();
+  queryClient.setQueryData(SESSION_QUERY_KEY, user);
+  return user;
+};
+
+// End the server session and drop everything cached for the user
+export const signOut = async (): Promise<void> => {
+  await apiRequest('POST', '/api/users/logout');
+  queryClient.clear();
+  queryClient.setQueryData(SESSION_QUERY_KEY, null);
+};
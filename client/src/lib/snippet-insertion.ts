@@ -0,0 +1,95 @@
+import type * as monaco from "monaco-editor";
+import { getEditor } from "./editor-registry";
+
+// Monaco's snippet controller, which turns tab-stops in inserted text into fields
+interface SnippetController {
+  insert(template: string, options?: { adjustWhitespace?: boolean }): void;
+}
+
+/**
+ * Escape code for Monaco's snippet syntax, keeping only numbered tab-stops
+ * "$1", "${1}" and "${1:name}" stay tab-stops; every other "$", "}" and "\"
+ * is literal, so template strings like `${user.name}` are inserted as written.
+ */
+export const toSnippetTemplate = (code: string): string => {
+  let template = "";
+  // Placeholders opened and not yet closed, e.g. inside "${1:"
+  let openPlaceholders = 0;
+
+  for (let i = 0; i < code.length; i++) {
+    const rest = code.slice(i);
+    const tabStop = /^\$(\d+|\{\d+\})/.exec(rest) ?? /^\$\{\d+:/.exec(rest);
+
+    if (tabStop) {
+      template += tabStop[0];
+      if (tabStop[0].endsWith(":")) openPlaceholders++;
+      i += tabStop[0].length - 1;
+    } else if (code[i] === "}" && openPlaceholders > 0) {
+      template += "}";
+      openPlaceholders--;
+    } else if (code[i] === "$" || code[i] === "}" || code[i] === "\\") {
+      template += `\\${code[i]}`;
+    } else {
+      template += code[i];
+    }
+  }
+
+  return template;
+};
+
+/**
+ * Re-indent code to sit at a given indentation
+ * The code's own common indentation is removed, its indentation is converted
+ * to the editor's tabs or spaces, and every line after the first is prefixed
+ * with the indentation of the line it is inserted on.
+ */
+export const reindentSnippet = (
+  code: string,
+  indentation: string,
+  options: { insertSpaces: boolean; tabSize: number }
+): string => {
+  const lines = code.replace(/\r\n/g, "\n").replace(/^\n+|\s+$/g, "").split("\n");
+  const tab = " ".repeat(options.tabSize);
+
+  const converted = lines.map((line) => line.replace(/^[ \t]+/, (leading) => options.insertSpaces
+    ? leading.replace(/\t/g, tab)
+    : leading.replace(new RegExp(tab, "g"), "\t")));
+
+  const common = converted
+    .filter((line) => line.trim() !== "")
+    .reduce((min, line) => Math.min(min, /^[ \t]*/.exec(line)![0].length), Infinity);
+
+  return converted
+    .map((line) => line.slice(Number.isFinite(common) ? common : 0))
+    .map((line, index) => (index === 0 || line === "" ? line : indentation + line))
+    .join("\n");
+};
+
+/**
+ * Insert code into a file's editor at the cursor, replacing any selection
+ * Tab-stops in the code become fields to fill in, reached with Tab.
+ * Returns false when the file has no editor.
+ */
+export const insertSnippetAtCursor = (fileId: string, code: string): boolean => {
+  const editor = getEditor(fileId);
+  const model = editor?.getModel();
+  const position = editor?.getPosition();
+  if (!editor || !model || !position) return false;
+
+  // Indentation of the cursor's line, up to the cursor
+  const indentation = /^[ \t]*/.exec(model.getLineContent(position.lineNumber))![0].slice(0, position.column - 1);
+  const { insertSpaces, tabSize } = model.getOptions();
+  const reindented = reindentSnippet(code, indentation, { insertSpaces, tabSize });
+
+  editor.focus();
+  const controller = editor.getContribution("snippetController2") as (monaco.editor.IEditorContribution & SnippetController) | null;
+  if (controller) {
+    controller.insert(toSnippetTemplate(reindented), { adjustWhitespace: false });
+  } else {
+    // Without the snippet controller, placeholders are replaced by their default text
+    const text = reindented.replace(/\$\{\d+:([^}]*)\}|\$\{?\d+\}?/g, "$1");
+    editor.executeEdits("insert-snippet", [{ range: editor.getSelection()!, text, forceMoveMarkers: true }]);
+  }
+
+  return true;
+};
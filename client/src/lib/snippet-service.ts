@@ -0,0 +1,155 @@
+import { apiRequest } from "./queryClient";
+import type { CodeSnippet, CodeSnippetRevision } from "@shared/schema";
+import type { SearchFacet, SnippetSearchHit, SnippetSearchResult } from "@shared/snippet-search";
+import type {
+  EditorContext,
+  SnippetRecommendation,
+  SnippetRecommendationRequest,
+  SnippetRecommendationResponse,
+} from "@shared/snippet-recommendations";
+
+export type { CodeSnippet, CodeSnippetRevision, SearchFacet, SnippetSearchHit, SnippetSearchResult };
+export type { EditorContext, SnippetRecommendation, SnippetRecommendationRequest, SnippetRecommendationResponse };
+
+// A shared snippet as served to viewers, with its author and history
+export interface SharedSnippet extends CodeSnippet {
+  author: { id: number; username: string } | null;
+  // Set for forks whose parent is still shared
+  forkedFrom: { title: string; vanityUrl: string } | null;
+  revisionCount: number;
+}
+
+// Fields accepted when sharing or editing a snippet
+export interface SnippetInput {
+  title: string;
+  description?: string;
+  code: string;
+  language: string;
+  vanityUrl?: string;
+  complexity?: number;
+  mood?: string;
+  isPublic?: boolean;
+  expiresAt?: string | null;
+  // Delete the snippet once this many people have viewed it
+  maxViews?: number | null;
+  tags?: string[];
+}
+
+// Filters for searching shared snippets
+export interface SnippetSearchOptions {
+  query?: string;
+  language?: string;
+  mood?: string;
+  tags?: string[];
+  page?: number;
+  pageSize?: number;
+}
+
+// Thrown when the requested vanity URL belongs to another snippet
+export class VanityUrlTakenError extends Error {
+  constructor(message: string, public suggestion: string) {
+    super(message);
+    this.name = 'VanityUrlTakenError';
+  }
+}
+
+// Thrown when a shared snippet cannot be shown; status is 404 or 410 (expired)
+export class SnippetUnavailableError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SnippetUnavailableError';
+  }
+}
+
+// Send a snippet request, turning vanity URL collisions into VanityUrlTakenError
+const sendSnippet = async (method: string, url: string, snippet: Partial<SnippetInput>): Promise<CodeSnippet> => {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(snippet),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    if (response.status === 409 && data?.suggestion) {
+      throw new VanityUrlTakenError(data.message, data.suggestion);
+    }
+    throw new Error(data?.message || response.statusText);
+  }
+
+  return response.json();
+};
+
+// List the signed-in user's snippets
+export const getSnippets = async (): Promise<CodeSnippet[]> => {
+  const response = await apiRequest('GET', '/api/snippets');
+  return response.json();
+};
+
+// Share a new snippet
+export const createSnippet = (snippet: SnippetInput): Promise<CodeSnippet> =>
+  sendSnippet('POST', '/api/snippets', snippet);
+
+// Edit one of the user's snippets
+export const updateSnippet = (id: number, changes: Partial<SnippetInput>): Promise<CodeSnippet> =>
+  sendSnippet('PATCH', `/api/snippets/${id}`, changes);
+
+// Delete one of the user's snippets
+export const deleteSnippet = async (id: number): Promise<void> => {
+  await apiRequest('DELETE', `/api/snippets/${id}`);
+};
+
+// Load a shared snippet by its vanity URL
+export const getSharedSnippet = async (vanityUrl: string): Promise<SharedSnippet> => {
+  const response = await fetch(`/api/s/${encodeURIComponent(vanityUrl)}`, { credentials: "include" });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new SnippetUnavailableError(data?.message || response.statusText, response.status);
+  }
+
+  return response.json();
+};
+
+// Load every saved version of a shared snippet, oldest first
+export const getSnippetRevisions = async (vanityUrl: string): Promise<CodeSnippetRevision[]> => {
+  const response = await apiRequest('GET', `/api/s/${encodeURIComponent(vanityUrl)}/revisions`);
+  return response.json();
+};
+
+// Copy a shared snippet into the signed-in user's account
+export const forkSnippet = async (vanityUrl: string): Promise<CodeSnippet> => {
+  const response = await apiRequest('POST', `/api/s/${encodeURIComponent(vanityUrl)}/fork`);
+  return response.json();
+};
+
+// Search public snippets, plus the user's own private ones, with facet counts
+export const searchSnippets = async (options: SnippetSearchOptions): Promise<SnippetSearchResult> => {
+  const params = new URLSearchParams();
+  if (options.query) params.set('q', options.query);
+  if (options.language) params.set('language', options.language);
+  if (options.mood) params.set('mood', options.mood);
+  if (options.tags?.length) params.set('tags', options.tags.join(','));
+  if (options.page) params.set('page', String(options.page));
+  if (options.pageSize) params.set('pageSize', String(options.pageSize));
+  
+  const response = await apiRequest('GET', `/api/snippets/search?${params}`);
+  return response.json();
+};
+
+// Recommend snippets for the file being edited
+export const getSnippetRecommendations = async (
+  request: SnippetRecommendationRequest
+): Promise<SnippetRecommendationResponse> => {
+  const response = await apiRequest('POST', '/api/snippets/recommendations', request);
+  return response.json();
+};
+
+// Record whether a recommended snippet was helpful, replacing any earlier vote
+export const sendSnippetFeedback = async (id: number, helpful: boolean): Promise<void> => {
+  await apiRequest('PUT', `/api/snippets/${id}/feedback`, { helpful });
+};
+
+// Public URL of a shared snippet
+export const getSnippetUrl = (vanityUrl: string): string => `${window.location.origin}/s/${vanityUrl}`;
@@ -0,0 +1,106 @@
+// Messages the server sends for an interactive shell session
+export type TerminalSessionMessage =
+  | { type: "terminal-session-created"; sessionId: string }
+  | { type: "terminal-session-output"; sessionId: string; output: string }
+  // reason is set when the session could not be started
+  | { type: "terminal-session-exit"; sessionId: string; exitCode: number; reason?: string };
+
+type SessionListener = (message: TerminalSessionMessage) => void;
+
+// Shared /ws connection that multiplexes every terminal tab
+export interface TerminalSocket {
+  createSession: (sessionId: string, cols: number, rows: number) => void;
+  sendInput: (sessionId: string, input: string) => void;
+  resize: (sessionId: string, cols: number, rows: number) => void;
+  closeSession: (sessionId: string) => void;
+  subscribe: (sessionId: string, listener: SessionListener) => () => void;
+  dispose: () => void;
+}
+
+// Open the terminal WebSocket and route session messages to their tab
+export const createTerminalSocket = (): TerminalSocket => {
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  const host = window.location.host || '0.0.0.0:5000';
+  const wsUrl = `${wsProtocol}://${host}/ws`;
+
+  const listeners = new Map<string, SessionListener>();
+  // Sessions to recreate after a reconnect, with their last known size
+  const sessions = new Map<string, { cols: number; rows: number }>();
+  let pending: string[] = [];
+  let ws: WebSocket | null = null;
+  let disposed = false;
+
+  const send = (payload: Record<string, unknown>) => {
+    const message = JSON.stringify(payload);
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    } else {
+      pending.push(message);
+    }
+  };
+
+  const connect = () => {
+    ws = new WebSocket(wsUrl);
+
+    ws.onopen = () => {
+      const queued = pending;
+      pending = [];
+      queued.forEach(message => ws?.send(message));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (typeof message.sessionId === 'string') {
+          listeners.get(message.sessionId)?.(message);
+        }
+      } catch (error) {
+        console.error('Invalid terminal message:', error);
+      }
+    };
+
+    ws.onclose = () => {
+      if (disposed) return;
+
+      // The server tears sessions down with the socket, so start fresh ones
+      pending = Array.from(sessions.entries()).map(([sessionId, size]) =>
+        JSON.stringify({ type: 'terminal-session-create', sessionId, ...size })
+      );
+      setTimeout(() => {
+        if (!disposed) connect();
+      }, 5000);
+    };
+  };
+
+  connect();
+
+  return {
+    createSession: (sessionId, cols, rows) => {
+      sessions.set(sessionId, { cols, rows });
+      send({ type: 'terminal-session-create', sessionId, cols, rows });
+    },
+    sendInput: (sessionId, input) => {
+      send({ type: 'terminal-session-input', sessionId, input });
+    },
+    resize: (sessionId, cols, rows) => {
+      sessions.set(sessionId, { cols, rows });
+      send({ type: 'terminal-session-resize', sessionId, cols, rows });
+    },
+    closeSession: (sessionId) => {
+      sessions.delete(sessionId);
+      send({ type: 'terminal-session-close', sessionId });
+    },
+    subscribe: (sessionId, listener) => {
+      listeners.set(sessionId, listener);
+      return () => {
+        if (listeners.get(sessionId) === listener) {
+          listeners.delete(sessionId);
+        }
+      };
+    },
+    dispose: () => {
+      disposed = true;
+      ws?.close();
+    },
+  };
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft, BarChart3, Loader2, RefreshCw } from 'lucide-react';
+import { getAiUsage, type AiFeature, type AiUsageReport } from '@/lib/openai-service';
+
+const FEATURE_LABELS: Record<AiFeature, string> = {
+  chat: 'Chat',
+  completion: 'Completion',
+  generation: 'Code generation',
+  debug: 'Debugging',
+  explain: 'Explanation',
+  tests: 'Unit tests',
+  refactoring: 'Refactoring',
+};
+
+const chartConfig = {
+  costUsd: { label: 'Spend (USD)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatUsd = (amount: number) =>
+  amount > 0 && amount < 0.01 ? '< $0.01' : `$${amount.toFixed(2)}`;
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+/**
+ * Quota bar for today's usage, or a note when there is no limit
+ */
+function QuotaMeter({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {formatNumber(used)} / {limit === null ? 'unlimited' : formatNumber(limit)}
+        </span>
+      </div>
+      {limit !== null && <Progress value={Math.min(100, (used / limit) * 100)} className="h-2" />}
+    </div>
+  );
+}
+
+export default function AiUsagePage() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<AiUsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadUsage = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setReport(await getAiUsage(days));
+    } catch (err: any) {
+      console.error('Error loading AI usage:', err);
+      setError(err.message || 'Failed to load AI usage');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, [days]);
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Link href="/">
+            <Button variant="ghost" size="icon" title="Back to editor">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <BarChart3 className="h-6 w-6" />
+            AI Usage
+          </h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-36" aria-label="Period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={loadUsage} disabled={isLoading} title="Refresh">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Estimated spend</CardDescription>
+                <CardTitle className="text-3xl">{formatUsd(report.totals.costUsd)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                At list prices, since {new Date(report.since).toLocaleDateString()}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Requests</CardDescription>
+                <CardTitle className="text-3xl">{formatNumber(report.totals.requests)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {formatNumber(report.totals.promptTokens)} prompt and {formatNumber(report.totals.completionTokens)} completion tokens
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Today's quota</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <QuotaMeter label="Tokens" used={report.quota.tokens.used} limit={report.quota.tokens.limit} />
+                <QuotaMeter label="Requests" used={report.quota.requests.used} limit={report.quota.requests.limit} />
+                <p className="text-xs text-muted-foreground">
+                  Resets {new Date(report.quota.resetsAt).toLocaleString()}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Daily spend</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-56 w-full">
+                <BarChart data={report.byDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Spend by feature</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.byFeature.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No AI requests in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feature</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Prompt tokens</TableHead>
+                      <TableHead className="text-right">Completion tokens</TableHead>
+                      <TableHead className="text-right">Avg. latency</TableHead>
+                      <TableHead className="text-right">Spend</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byFeature.map((usage) => (
+                      <TableRow key={usage.feature}>
+                        <TableCell>{FEATURE_LABELS[usage.feature]}</TableCell>
+                        <TableCell className="text-right">{formatNumber(usage.requests)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(usage.promptTokens)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(usage.completionTokens)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(usage.averageLatencyMs)} ms</TableCell>
+                        <TableCell className="text-right">{formatUsd(usage.costUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {report.byModel.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Spend by model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Provider</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Spend</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byModel.map((usage) => (
+                      <TableRow key={`${usage.provider}/${usage.model}`}>
+                        <TableCell>{usage.provider}</TableCell>
+                        <TableCell className="font-mono text-xs">{usage.model}</TableCell>
+                        <TableCell className="text-right">{formatNumber(usage.requests)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(usage.promptTokens + usage.completionTokens)}</TableCell>
+                        <TableCell className="text-right">{formatUsd(usage.costUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
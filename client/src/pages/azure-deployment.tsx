@@ -103,6 +103,9 @@ export default function AzureDeploymentPage() {
           <AlertDescription>
             You need to be logged in with your Microsoft account to deploy to Azure.
             Please log in to continue.
+            <Button className="mt-3 block" onClick={() => AuthService.login()}>
+              Sign in with Microsoft
+            </Button>
           </AlertDescription>
         </Alert>
       ) : (
@@ -4,12 +4,15 @@ import FileExplorer from "@/components/file-explorer";
 import Editor from "@/components/editor";
 import Terminal from "@/components/terminal";
 import AiAssistant from "@/components/ai-assistant";
+import CodeSnippetRecommendations from "@/components/code-snippet-recommendations";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useResize } from "@/hooks/use-resize";
 import { useDispatch } from "react-redux";
-import { loadInitialState } from "@/store/editor-slice";
+import type { AppDispatch } from "@/store";
+import { loadWorkspace } from "@/store/editor-slice";
 
 export default function Home() {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const { 
     fileExplorerRef, 
     fileExplorerResizeRef, 
@@ -20,8 +23,8 @@ export default function Home() {
   } = useResize();
 
   useEffect(() => {
-    // Initialize the editor state
-    dispatch(loadInitialState());
+    // Load the user's project, falling back to the local sample project
+    dispatch(loadWorkspace());
   }, [dispatch]);
 
   return (
@@ -48,9 +51,20 @@ export default function Home() {
             {/* AI Assistant Resize Handle */}
             <div ref={aiAssistantResizeRef} className="resize-handle" />
             
-            {/* AI Assistant */}
+            {/* AI Assistant & Snippet Recommendations */}
             <div ref={aiAssistantRef} className="w-64 border-l border-border bg-sidebar">
-              <AiAssistant />
+              <Tabs defaultValue="assistant" className="h-full flex flex-col">
+                <TabsList className="w-full rounded-none">
+                  <TabsTrigger value="assistant" className="flex-1 text-xs">Assistant</TabsTrigger>
+                  <TabsTrigger value="snippets" className="flex-1 text-xs">Snippets</TabsTrigger>
+                </TabsList>
+                <TabsContent value="assistant" className="flex-1 mt-0 overflow-hidden">
+                  <AiAssistant />
+                </TabsContent>
+                <TabsContent value="snippets" className="flex-1 mt-0 overflow-hidden">
+                  <CodeSnippetRecommendations />
+                </TabsContent>
+              </Tabs>
             </div>
           </div>
           
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useRoute } from 'wouter';
+import { useLocation, useRoute } from 'wouter';
 import { 
   Card, CardContent, CardDescription, 
   CardFooter, CardHeader, CardTitle 
@@ -16,10 +16,22 @@ import {
 import { AnimatedCodeGeneration } from '@/components/animated-code-generation';
 import { 
   Copy, Eye, Calendar, Clock, User, Globe, Lock, Link2, 
-  Download, ExternalLink, Share2, Heart, MessageSquare, ArrowLeft
+  Download, ExternalLink, Share2, Heart, MessageSquare, ArrowLeft,
+  GitFork, History, Code2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import SnippetRevisionDiff from '@/components/snippet-revision-diff';
+import { useSession } from '@/hooks/use-session';
+import {
+  forkSnippet,
+  getSharedSnippet,
+  getSnippetRevisions,
+  SnippetUnavailableError,
+  type CodeSnippetRevision,
+  type SharedSnippet,
+} from '@/lib/snippet-service';
 
 // Emoticons for code mood
 const moodEmoticons: Record<string, { emoji: string, description: string }> = {
@@ -53,13 +65,20 @@ const complexityLabels = [
 export default function SharedCodePage() {
   const [, params] = useRoute('/s/:vanityUrl');
   const vanityUrl = params?.vanityUrl;
+  const { user } = useSession();
   
   const [loading, setLoading] = useState(true);
-  const [snippet, setSnippet] = useState<any>(null);
+  const [snippet, setSnippet] = useState<SharedSnippet | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showRaw, setShowRaw] = useState(false);
   const [likeCount, setLikeCount] = useState(0);
   const [hasLiked, setHasLiked] = useState(false);
+  const [, navigate] = useLocation();
+  const [isForking, setIsForking] = useState(false);
+  const [revisions, setRevisions] = useState<CodeSnippetRevision[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [compareFrom, setCompareFrom] = useState(0);
+  const [compareTo, setCompareTo] = useState(0);
   
   // Fetch code snippet data
   useEffect(() => {
@@ -69,70 +88,14 @@ export default function SharedCodePage() {
       try {
         setLoading(true);
         
-        // TODO: Replace with actual API call
-        // For now, using mock data for demonstration
-        await new Promise(resolve => setTimeout(resolve, 800));
-        
-        // In a real application, this data would come from an API request
-        setSnippet({
-          id: 123,
-          title: "React Custom Hook For API Calls",
-          description: "A reusable custom hook for handling API requests with loading and error states",
-          code: `import { useState, useEffect } from 'react';
-
-/**
- * Custom hook for handling API requests
- * @param {string} url - The API endpoint to fetch from
- * @param {Object} options - Fetch options
- * @returns {Object} { data, loading, error }
- */
-export function useApi(url, options = {}) {
-  const [data, setData] = useState(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const response = await fetch(url, options);
-        
-        if (!response.ok) {
-          throw new Error(\`HTTP error! Status: \${response.status}\`);
-        }
-        
-        const result = await response.json();
-        setData(result);
+        setSnippet(await getSharedSnippet(vanityUrl));
         setError(null);
+        setRevisions(null);
+        setShowHistory(false);
       } catch (err) {
-        setError(err.message);
-        setData(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [url]);
-
-  return { data, loading, error };
-}`,
-          language: "javascript",
-          mood: "proud",
-          complexity: 2,
-          isPublic: true,
-          views: 127,
-          createdAt: "2023-06-15T10:30:00Z",
-          user: {
-            id: 1,
-            username: "jane_developer",
-          }
-        });
-        
-        setLikeCount(42);
-        
-      } catch (err) {
-        setError("Failed to load the code snippet. It may have been removed or made private.");
+        setError(err instanceof SnippetUnavailableError && err.status === 410
+          ? "This code snippet has expired and is no longer available."
+          : "Failed to load the code snippet. It may have been removed or made private.");
         setSnippet(null);
       } finally {
         setLoading(false);
@@ -205,6 +168,68 @@ export function useApi(url, options = {}) {
     setHasLiked(!hasLiked);
   };
   
+  // Copy an iframe snippet that embeds this snippet elsewhere
+  const copyEmbedCode = () => {
+    if (!vanityUrl) return;
+    
+    const embedUrl = `${window.location.origin}/embed/${vanityUrl}`;
+    navigator.clipboard.writeText(
+      `<iframe src="${embedUrl}" width="640" height="400" style="border: 0;" loading="lazy"></iframe>`
+    );
+    toast({
+      title: "Embed code copied",
+      description: "Add ?theme=light or ?lines=5-20 to the URL to customise it.",
+    });
+  };
+  
+  // Copy the snippet into the viewer's account and open the copy
+  const handleFork = async () => {
+    if (!vanityUrl) return;
+    
+    try {
+      setIsForking(true);
+      const fork = await forkSnippet(vanityUrl);
+      toast({
+        title: "Snippet forked",
+        description: "A copy has been saved to your account.",
+      });
+      navigate(`/s/${fork.vanityUrl}`);
+    } catch (err) {
+      const signedOut = err instanceof Error && err.message.startsWith('401');
+      toast({
+        title: "Could not fork snippet",
+        description: signedOut ? "Sign in to fork snippets." : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsForking(false);
+    }
+  };
+  
+  // Load the revision history the first time it is opened, comparing the last two versions
+  const toggleHistory = async () => {
+    if (showHistory || !vanityUrl) {
+      setShowHistory(false);
+      return;
+    }
+    
+    try {
+      if (!revisions) {
+        const loaded = await getSnippetRevisions(vanityUrl);
+        setRevisions(loaded);
+        setCompareFrom(Math.max(loaded.length - 2, 0));
+        setCompareTo(loaded.length - 1);
+      }
+      setShowHistory(true);
+    } catch (err) {
+      toast({
+        title: "Could not load revisions",
+        description: "Please try again later.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const copyShareLink = () => {
     const url = window.location.href;
     navigator.clipboard.writeText(url);
@@ -260,6 +285,11 @@ export function useApi(url, options = {}) {
     );
   }
   
+  const complexity = snippet.complexity ?? 1;
+  // Burn-after-reading snippets can only be read through counted views, except by their owner
+  const canReadUncounted = !snippet.maxViews || (!!user && snippet.author?.id === user.id);
+  const mood = snippet.mood ?? 'neutral';
+  
   return (
     <div className="container max-w-4xl mx-auto py-10 px-4">
       <Card className="w-full">
@@ -278,13 +308,13 @@ export function useApi(url, options = {}) {
                 <TooltipTrigger asChild>
                   <div className={cn(
                     "px-3 py-1 rounded-full text-sm font-medium",
-                    complexityColors[snippet.complexity - 1]
+                    complexityColors[complexity - 1]
                   )}>
-                    {complexityLabels[snippet.complexity - 1]}
+                    {complexityLabels[complexity - 1]}
                   </div>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Code complexity level: {snippet.complexity}/5</p>
+                  <p>Code complexity level: {complexity}/5</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -293,7 +323,7 @@ export function useApi(url, options = {}) {
           <div className="flex flex-wrap items-center gap-4 mt-4 text-sm text-muted-foreground">
             <div className="flex items-center gap-1">
               <User className="h-4 w-4" />
-              <span>{snippet.user.username}</span>
+              <span>{snippet.author?.username ?? 'Unknown author'}</span>
             </div>
             
             <div className="flex items-center gap-1">
@@ -306,17 +336,29 @@ export function useApi(url, options = {}) {
               <span>{snippet.views} views</span>
             </div>
             
+            {snippet.forkedFrom && (
+              <div className="flex items-center gap-1">
+                <GitFork className="h-4 w-4" />
+                <span>
+                  Forked from{' '}
+                  <a href={`/s/${snippet.forkedFrom.vanityUrl}`} className="underline hover:text-foreground">
+                    {snippet.forkedFrom.title}
+                  </a>
+                </span>
+              </div>
+            )}
+            
             {/* Emoji-based code mood */}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <div className="flex items-center gap-1 bg-muted px-2 py-1 rounded-full">
-                    <span className="text-lg">{moodEmoticons[snippet.mood]?.emoji || '😐'}</span>
-                    <span>{snippet.mood}</span>
+                    <span className="text-lg">{moodEmoticons[mood]?.emoji || '😐'}</span>
+                    <span>{mood}</span>
                   </div>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>{moodEmoticons[snippet.mood]?.description || 'Neutral feeling about this code'}</p>
+                  <p>{moodEmoticons[mood]?.description || 'Neutral feeling about this code'}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -374,6 +416,17 @@ export function useApi(url, options = {}) {
               Copy Link
             </Button>
             
+            {!snippet.maxViews && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={copyEmbedCode}
+              >
+                <Code2 className="h-4 w-4 mr-2" />
+                Embed
+              </Button>
+            )}
+            
             <Button
               variant={hasLiked ? "default" : "outline"}
               size="sm"
@@ -383,8 +436,69 @@ export function useApi(url, options = {}) {
               <Heart className={cn("h-4 w-4 mr-2", hasLiked ? "fill-current" : "")} />
               {likeCount} Likes
             </Button>
+            
+            {canReadUncounted && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleFork}
+                disabled={isForking}
+              >
+                <GitFork className="h-4 w-4 mr-2" />
+                {isForking ? 'Forking...' : 'Fork'}
+              </Button>
+            )}
+            
+            {canReadUncounted && snippet.revisionCount > 1 && (
+              <Button
+                variant={showHistory ? "default" : "outline"}
+                size="sm"
+                onClick={toggleHistory}
+              >
+                <History className="h-4 w-4 mr-2" />
+                {snippet.revisionCount} Revisions
+              </Button>
+            )}
           </div>
           
+          {/* Revision diff view */}
+          {showHistory && revisions && revisions.length > 1 && (
+            <div className="mb-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Compare</span>
+                <Select value={String(compareFrom)} onValueChange={(value) => setCompareFrom(Number(value))}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision, index) => (
+                      <SelectItem key={revision.id} value={String(index)}>
+                        Revision {revision.revision} · {formatDate(revision.createdAt)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span>with</span>
+                <Select value={String(compareTo)} onValueChange={(value) => setCompareTo(Number(value))}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision, index) => (
+                      <SelectItem key={revision.id} value={String(index)}>
+                        Revision {revision.revision} · {formatDate(revision.createdAt)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <SnippetRevisionDiff
+                original={revisions[compareFrom]}
+                modified={revisions[compareTo]}
+              />
+            </div>
+          )}
+          
           {/* Code display area */}
           {showRaw ? (
             <pre className="p-4 bg-gray-900 text-gray-100 rounded-md font-mono text-sm overflow-x-auto">
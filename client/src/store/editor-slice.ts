@@ -1,15 +1,24 @@
-import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { createAsyncThunk, createSlice, isAnyOf, PayloadAction } from "@reduxjs/toolkit";
 import { RootState } from "./index";
 import { getTemplateFile } from "@/lib/editor-utils";
+import { parentPathOf, type FileTreeItem } from "@shared/file-tree";
+import {
+  createProject,
+  createProjectFile,
+  deleteProjectFile,
+  FileConflictError,
+  getProjects,
+  getProjectTree,
+  saveProjectFile,
+  updateProjectFile,
+  type ProjectFile,
+} from "@/lib/project-service";
 
-export interface FileItem {
-  id: string;
-  name: string;
-  type: "file" | "folder";
-  language?: string;
-  content?: string;
-  children?: FileItem[];
-}
+export type FileItem = FileTreeItem;
+
+// saved: matches the server, dirty: has unsaved edits, conflict: the server
+// copy changed underneath the local edits
+export type SaveStatus = "saved" | "dirty" | "saving" | "error" | "conflict";
 
 export interface OpenFile {
   id: string;
@@ -17,16 +26,45 @@ export interface OpenFile {
   content: string;
   language?: string;
   active: boolean;
+  serverId?: number;
+  updatedAt?: string;
+  // Content as last loaded from or saved to the server
+  savedContent: string;
+  saveStatus: SaveStatus;
+  conflict?: { content: string; updatedAt: string };
+}
+
+// ready: files come from a server project, offline: the local sample
+// project is shown because the server could not be reached
+export type ProjectStatus = "idle" | "loading" | "ready" | "offline";
+
+// AI edits applied together, with what each file held before so they can be undone together
+export interface AiEditTransaction {
+  label: string;
+  files: Array<{
+    id: string;
+    path: string;
+    // null for files the edits created
+    before: string | null;
+    after: string;
+  }>;
 }
 
 interface EditorState {
   files: FileItem[];
   openFiles: OpenFile[];
+  projectId: number | null;
+  projectStatus: ProjectStatus;
+  // The most recent AI edits, while they can still be undone
+  lastAiEdit: AiEditTransaction | null;
 }
 
 const initialState: EditorState = {
   files: [],
   openFiles: [],
+  projectId: null,
+  projectStatus: "idle",
+  lastAiEdit: null,
 };
 
 // Sample project structure with example files
@@ -163,6 +201,434 @@ Builds the app for production to the \`build\` folder.`,
   },
 ];
 
+// Upload the sample project so first-time users start with something to edit
+const seedSampleProject = async (projectId: number) => {
+  const upload = async (items: FileItem[], parentPath: string) => {
+    for (const item of items) {
+      const path = `${parentPath}/${item.name}`;
+      await createProjectFile(projectId, {
+        path,
+        content: item.type === "file" ? item.content ?? "" : null,
+        isFolder: item.type === "folder",
+      });
+      if (item.children) {
+        await upload(item.children, path);
+      }
+    }
+  };
+
+  await upload(sampleProjectStructure[0].children ?? [], "");
+};
+
+// Load a project from the server, defaulting to the user's most recent one
+export const loadWorkspace = createAsyncThunk("editor/loadWorkspace", async (projectId: number | undefined) => {
+  const projects = await getProjects();
+  let project = projectId !== undefined
+    ? projects.find((p) => p.id === projectId)
+    : [...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+  if (!project && projectId !== undefined) {
+    throw new Error("Project not found");
+  }
+
+  if (!project) {
+    project = await createProject(sampleProjectStructure[0].name, "Sample project");
+    await seedSampleProject(project.id);
+  }
+
+  return { projectId: project.id, files: await getProjectTree(project.id) };
+});
+
+// Save an open file, reporting a conflict if the server copy changed
+export const saveFile = createAsyncThunk<
+  ProjectFile,
+  string,
+  { state: RootState; rejectValue: { conflict: ProjectFile } }
+>(
+  "editor/saveFile",
+  async (id, { getState, rejectWithValue }) => {
+    const { projectId, openFiles } = getState().editor;
+    const file = openFiles.find((f) => f.id === id);
+
+    if (!projectId || !file?.serverId) {
+      throw new Error("File is not stored on the server");
+    }
+
+    try {
+      return await saveProjectFile(projectId, file.serverId, file.content, file.updatedAt);
+    } catch (error) {
+      if (error instanceof FileConflictError) {
+        return rejectWithValue({ conflict: error.serverFile });
+      }
+      throw error;
+    }
+  },
+  {
+    // A second save in flight would carry a stale base version, and a closed file has nothing to save
+    condition: (id, { getState }) => {
+      const file = getState().editor.openFiles.find((f) => f.id === id);
+      return !!file && file.saveStatus !== "saving";
+    },
+  }
+);
+
+// Save whatever an open file has that the server does not, first waiting out a save already in flight
+export const flushFile = createAsyncThunk<void, string, { state: RootState }>(
+  "editor/flushFile",
+  async (id, { dispatch, getState }) => {
+    const findFile = () => getState().editor.openFiles.find((f) => f.id === id);
+
+    // The save in flight may not include the latest edits
+    while (findFile()?.saveStatus === "saving") {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    const file = findFile();
+    if (file?.serverId && file.content !== file.savedContent) {
+      // A conflict or failed save leaves the edits only in the store
+      const saved = await dispatch(saveFile(id));
+      if (saveFile.rejected.match(saved)) {
+        throw new Error(`${file.name} could not be saved`);
+      }
+    }
+  }
+);
+
+// Find a file in the tree by id
+const findFileInTree = (items: FileItem[], id: string): FileItem | undefined => {
+  for (const item of items) {
+    if (item.id === id) return item;
+    if (item.children) {
+      const found = findFileInTree(item.children, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Structure changes need a server project to persist to
+const requireProjectId = (state: RootState): number => {
+  if (!state.editor.projectId) {
+    throw new Error("Project structure can only be changed for projects stored on the server");
+  }
+  return state.editor.projectId;
+};
+
+const joinPath = (parentPath: string, name: string) => `${parentPath}/${name}`;
+
+const isValidName = (name: string) => name.length > 0 && !name.includes("/") && name !== "." && name !== "..";
+
+// Whether anything in the tree already lives at this path
+const pathExists = (items: FileItem[], path: string): boolean =>
+  items.some((item) => item.path === path || (!!item.children && pathExists(item.children, path)));
+
+// Look up a tree item that can be changed on the server
+const requireServerItem = (items: FileItem[], id: string): FileItem & { serverId: number; path: string } => {
+  const item = findFileInTree(items, id);
+  if (item?.serverId === undefined || !item.path) {
+    throw new Error("Item not found");
+  }
+  return item as FileItem & { serverId: number; path: string };
+};
+
+// Drop items whose folder is also selected; the server handles folder contents
+const withoutNestedItems = <T extends { path: string }>(items: T[]): T[] =>
+  items.filter((item) => !items.some((other) => other !== item && item.path.startsWith(`${other.path}/`)));
+
+// Create a file or folder inside parentPath ("" for the project root)
+export const createItem = createAsyncThunk<
+  { files: FileItem[]; createdId: string },
+  { parentPath: string; name: string; type: "file" | "folder" },
+  { state: RootState }
+>("editor/createItem", async ({ parentPath, name, type }, { getState }) => {
+  const state = getState();
+  const projectId = requireProjectId(state);
+  const trimmedName = name.trim();
+
+  if (!isValidName(trimmedName)) {
+    throw new Error(`"${name}" is not a valid name`);
+  }
+
+  const path = joinPath(parentPath, trimmedName);
+  if (pathExists(state.editor.files, path)) {
+    throw new Error(`"${trimmedName}" already exists`);
+  }
+
+  const created = await createProjectFile(projectId, {
+    path,
+    content: type === "file" ? "" : null,
+    isFolder: type === "folder",
+  });
+
+  return {
+    files: await getProjectTree(projectId),
+    createdId: `${type}-${created.id}`,
+  };
+});
+
+// Rename a file or folder in place
+export const renameItem = createAsyncThunk<
+  { files: FileItem[] },
+  { id: string; name: string },
+  { state: RootState }
+>("editor/renameItem", async ({ id, name }, { getState }) => {
+  const state = getState();
+  const projectId = requireProjectId(state);
+  const item = requireServerItem(state.editor.files, id);
+  const trimmedName = name.trim();
+
+  if (!isValidName(trimmedName)) {
+    throw new Error(`"${name}" is not a valid name`);
+  }
+
+  if (trimmedName !== item.name) {
+    if (pathExists(state.editor.files, joinPath(parentPathOf(item.path), trimmedName))) {
+      throw new Error(`"${trimmedName}" already exists`);
+    }
+    await updateProjectFile(projectId, item.serverId, { name: trimmedName });
+  }
+
+  return { files: await getProjectTree(projectId) };
+});
+
+// Move files and folders into targetPath ("" for the project root)
+export const moveItems = createAsyncThunk<
+  { files: FileItem[] },
+  { ids: string[]; targetPath: string },
+  { state: RootState }
+>("editor/moveItems", async ({ ids, targetPath }, { getState }) => {
+  const state = getState();
+  const projectId = requireProjectId(state);
+  const items = withoutNestedItems(ids.map((id) => requireServerItem(state.editor.files, id)));
+
+  for (const item of items) {
+    const newPath = joinPath(targetPath, item.name);
+
+    if (newPath === item.path) continue;
+    if (targetPath === item.path || targetPath.startsWith(`${item.path}/`)) {
+      throw new Error(`Cannot move "${item.name}" into itself`);
+    }
+    if (pathExists(state.editor.files, newPath)) {
+      throw new Error(`"${item.name}" already exists in the target folder`);
+    }
+
+    await updateProjectFile(projectId, item.serverId, { path: newPath });
+  }
+
+  return { files: await getProjectTree(projectId) };
+});
+
+// Delete files and folders; the server removes everything inside the folders
+export const deleteItems = createAsyncThunk<
+  { files: FileItem[] },
+  string[],
+  { state: RootState }
+>("editor/deleteItems", async (ids, { getState }) => {
+  const state = getState();
+  const projectId = requireProjectId(state);
+  const items = withoutNestedItems(ids.map((id) => requireServerItem(state.editor.files, id)));
+
+  for (const item of items) {
+    await deleteProjectFile(projectId, item.serverId);
+  }
+
+  return { files: await getProjectTree(projectId) };
+});
+
+// Find a file in the tree by path
+const findFileByPath = (items: FileItem[], path: string): FileItem | undefined => {
+  for (const item of items) {
+    if (item.type === "file" && item.path === path) return item;
+    if (item.children) {
+      const found = findFileByPath(item.children, path);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Content of a file as the editor has it, unsaved edits included
+const currentContentOf = (state: EditorState, id: string): string | undefined =>
+  state.openFiles.find((f) => f.id === id)?.content ?? findFileInTree(state.files, id)?.content;
+
+// New content for a file; the server copy is written here unless the file is
+// open, where autosave takes care of it
+interface ContentUpdate {
+  id: string;
+  content: string;
+  updatedAt?: string;
+}
+
+const writeFileContent = async (
+  state: EditorState,
+  item: FileItem,
+  content: string
+): Promise<ContentUpdate> => {
+  if (state.openFiles.some((f) => f.id === item.id) || !state.projectId || item.serverId === undefined) {
+    return { id: item.id, content };
+  }
+  const saved = await saveProjectFile(state.projectId, item.serverId, content, item.updatedAt);
+  return { id: item.id, content, updatedAt: saved.updatedAt };
+};
+
+/**
+ * Put files back as they were before AI edits
+ * Files the edits created are deleted. Server copies written since the tree
+ * was loaded are saved over using the versions in saved.
+ */
+const revertAiEdits = async (
+  state: EditorState,
+  transaction: AiEditTransaction,
+  saved: ContentUpdate[] = []
+): Promise<{ updates: ContentUpdate[]; deleted: boolean }> => {
+  const updates: ContentUpdate[] = [];
+  let deleted = false;
+
+  for (const file of transaction.files) {
+    const item = findFileInTree(state.files, file.id);
+    if (file.before === null) {
+      const serverId = item?.serverId ?? Number(file.id.replace(/^file-/, ""));
+      await deleteProjectFile(state.projectId!, serverId);
+      deleted = true;
+    } else if (item) {
+      const updatedAt = saved.find((update) => update.id === file.id)?.updatedAt ?? item.updatedAt;
+      updates.push(await writeFileContent(state, { ...item, updatedAt }, file.before));
+    }
+  }
+
+  return { updates, deleted };
+};
+
+/**
+ * Apply reviewed AI edits to files and create the files they add, as one step
+ * that undoAiEdits reverses. Every target is checked before anything is
+ * written; if a write still fails, the ones already made are rolled back.
+ */
+export const applyAiEdits = createAsyncThunk<
+  { updates: ContentUpdate[]; files?: FileItem[]; transaction: AiEditTransaction },
+  { label: string; edits: Array<{ path: string; fileId?: string; content: string }> },
+  { state: RootState }
+>("editor/applyAiEdits", async ({ label, edits }, { getState }) => {
+  const state = getState().editor;
+
+  const targets = edits.map((edit) => {
+    const item = edit.fileId !== undefined ? findFileInTree(state.files, edit.fileId) : findFileByPath(state.files, edit.path);
+    if (!item && edit.fileId !== undefined) {
+      throw new Error(`"${edit.path}" is no longer in the project`);
+    }
+    if (!item && !state.projectId) {
+      throw new Error("New files can only be created in projects stored on the server");
+    }
+    return { ...edit, item };
+  });
+
+  const transaction: AiEditTransaction = { label, files: [] };
+  const updates: ContentUpdate[] = [];
+  let created = false;
+
+  try {
+    for (const { path, content, item } of targets) {
+      if (item) {
+        const before = currentContentOf(state, item.id) ?? "";
+        updates.push(await writeFileContent(state, item, content));
+        transaction.files.push({ id: item.id, path: item.path ?? path, before, after: content });
+      } else {
+        const file = await createProjectFile(state.projectId!, { path, content, isFolder: false });
+        created = true;
+        transaction.files.push({ id: `file-${file.id}`, path: file.path, before: null, after: content });
+      }
+    }
+  } catch (error) {
+    await revertAiEdits(state, transaction, updates).catch((rollbackError) =>
+      console.error("Error rolling back AI edits:", rollbackError));
+    throw error;
+  }
+
+  return {
+    updates,
+    files: created ? await getProjectTree(state.projectId!) : undefined,
+    transaction,
+  };
+});
+
+// Undo the most recent AI edits, unless a file has been changed since
+export const undoAiEdits = createAsyncThunk<
+  { updates: ContentUpdate[]; files?: FileItem[] },
+  void,
+  { state: RootState }
+>("editor/undoAiEdits", async (_, { getState }) => {
+  const state = getState().editor;
+  const transaction = state.lastAiEdit;
+
+  if (!transaction) {
+    throw new Error("There are no AI edits to undo");
+  }
+
+  const changed = transaction.files.find((file) => currentContentOf(state, file.id) !== file.after);
+  if (changed) {
+    throw new Error(`"${changed.path}" has changed since the AI edits were applied`);
+  }
+
+  const { updates, deleted } = await revertAiEdits(state, transaction);
+  return { updates, files: deleted ? await getProjectTree(state.projectId!) : undefined };
+});
+
+// Replace the tree after a structure change and keep open tabs in step
+const applyProjectTree = (state: EditorState, files: FileItem[]) => {
+  state.files = files;
+
+  const wasActive = state.openFiles.find((f) => f.active)?.id;
+  state.openFiles = state.openFiles.filter((f) => !f.serverId || findFileInTree(files, f.id));
+
+  state.openFiles.forEach((f) => {
+    const item = findFileInTree(files, f.id);
+    if (item) {
+      // Renames bump the server version without changing the content
+      f.name = item.name;
+      f.language = item.language;
+      f.updatedAt = item.updatedAt;
+    }
+  });
+
+  if (state.openFiles.length > 0 && !state.openFiles.some((f) => f.id === wasActive)) {
+    state.openFiles[state.openFiles.length - 1].active = true;
+  }
+};
+
+// Change a file's content in its tab and in the tree
+const setFileContent = (state: EditorState, id: string, content: string) => {
+  // Update in openFiles
+  const openFile = state.openFiles.find((f) => f.id === id);
+  if (openFile) {
+    openFile.content = content;
+    
+    // A pending conflict stays until the user resolves it
+    if (openFile.saveStatus !== "conflict" && openFile.saveStatus !== "saving") {
+      openFile.saveStatus = content === openFile.savedContent ? "saved" : "dirty";
+    }
+  }
+  
+  // Update in files
+  const treeItem = findFileInTree(state.files, id);
+  if (treeItem?.type === "file") {
+    treeItem.content = content;
+  }
+};
+
+// Take in the content changes of applied or undone AI edits
+const applyContentUpdates = (state: EditorState, updates: ContentUpdate[], files?: FileItem[]) => {
+  if (files) {
+    applyProjectTree(state, files);
+  }
+  updates.forEach(({ id, content, updatedAt }) => {
+    setFileContent(state, id, content);
+    const treeItem = findFileInTree(state.files, id);
+    if (treeItem && updatedAt) {
+      treeItem.updatedAt = updatedAt;
+    }
+  });
+};
+
 export const editorSlice = createSlice({
   name: "editor",
   initialState,
@@ -192,7 +658,7 @@ export const editorSlice = createSlice({
       if (existingFileIndex !== -1) {
         // If file is already open, just set it to active
         state.openFiles[existingFileIndex].active = true;
-      } else if (file.type === "file" && file.content) {
+      } else if (file.type === "file" && file.content !== undefined) {
         // Add new file to openFiles
         state.openFiles.push({
           id: file.id,
@@ -200,6 +666,10 @@ export const editorSlice = createSlice({
           content: file.content,
           language: file.language,
           active: true,
+          serverId: file.serverId,
+          updatedAt: file.updatedAt,
+          savedContent: file.content,
+          saveStatus: "saved",
         });
       }
     },
@@ -234,35 +704,106 @@ export const editorSlice = createSlice({
       state,
       action: PayloadAction<{ id: string; content: string }>
     ) => {
-      const { id, content } = action.payload;
+      setFileContent(state, action.payload.id, action.payload.content);
+    },
+    
+    resolveConflict: (
+      state,
+      action: PayloadAction<{ id: string; resolution: "local" | "server" }>
+    ) => {
+      const { id, resolution } = action.payload;
+      const file = state.openFiles.find((f) => f.id === id);
+      
+      if (!file?.conflict) return;
+      
+      // Either way the server version becomes the new base
+      file.updatedAt = file.conflict.updatedAt;
       
-      // Update in openFiles
-      const openFileIndex = state.openFiles.findIndex((f) => f.id === id);
-      if (openFileIndex !== -1) {
-        state.openFiles[openFileIndex].content = content;
+      if (resolution === "server") {
+        file.content = file.conflict.content;
+        file.savedContent = file.conflict.content;
+        file.saveStatus = "saved";
+      } else {
+        file.savedContent = file.conflict.content;
+        file.saveStatus = file.content === file.savedContent ? "saved" : "dirty";
       }
       
-      // Update in files (recursively)
-      const updateFileContentInTree = (items: FileItem[]): boolean => {
-        for (let i = 0; i < items.length; i++) {
-          const item = items[i];
-          
-          if (item.id === id && item.type === "file") {
-            item.content = content;
-            return true;
-          }
-          
-          if (item.children && updateFileContentInTree(item.children)) {
-            return true;
-          }
-        }
-        
-        return false;
-      };
+      const treeItem = findFileInTree(state.files, id);
+      if (treeItem) {
+        treeItem.content = file.content;
+        treeItem.updatedAt = file.updatedAt;
+      }
       
-      updateFileContentInTree(state.files);
+      file.conflict = undefined;
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadWorkspace.pending, (state) => {
+        state.projectStatus = "loading";
+      })
+      .addCase(loadWorkspace.fulfilled, (state, action) => {
+        state.projectId = action.payload.projectId;
+        state.files = action.payload.files;
+        state.openFiles = [];
+        state.projectStatus = "ready";
+        state.lastAiEdit = null;
+      })
+      .addCase(loadWorkspace.rejected, (state) => {
+        // Without a server project, edits stay local to this session
+        state.projectId = null;
+        state.files = sampleProjectStructure;
+        state.projectStatus = "offline";
+      })
+      .addCase(saveFile.pending, (state, action) => {
+        const file = state.openFiles.find((f) => f.id === action.meta.arg);
+        if (file) {
+          file.saveStatus = "saving";
+        }
+      })
+      .addCase(saveFile.fulfilled, (state, action) => {
+        const file = state.openFiles.find((f) => f.id === action.meta.arg);
+        if (!file) return;
+        
+        file.savedContent = action.payload.content ?? "";
+        file.updatedAt = action.payload.updatedAt;
+        // Keep typing while a save is in flight marks the file dirty again
+        file.saveStatus = file.content === file.savedContent ? "saved" : "dirty";
+        
+        const treeItem = findFileInTree(state.files, file.id);
+        if (treeItem) {
+          treeItem.updatedAt = file.updatedAt;
+        }
+      })
+      .addCase(saveFile.rejected, (state, action) => {
+        const file = state.openFiles.find((f) => f.id === action.meta.arg);
+        if (!file) return;
+        
+        if (action.payload?.conflict) {
+          file.saveStatus = "conflict";
+          file.conflict = {
+            content: action.payload.conflict.content ?? "",
+            updatedAt: action.payload.conflict.updatedAt,
+          };
+        } else {
+          file.saveStatus = "error";
+        }
+      })
+      .addCase(applyAiEdits.fulfilled, (state, action) => {
+        applyContentUpdates(state, action.payload.updates, action.payload.files);
+        state.lastAiEdit = action.payload.transaction;
+      })
+      .addCase(undoAiEdits.fulfilled, (state, action) => {
+        applyContentUpdates(state, action.payload.updates, action.payload.files);
+        state.lastAiEdit = null;
+      })
+      .addMatcher(
+        isAnyOf(createItem.fulfilled, renameItem.fulfilled, moveItems.fulfilled, deleteItems.fulfilled),
+        (state, action) => {
+          applyProjectTree(state, action.payload.files);
+        }
+      );
+  },
 });
 
 export const {
@@ -272,6 +813,7 @@ export const {
   closeFile,
   setActiveFile,
   updateFileContent,
+  resolveConflict,
 } = editorSlice.actions;
 
 // Selectors
@@ -279,5 +821,8 @@ export const selectFiles = (state: RootState) => state.editor.files;
 export const selectOpenFiles = (state: RootState) => state.editor.openFiles;
 export const selectActiveFile = (state: RootState) =>
   state.editor.openFiles.find((file) => file.active);
+export const selectProjectId = (state: RootState) => state.editor.projectId;
+export const selectProjectStatus = (state: RootState) => state.editor.projectStatus;
+export const selectLastAiEdit = (state: RootState) => state.editor.lastAiEdit;
 
 export default editorSlice.reducer;
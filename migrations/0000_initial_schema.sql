@@ -0,0 +1,98 @@
+CREATE TABLE "cicd_pipelines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"provider" text DEFAULT 'azure_devops' NOT NULL,
+	"status" text DEFAULT 'inactive' NOT NULL,
+	"configuration" jsonb,
+	"last_run" timestamp,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "code_snippets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"code" text NOT NULL,
+	"language" text NOT NULL,
+	"vanity_url" text,
+	"views" integer DEFAULT 0,
+	"complexity" integer DEFAULT 1,
+	"mood" text DEFAULT 'neutral',
+	"is_public" boolean DEFAULT true,
+	"expires_at" timestamp,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL,
+	CONSTRAINT "code_snippets_vanity_url_unique" UNIQUE("vanity_url")
+);
+--> statement-breakpoint
+CREATE TABLE "collaboration_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"host_user_id" integer NOT NULL,
+	"session_key" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL,
+	CONSTRAINT "collaboration_sessions_session_key_unique" UNIQUE("session_key")
+);
+--> statement-breakpoint
+CREATE TABLE "deployments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"resource_group" text,
+	"region" text,
+	"service_name" text,
+	"service_type" text,
+	"deployment_url" text,
+	"deployment_details" jsonb,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"path" text NOT NULL,
+	"content" text,
+	"project_id" integer NOT NULL,
+	"is_folder" boolean NOT NULL,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "git_repositories" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"url" text NOT NULL,
+	"provider" text NOT NULL,
+	"branch" text DEFAULT 'main' NOT NULL,
+	"last_synced" timestamp,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"user_id" integer NOT NULL,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"full_name" text,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
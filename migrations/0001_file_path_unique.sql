@@ -0,0 +1 @@
+ALTER TABLE "files" ADD CONSTRAINT "files_project_path_unique" UNIQUE("project_id","path");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "code_snippet_views" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"snippet_id" integer NOT NULL,
+	"viewer_key" text NOT NULL,
+	"created_at" text NOT NULL,
+	CONSTRAINT "code_snippet_views_viewer_unique" UNIQUE("snippet_id","viewer_key")
+);
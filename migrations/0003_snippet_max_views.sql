@@ -0,0 +1 @@
+ALTER TABLE "code_snippets" ADD COLUMN "max_views" integer;
\ No newline at end of file
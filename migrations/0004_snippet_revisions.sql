@@ -0,0 +1,13 @@
+CREATE TABLE "code_snippet_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"snippet_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"code" text NOT NULL,
+	"language" text NOT NULL,
+	"created_at" text NOT NULL,
+	CONSTRAINT "code_snippet_revisions_revision_unique" UNIQUE("snippet_id","revision")
+);
+--> statement-breakpoint
+ALTER TABLE "code_snippets" ADD COLUMN "forked_from_id" integer;
\ No newline at end of file
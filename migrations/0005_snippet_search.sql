@@ -0,0 +1,16 @@
+CREATE TABLE "code_snippet_search" (
+	"snippet_id" integer PRIMARY KEY NOT NULL,
+	"document" "tsvector" NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "code_snippets" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+CREATE INDEX "code_snippet_search_document_idx" ON "code_snippet_search" USING gin ("document");--> statement-breakpoint
+CREATE INDEX "code_snippets_tags_idx" ON "code_snippets" USING gin ("tags");--> statement-breakpoint
+-- Index snippets shared before search existed; the app rewrites these with its own tokenizer on their next edit
+INSERT INTO "code_snippet_search" ("snippet_id", "document")
+SELECT "id",
+	setweight(to_tsvector('simple', "title"), 'A') ||
+	setweight(to_tsvector('simple', coalesce("description", '')), 'B') ||
+	setweight(to_tsvector('simple', "language" || ' ' || coalesce("mood", '')), 'C') ||
+	setweight(to_tsvector('simple', "code"), 'D')
+FROM "code_snippets";
@@ -0,0 +1,9 @@
+CREATE TABLE "code_snippet_feedback" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"snippet_id" integer NOT NULL,
+	"helpful" boolean NOT NULL,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL,
+	CONSTRAINT "code_snippet_feedback_user_unique" UNIQUE("snippet_id","user_id")
+);
@@ -0,0 +1,14 @@
+CREATE TABLE "ai_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"feature" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"cost_micros" integer NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ai_usage_user_created_idx" ON "ai_usage" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * Session-based authentication
+ * Sets up express-session and Passport's local strategy, and provides the
+ * middleware API routes use to resolve the signed-in user
+ */
+
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import { randomBytes } from "crypto";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { storage } from "./storage";
+import { verifyPassword } from "./password";
+import type { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Identifies anonymous visitors, e.g. so shared snippet views are counted once
+    viewerId?: string;
+  }
+}
+
+// User fields that are safe to send to the client
+export type PublicUser = Omit<SelectUser, "password">;
+
+/**
+ * Strip the password hash from a user before returning it
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    fullName: user.fullName,
+  };
+}
+
+// Resolves the signed-in user of a request that bypasses Express, such as a WebSocket upgrade
+export type UpgradeAuthenticator = (req: IncomingMessage) => Promise<Express.User | undefined>;
+
+/**
+ * Install session handling and Passport on the app
+ * Returns a function that reads the same session from WebSocket upgrade
+ * requests, which never pass through the app's middleware.
+ */
+export function setupAuth(app: Express): UpgradeAuthenticator {
+  let secret = process.env.SESSION_SECRET;
+
+  if (!secret) {
+    if (app.get("env") === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+
+    // Sessions will not survive a restart, which is fine for development
+    console.warn("SESSION_SECRET is not set; using a random development secret");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  const sessionParser = session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  });
+  const passportInitialize = passport.initialize();
+  const passportSession = passport.session();
+  app.use(sessionParser);
+  app.use(passportInitialize);
+  app.use(passportSession);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Run the session middleware on a bare request; nothing is written to the response
+  const run = (handler: RequestHandler, req: IncomingMessage) =>
+    new Promise<void>((resolve, reject) => {
+      handler(req as Request, {} as Response, (error?: unknown) => (error ? reject(error) : resolve()));
+    });
+
+  return async (req) => {
+    await run(sessionParser, req);
+    await run(passportInitialize, req);
+    await run(passportSession, req);
+    return (req as Request).user;
+  };
+}
+
+/**
+ * Reject requests that do not carry a valid session
+ * Routes behind this middleware can rely on req.user being set
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  next();
+}
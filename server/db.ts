@@ -0,0 +1,41 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDatabase>;
+
+let pool: Pool | undefined;
+let database: Database | undefined;
+
+function createDatabase(client: Pool) {
+  return drizzle({ client, schema });
+}
+
+/**
+ * Get the shared connection pool, connecting on first use
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set to use the database storage backend");
+    }
+
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  }
+
+  return pool;
+}
+
+/**
+ * Get the shared Drizzle client
+ */
+export function getDb(): Database {
+  if (!database) {
+    database = createDatabase(getPool());
+  }
+
+  return database;
+}
@@ -1,17 +1,52 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
+import passport from "passport";
 import { storage } from "./storage";
-import { WebSocketServer } from "ws";
+import { setupAuth, requireAuth, toPublicUser } from "./auth";
+import { hashPassword } from "./password";
+import { WebSocketServer, WebSocket } from "ws";
+import { nanoid } from "nanoid";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertUserSchema } from "@shared/schema";
-import { executeCodeInContainer } from "./services/container";
+import { insertUserSchema, insertProjectSchema, insertFileSchema, insertCodeSnippetSchema } from "@shared/schema";
+import { parentPathOf } from "@shared/file-tree";
+import { AI_PROVIDER_HEADER } from "@shared/ai-providers";
+import { AI_FEATURE_HEADER, isAiFeature } from "@shared/ai-usage";
+import type { ContextSource } from "@shared/project-context";
+import { MAX_SEARCH_PAGE_SIZE, MAX_SNIPPET_TAGS, SNIPPET_TAG_PATTERN, normalizeTag } from "@shared/snippet-search";
+import { executeCodeInContainer, startContainerExecution, type ContainerExecution } from "./services/container";
+import { createTerminalSession, getTerminalUnavailableReason, type TerminalSession } from "./services/terminal";
+import { FileTreeError, createEntry, moveEntry, deleteEntry, getProjectTree } from "./services/file-tree";
+import { SnippetError, claimVanityUrl, forkSnippet, getSharedSnippetRevisions, getViewableSnippet, isSnippetExpired, measureSnippetComplexity, viewSharedSnippet } from "./services/snippets";
+import { recommendSnippets } from "./services/snippet-recommendations";
+import { ComplexityError, analyzeComplexity } from "./services/complexity";
+import { buildOEmbedResponse, escapeHtml, parseEmbedTheme, parseLineRange, renderSnippetEmbed } from "./services/snippet-embed";
+import { startSnippetReaper } from "./services/snippet-reaper";
+import { MAX_ARCHIVE_BYTES, ProjectArchiveError, archiveFolderName, importProjectArchive, writeProjectArchive } from "./services/project-archive";
 import { azureAuthenticate, azureDeploy, azureGetResources } from "./services/azure";
-import { aiGenerateCode, aiGenerateContextAwareCode, aiCompleteSuggestions, aiExplainCode, aiDebugCode, aiGenerateChatResponse } from "./services/openai";
+import { AiProviderError, getAiProvider, listAiProviders } from "./services/ai-provider";
+import { ConversationError, MAX_CONVERSATION_TITLE_LENGTH, createConversation, getOwnedConversation, streamConversationReply } from "./services/ai-conversations";
+import { AiQuotaError, checkAiQuota, getAiUsageReport } from "./services/ai-usage";
+import { ProjectContextError, retrieveProjectContext } from "./services/project-context";
+import { proposeCodeInsertion, proposeFileChanges } from "./services/ai-edits";
+import { aiGenerateCode, aiGenerateContextAwareCode, aiCompleteSuggestions, aiExplainCode, aiDebugCode, aiGenerateChatResponse, aiStreamChatResponse, aiStreamCode, aiStreamExplanation, type AiRequestOptions } from "./services/openai";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const authenticateUpgrade = setupAuth(app);
+  
   const httpServer = createServer(app);
   
+  // Purge expired snippets for as long as the server runs
+  const snippetReaper = startSnippetReaper();
+  httpServer.on("close", () => snippetReaper.stop());
+  
+  // Shells one socket, and one user across all their sockets, may keep open at once
+  const MAX_TERMINAL_SESSIONS_PER_SOCKET = 5;
+  const MAX_TERMINAL_SESSIONS_PER_USER = 10;
+  
+  // Open shells by user id
+  const terminalSessionsByUser = new Map<number, number>();
+  
   // WebSocket server for terminal and real-time collaboration
   const wss = new WebSocketServer({ 
     server: httpServer,
@@ -19,39 +54,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     perMessageDeflate: false,
     clientTracking: true,
     verifyClient: (info, callback) => {
-      const origin = info.origin;
-      // Allow connections from our server URL or the current host
-      const allowedOrigins = [process.env.SERVER_URL, info.req.headers.host];
-      callback(allowedOrigins.includes(origin));
+      // Allow connections from our server URL or pages served by this host
+      let originHost: string | undefined;
+      try {
+        originHost = new URL(info.origin).host;
+      } catch {
+        originHost = undefined;
+      }
+      if (info.origin !== process.env.SERVER_URL && (!originHost || originHost !== info.req.headers.host)) {
+        return callback(false, 403);
+      }
+      
+      // The socket runs code and opens shells, so it needs a signed-in session like /api/execute
+      authenticateUpgrade(info.req)
+        .then((user) => (user ? callback(true) : callback(false, 401)))
+        .catch((error) => {
+          console.error("WebSocket authentication failed:", error);
+          callback(false, 500);
+        });
     }
   });
 
   // WebSocket connection handler
-  wss.on("connection", (ws) => {
-    console.log("WebSocket client connected");
+  wss.on("connection", (ws, req) => {
+    // verifyClient only lets signed-in sessions through
+    const userId = (req as Request).user!.id;
+    console.log(`WebSocket client connected for user ${userId}`);
+    
+    // Executions started from this socket, keyed by execution id
+    const executions = new Map<string, ContainerExecution>();
+    
+    // Interactive shell sessions opened from this socket, keyed by terminal tab id
+    const terminalSessions = new Map<string, TerminalSession>();
+    
+    // Forget a shell, releasing its place in the user's allowance
+    const removeTerminalSession = (sessionId: string) => {
+      if (!terminalSessions.delete(sessionId)) return;
+      
+      const remaining = (terminalSessionsByUser.get(userId) ?? 1) - 1;
+      if (remaining > 0) {
+        terminalSessionsByUser.set(userId, remaining);
+      } else {
+        terminalSessionsByUser.delete(userId);
+      }
+    };
+    
+    const send = (payload: Record<string, unknown>) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(payload));
+      }
+    };
     
     ws.on("message", async (message) => {
       try {
         const data = JSON.parse(message.toString());
         
         if (data.type === "terminal-command") {
-          // Execute command in container and return output
-          const output = await executeCodeInContainer(data.command, data.language);
-          ws.send(JSON.stringify({ type: "terminal-output", output }));
+          // Execute command in container and stream its output back
+          const execution = startContainerExecution(data.command, data.language, data.options || {}, {
+            onOutput: (stream, output) => {
+              send({ type: "terminal-output", executionId: execution.id, stream, output });
+            },
+          });
+          
+          executions.set(execution.id, execution);
+          send({ type: "terminal-started", executionId: execution.id });
+          
+          const result = await execution.result;
+          executions.delete(execution.id);
+          send({
+            type: "terminal-exit",
+            executionId: execution.id,
+            exitCode: result.exitCode,
+            executionTime: result.executionTime,
+            memoryUsage: result.memoryUsage,
+          });
+        } else if (data.type === "terminal-stdin") {
+          const execution = executions.get(data.executionId);
+          
+          if (!execution) {
+            send({ type: "error", message: "Execution not found" });
+          } else if (data.eof) {
+            execution.closeInput();
+          } else {
+            execution.writeInput(String(data.input ?? ""));
+          }
+        } else if (data.type === "terminal-kill") {
+          const execution = executions.get(data.executionId);
+          
+          if (!execution) {
+            send({ type: "error", message: "Execution not found" });
+          } else {
+            execution.kill();
+          }
+        } else if (data.type === "terminal-session-create") {
+          const sessionId = String(data.sessionId || "");
+          
+          if (!sessionId) {
+            send({ type: "error", message: "Session id is required" });
+          } else if (terminalSessions.has(sessionId)) {
+            send({ type: "terminal-session-created", sessionId });
+          } else if (terminalSessions.size >= MAX_TERMINAL_SESSIONS_PER_SOCKET) {
+            send({ type: "terminal-session-exit", sessionId, exitCode: 1, reason: `At most ${MAX_TERMINAL_SESSIONS_PER_SOCKET} terminals can be open at once` });
+          } else if ((terminalSessionsByUser.get(userId) ?? 0) >= MAX_TERMINAL_SESSIONS_PER_USER) {
+            send({ type: "terminal-session-exit", sessionId, exitCode: 1, reason: `At most ${MAX_TERMINAL_SESSIONS_PER_USER} terminals can be open at once across all your windows` });
+          } else if (getTerminalUnavailableReason()) {
+            send({ type: "terminal-session-exit", sessionId, exitCode: 1, reason: getTerminalUnavailableReason() });
+          } else {
+            const session = createTerminalSession(sessionId, {
+              cols: data.cols,
+              rows: data.rows,
+              onData: (output) => send({ type: "terminal-session-output", sessionId, output }),
+              onExit: (exitCode) => {
+                if (terminalSessions.get(sessionId) === session) {
+                  removeTerminalSession(sessionId);
+                }
+                send({ type: "terminal-session-exit", sessionId, exitCode });
+              },
+            });
+            
+            terminalSessions.set(sessionId, session);
+            terminalSessionsByUser.set(userId, (terminalSessionsByUser.get(userId) ?? 0) + 1);
+            send({ type: "terminal-session-created", sessionId });
+          }
+        } else if (data.type === "terminal-session-input") {
+          terminalSessions.get(data.sessionId)?.write(String(data.input ?? ""));
+        } else if (data.type === "terminal-session-resize") {
+          terminalSessions.get(data.sessionId)?.resize(data.cols, data.rows);
+        } else if (data.type === "terminal-session-close") {
+          terminalSessions.get(data.sessionId)?.close();
+          removeTerminalSession(data.sessionId);
         }
       } catch (error) {
         console.error("WebSocket error:", error);
-        ws.send(JSON.stringify({ type: "error", message: "Error processing message" }));
+        send({ type: "error", message: "Error processing message" });
       }
     });
     
     ws.on("close", () => {
       console.log("WebSocket client disconnected");
+      
+      // Nobody is left to read the output, so stop whatever is still running
+      executions.forEach((execution) => execution.kill());
+      executions.clear();
+      Array.from(terminalSessions.entries()).forEach(([sessionId, session]) => {
+        session.close();
+        removeTerminalSession(sessionId);
+      });
     });
   });
 
   // User routes
-  app.post("/api/users/register", async (req: Request, res: Response) => {
+  app.post("/api/users/register", async (req: Request, res: Response, next: NextFunction) => {
     try {
       const userSchema = insertUserSchema.extend({
         confirmPassword: z.string(),
@@ -61,18 +215,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const userData = userSchema.parse(req.body);
+      
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      
       const user = await storage.createUser({
         username: userData.username,
-        password: userData.password,
+        password: await hashPassword(userData.password),
         email: userData.email || "",
         fullName: userData.fullName || "",
       });
       
-      res.status(201).json({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        fullName: user.fullName,
+      // Sign the new user in straight away
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -83,56 +241,639 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/login", async (req: Request, res: Response) => {
+  app.post("/api/users/login", (req: Request, res: Response, next: NextFunction) => {
+    const { username, password } = req.body;
+    
+    if (!username || !password) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+    
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        return res.status(500).json({ message: "Login failed" });
+      }
+      
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/users/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/users/me", requireAuth, (req: Request, res: Response) => {
+    res.status(200).json(toPublicUser(req.user!));
+  });
+
+  // Load a project and make sure it belongs to the signed-in user
+  const getOwnedProject = async (req: Request, res: Response) => {
+    const projectId = Number(req.params.id);
+    const project = Number.isInteger(projectId) ? await storage.getProject(projectId) : undefined;
+    
+    if (!project || project.userId !== req.user!.id) {
+      res.status(404).json({ message: "Project not found" });
+      return undefined;
+    }
+    
+    return project;
+  };
+
+  // Load a file from an owned project
+  const getOwnedFile = async (req: Request, res: Response) => {
+    const project = await getOwnedProject(req, res);
+    if (!project) return undefined;
+    
+    const fileId = Number(req.params.fileId);
+    const file = Number.isInteger(fileId) ? await storage.getFile(fileId) : undefined;
+    
+    if (!file || file.projectId !== project.id) {
+      res.status(404).json({ message: "File not found" });
+      return undefined;
+    }
+    
+    return file;
+  };
+
+  const projectBodySchema = insertProjectSchema.omit({ userId: true });
+  const fileBodySchema = insertFileSchema.omit({ projectId: true });
+  const createFileBodySchema = fileBodySchema.partial({ name: true, content: true });
+
+  // Report a failed file operation, mapping tree and validation errors to client errors
+  const sendFileError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: "Validation error", errors: error.errors });
+    } else if (error instanceof FileTreeError) {
+      res.status(error.status).json({ message: error.message });
+    } else if ((error as { code?: string })?.code === "23505") {
+      // Unique (project_id, path) violation from a concurrent request
+      res.status(409).json({ message: "A file already exists at that path" });
+    } else {
+      res.status(500).json({ message, error: String(error) });
+    }
+  };
+
+  // Project routes
+  app.get("/api/projects", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const projects = await storage.getProjectsByUserId(req.user!.id);
+      res.status(200).json(projects);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch projects", error: String(error) });
+    }
+  });
+
+  app.post("/api/projects", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const projectData = projectBodySchema.parse(req.body);
+      const project = await storage.createProject({ ...projectData, userId: req.user!.id });
+      res.status(201).json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Validation error", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create project", error: String(error) });
+      }
+    }
+  });
+
+  app.post(
+    "/api/projects/import",
+    requireAuth,
+    express.raw({ type: ["application/zip", "application/x-zip-compressed", "application/octet-stream"], limit: MAX_ARCHIVE_BYTES }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload a zip archive as the request body" });
+        }
+        
+        const name = typeof req.query.name === "string" ? req.query.name : undefined;
+        const result = await importProjectArchive(req.user!.id, req.body, name);
+        
+        res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof ProjectArchiveError) {
+          res.status(error.status).json({ message: error.message });
+        } else {
+          res.status(500).json({ message: "Failed to import project", error: String(error) });
+        }
+      }
+    },
+  );
+
+  app.get("/api/projects/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
+      
+      res.status(200).json(project);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project", error: String(error) });
+    }
+  });
+
+  app.patch("/api/projects/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { username, password } = req.body;
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
       
-      if (!username || !password) {
-        return res.status(400).json({ message: "Username and password are required" });
+      const projectData = projectBodySchema.partial().parse(req.body);
+      const updatedProject = await storage.updateProject(project.id, projectData);
+      res.status(200).json(updatedProject);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Validation error", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update project", error: String(error) });
       }
+    }
+  });
+
+  app.delete("/api/projects/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
       
-      const user = await storage.getUserByUsername(username);
+      // Storage removes the project's files along with it
+      await storage.deleteProject(project.id);
       
-      if (!user || user.password !== password) {
-        return res.status(401).json({ message: "Invalid username or password" });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete project", error: String(error) });
+    }
+  });
+
+  app.get("/api/projects/:id/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
+      
+      res.status(200);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${archiveFolderName(project.name)}.zip"`);
+      
+      await writeProjectArchive(project, (chunk) => res.write(chunk));
+      res.end();
+    } catch (error) {
+      // Once streaming has started the status line is gone; just cut the download short
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        res.status(500).json({ message: "Failed to export project", error: String(error) });
+      }
+    }
+  });
+
+  // Project file routes
+  app.get("/api/projects/:id/files", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
+      
+      const files = await storage.getFilesByProjectId(project.id);
+      res.status(200).json(files);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch files", error: String(error) });
+    }
+  });
+
+  app.post("/api/projects/:id/files", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
+      
+      // The name always follows from the path; parent folders are created as needed
+      const fileData = createFileBodySchema.parse(req.body);
+      const file = await createEntry(project.id, fileData);
+      await storage.updateProject(project.id, {});
+      
+      res.status(201).json(file);
+    } catch (error) {
+      sendFileError(res, error, "Failed to create file");
+    }
+  });
+
+  app.get("/api/projects/:id/tree", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const project = await getOwnedProject(req, res);
+      if (!project) return;
+      
+      const tree = await getProjectTree(project.id);
+      res.status(200).json(tree);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch file tree", error: String(error) });
+    }
+  });
+
+  app.get("/api/projects/:id/files/:fileId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const file = await getOwnedFile(req, res);
+      if (!file) return;
+      
+      res.status(200).json(file);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch file", error: String(error) });
+    }
+  });
+
+  app.patch("/api/projects/:id/files/:fileId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const file = await getOwnedFile(req, res);
+      if (!file) return;
+      
+      const { baseUpdatedAt, name, path, content } = fileBodySchema.partial().extend({
+        baseUpdatedAt: z.string().optional(),
+      }).parse(req.body);
+      
+      // Clients send the version they edited so concurrent edits are not silently lost
+      if (baseUpdatedAt && baseUpdatedAt !== file.updatedAt) {
+        return res.status(409).json({ message: "File was changed on the server", file });
       }
       
-      // In a real app, you would use proper authentication with sessions/JWT
-      res.status(200).json({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        fullName: user.fullName,
+      // A new name renames in place; a new path moves the entry and, for folders, its contents
+      if (name !== undefined && /[\\/]/.test(name)) {
+        return res.status(400).json({ message: "File names cannot contain slashes" });
+      }
+      
+      let updatedFile = file;
+      const targetPath = path ?? (name !== undefined ? `${parentPathOf(file.path)}/${name}` : undefined);
+      if (targetPath !== undefined) {
+        updatedFile = await moveEntry(file, targetPath);
+      }
+      
+      if (content !== undefined && !file.isFolder) {
+        updatedFile = (await storage.updateFile(file.id, { content })) ?? updatedFile;
+      }
+      
+      await storage.updateProject(file.projectId, {});
+      
+      res.status(200).json(updatedFile);
+    } catch (error) {
+      sendFileError(res, error, "Failed to update file");
+    }
+  });
+
+  app.delete("/api/projects/:id/files/:fileId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const file = await getOwnedFile(req, res);
+      if (!file) return;
+      
+      // Deleting a folder removes everything inside it
+      await deleteEntry(file);
+      await storage.updateProject(file.projectId, {});
+      
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete file", error: String(error) });
+    }
+  });
+
+  // Load a snippet and make sure it belongs to the signed-in user
+  const getOwnedSnippet = async (req: Request, res: Response) => {
+    const snippetId = Number(req.params.id);
+    const snippet = Number.isInteger(snippetId) ? await storage.getCodeSnippet(snippetId) : undefined;
+    
+    if (!snippet || snippet.userId !== req.user!.id) {
+      res.status(404).json({ message: "Snippet not found" });
+      return undefined;
+    }
+    
+    return snippet;
+  };
+
+  const snippetBodySchema = insertCodeSnippetSchema.omit({ userId: true, forkedFromId: true }).extend({
+    vanityUrl: z.string().min(3).max(64).regex(/^[a-zA-Z0-9_-]+$/, {
+      message: "Vanity URL can only contain letters, numbers, hyphens, and underscores",
+    }).nullish(),
+    complexity: z.number().int().min(1).max(5).optional(),
+    expiresAt: z.coerce.date().nullish(),
+    maxViews: z.number().int().min(1).max(1000000).nullish(),
+    tags: z.array(z.string().transform(normalizeTag).pipe(z.string().regex(SNIPPET_TAG_PATTERN, {
+      message: "Tags can only contain letters, numbers, and - + # . characters, up to 32 long",
+    }))).max(MAX_SNIPPET_TAGS).transform((tags) => Array.from(new Set(tags))).optional(),
+  });
+
+  // Report a failed snippet operation, mapping sharing and validation errors to client errors
+  const sendSnippetError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: "Validation error", errors: error.errors });
+    } else if (error instanceof SnippetError) {
+      res.status(error.status).json({ message: error.message, ...error.details });
+    } else {
+      res.status(500).json({ message, error: String(error) });
+    }
+  };
+
+  // Snippet routes
+  app.get("/api/snippets", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snippets = await storage.getCodeSnippetsByUserId(req.user!.id);
+      res.status(200).json(snippets);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch snippets", error: String(error) });
+    }
+  });
+
+  // Search is open to everyone; signed-in users also find their own private snippets
+  app.get("/api/snippets/search", async (req: Request, res: Response) => {
+    try {
+      const params = z.object({
+        q: z.string().max(200).optional(),
+        language: z.string().optional(),
+        mood: z.string().optional(),
+        tags: z.string().optional(),
+        page: z.coerce.number().int().min(1).default(1),
+        pageSize: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(20),
+      }).parse(req.query);
+      
+      const results = await storage.searchCodeSnippets({
+        query: params.q,
+        language: params.language || undefined,
+        mood: params.mood || undefined,
+        tags: params.tags ? params.tags.split(",").map(normalizeTag).filter(Boolean) : undefined,
+        page: params.page,
+        pageSize: params.pageSize,
+        viewerId: req.user?.id,
       });
+      
+      res.status(200).json(results);
     } catch (error) {
-      res.status(500).json({ message: "Login failed" });
+      sendSnippetError(res, error, "Failed to search snippets");
+    }
+  });
+
+  // Snippets related to the file open in the editor
+  app.post("/api/snippets/recommendations", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = z.object({
+        language: z.string().min(1),
+        code: z.string(),
+        fileName: z.string().optional(),
+        savedSnippetIds: z.array(z.number().int()).max(200).optional(),
+        limit: z.number().int().min(1).max(20).optional(),
+      }).parse(req.body);
+      
+      const recommendations = await recommendSnippets(req.user!.id, request);
+      res.status(200).json(recommendations);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to recommend snippets");
+    }
+  });
+
+  // Thumbs up or down on a recommended snippet; voting again replaces the earlier vote
+  app.put("/api/snippets/:id/feedback", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { helpful } = z.object({ helpful: z.boolean() }).parse(req.body);
+      const snippetId = Number(req.params.id);
+      const snippet = Number.isInteger(snippetId) ? await storage.getCodeSnippet(snippetId) : undefined;
+      
+      if (!snippet || (!snippet.isPublic && snippet.userId !== req.user!.id) || isSnippetExpired(snippet)) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      
+      await storage.setCodeSnippetFeedback(req.user!.id, snippet.id, helpful);
+      res.sendStatus(204);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to save feedback");
+    }
+  });
+
+  app.post("/api/snippets", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snippetData = snippetBodySchema.parse(req.body);
+      const vanityUrl = await claimVanityUrl(snippetData.vanityUrl);
+      // Measured complexity wins; the submitted value is kept for languages we cannot analyze
+      const complexity = await measureSnippetComplexity(snippetData.code, snippetData.language) ?? snippetData.complexity;
+      const snippet = await storage.createCodeSnippet({ ...snippetData, complexity, vanityUrl, userId: req.user!.id });
+      
+      res.status(201).json(snippet);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to create snippet");
+    }
+  });
+
+  app.get("/api/snippets/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snippet = await getOwnedSnippet(req, res);
+      if (!snippet) return;
+      
+      res.status(200).json(snippet);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch snippet", error: String(error) });
+    }
+  });
+
+  app.patch("/api/snippets/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snippet = await getOwnedSnippet(req, res);
+      if (!snippet) return;
+      
+      const snippetData = snippetBodySchema.partial().parse(req.body);
+      if (snippetData.vanityUrl !== undefined) {
+        snippetData.vanityUrl = await claimVanityUrl(snippetData.vanityUrl, snippet.id);
+      }
+      
+      if (snippetData.code !== undefined || snippetData.language !== undefined) {
+        const complexity = await measureSnippetComplexity(
+          snippetData.code ?? snippet.code,
+          snippetData.language ?? snippet.language
+        );
+        if (complexity !== undefined) {
+          snippetData.complexity = complexity;
+        }
+      }
+      
+      const updatedSnippet = await storage.updateCodeSnippet(snippet.id, snippetData);
+      res.status(200).json(updatedSnippet);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to update snippet");
+    }
+  });
+
+  app.delete("/api/snippets/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snippet = await getOwnedSnippet(req, res);
+      if (!snippet) return;
+      
+      await storage.deleteCodeSnippet(snippet.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete snippet", error: String(error) });
+    }
+  });
+
+  // Shared snippets are readable without signing in
+  app.get("/api/s/:vanityUrl", async (req: Request, res: Response) => {
+    try {
+      // Anonymous viewers get a session id so reloading the page does not count again
+      if (!req.user && !req.session.viewerId) {
+        req.session.viewerId = nanoid();
+      }
+      
+      const snippet = await viewSharedSnippet(req.params.vanityUrl, {
+        userId: req.user?.id,
+        viewerKey: req.user ? `user:${req.user.id}` : `session:${req.session.viewerId}`,
+      });
+      
+      res.status(200).json(snippet);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to fetch snippet");
+    }
+  });
+
+  app.get("/api/s/:vanityUrl/revisions", async (req: Request, res: Response) => {
+    try {
+      const revisions = await getSharedSnippetRevisions(req.params.vanityUrl, req.user?.id);
+      res.status(200).json(revisions);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to fetch snippet revisions");
+    }
+  });
+
+  app.post("/api/s/:vanityUrl/fork", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snippet = await forkSnippet(req.params.vanityUrl, req.user!.id);
+      res.status(201).json(snippet);
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to fork snippet");
+    }
+  });
+
+  // Absolute URL of this server as seen by the client
+  const getBaseUrl = (req: Request) => `${req.protocol}://${req.get("host")}`;
+
+  // Look up a snippet that may be embedded; burn-after-reading snippets would lose their limit
+  const getEmbeddableSnippet = async (vanityUrl: string, userId?: number) => {
+    const snippet = await getViewableSnippet(vanityUrl, userId);
+    if (snippet.maxViews) {
+      throw new SnippetError("This snippet cannot be embedded", 403);
+    }
+    return snippet;
+  };
+
+  // Advertise the oEmbed endpoint so link unfurlers can discover it
+  app.get("/s/:vanityUrl", (req: Request, res: Response, next: NextFunction) => {
+    const snippetUrl = `${getBaseUrl(req)}/s/${encodeURIComponent(req.params.vanityUrl)}`;
+    res.setHeader(
+      "Link",
+      `<${getBaseUrl(req)}/api/oembed?url=${encodeURIComponent(snippetUrl)}>; rel="alternate"; type="application/json+oembed"`,
+    );
+    next();
+  });
+
+  // Standalone, syntax-highlighted snippet page for iframes
+  app.get("/embed/:vanityUrl", async (req: Request, res: Response) => {
+    try {
+      const snippet = await getEmbeddableSnippet(req.params.vanityUrl, req.user?.id);
+      const html = renderSnippetEmbed(snippet, {
+        theme: parseEmbedTheme(req.query.theme),
+        lines: parseLineRange(req.query.lines),
+        snippetUrl: `${getBaseUrl(req)}/s/${snippet.vanityUrl}`,
+      });
+      
+      res.status(200).type("html").send(html);
+    } catch (error) {
+      const status = error instanceof SnippetError ? error.status : 500;
+      const message = error instanceof SnippetError ? error.message : "Failed to load snippet";
+      res.status(status).type("html").send(
+        `<!DOCTYPE html><html><body style="font-family: system-ui, sans-serif; font-size: 13px;">${escapeHtml(message)}</body></html>`,
+      );
+    }
+  });
+
+  app.get("/api/oembed", async (req: Request, res: Response) => {
+    try {
+      const { url, format, maxwidth, maxheight } = z.object({
+        url: z.string().url(),
+        format: z.string().optional(),
+        maxwidth: z.coerce.number().int().positive().optional(),
+        maxheight: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+      
+      if (format && format !== "json") {
+        return res.status(501).json({ message: "Only the json format is supported" });
+      }
+      
+      // Accept links to either the shared page or the embed itself
+      const match = /^\/(?:s|embed)\/([^/]+)\/?$/.exec(new URL(url).pathname);
+      if (!match) {
+        return res.status(404).json({ message: "URL is not a shared snippet" });
+      }
+      
+      const snippet = await getEmbeddableSnippet(decodeURIComponent(match[1]));
+      const author = await storage.getUser(snippet.userId);
+      
+      res.status(200).json(buildOEmbedResponse(snippet, {
+        embedUrl: `${getBaseUrl(req)}/embed/${snippet.vanityUrl}`,
+        providerUrl: getBaseUrl(req),
+        authorName: author?.username,
+        maxWidth: maxwidth,
+        maxHeight: maxheight,
+      }));
+    } catch (error) {
+      sendSnippetError(res, error, "Failed to build oEmbed response");
+    }
+  });
+
+  // Complexity analysis route
+  app.post("/api/complexity", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { code, language, fileName } = z.object({
+        code: z.string(),
+        language: z.string(),
+        fileName: z.string().optional(),
+      }).parse(req.body);
+      
+      const report = await analyzeComplexity(code, language, fileName);
+      res.status(200).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ComplexityError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Complexity analysis failed", error: String(error) });
     }
   });
 
   // Code execution route
-  app.post("/api/execute", async (req: Request, res: Response) => {
+  app.post("/api/execute", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { code, language } = req.body;
+      const { code, language, options } = req.body;
       
       if (!code || !language) {
         return res.status(400).json({ message: "Code and language are required" });
       }
       
-      const output = await executeCodeInContainer(code, language);
-      res.status(200).json({ output });
+      const result = await executeCodeInContainer(code, language, options || {});
+      res.status(200).json(result);
     } catch (error) {
       res.status(500).json({ message: "Code execution failed", error: String(error) });
     }
   });
 
   // Azure integration routes
-  app.get("/api/azure/auth-status", async (req: Request, res: Response) => {
+  app.get("/api/azure/auth-status", requireAuth, async (req: Request, res: Response) => {
     // Check if user is authenticated with Azure
     // This would typically check for valid tokens in the session
     res.status(200).json({ isAuthenticated: false });
   });
 
-  app.get("/api/azure/login", async (req: Request, res: Response) => {
+  app.get("/api/azure/login", requireAuth, async (req: Request, res: Response) => {
     try {
       // In a real implementation, this would redirect to Azure login
       const loginUrl = await azureAuthenticate();
@@ -142,7 +883,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/azure/deploy", async (req: Request, res: Response) => {
+  app.post("/api/azure/deploy", requireAuth, async (req: Request, res: Response) => {
     try {
       const { resourceGroup, region, serviceName, deploymentType } = req.body;
       
@@ -161,7 +902,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/azure/resources", async (req: Request, res: Response) => {
+  app.get("/api/azure/resources", requireAuth, async (req: Request, res: Response) => {
     try {
       const { type } = req.query;
       
@@ -177,7 +918,170 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI assistant routes
-  app.post("/api/ai/message", async (req: Request, res: Response) => {
+  // Provider named by the request's header, or the server default
+  const getRequestAiProvider = (req: Request) => getAiProvider(req.get(AI_PROVIDER_HEADER));
+
+  // Provider, user to meter and feature for a request; the feature header lets
+  // routes shared by several features, like code generation, report the right one
+  const getRequestAiOptions = (req: Request): AiRequestOptions => {
+    const feature = req.get(AI_FEATURE_HEADER);
+    return {
+      provider: getRequestAiProvider(req),
+      userId: req.user!.id,
+      feature: feature && isAiFeature(feature) ? feature : undefined,
+    };
+  };
+
+  const sendAiError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: "Validation error", errors: error.errors });
+    } else if (error instanceof AiQuotaError) {
+      res.status(error.status).set("Retry-After", String(error.retryAfterSeconds)).json({ message: error.message });
+    } else if (error instanceof AiProviderError || error instanceof ConversationError || error instanceof ProjectContextError) {
+      res.status(error.status).json({ message: error.message });
+    } else {
+      res.status(500).json({ message, error: String(error) });
+    }
+  };
+
+  // Turn AI requests away with a 429 once the user has used up today's quota
+  const requireAiQuota = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await checkAiQuota(req.user!.id);
+      next();
+    } catch (error) {
+      sendAiError(res, error, "Failed to check AI quota");
+    }
+  };
+
+  app.get("/api/ai/providers", (_req: Request, res: Response) => {
+    res.status(200).json(listAiProviders());
+  });
+
+  // The user's AI usage over the last few days, by feature, model and day
+  app.get("/api/ai/usage", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { days } = z.object({ days: z.coerce.number().int().min(1).max(90).default(30) }).parse(req.query);
+      const report = await getAiUsageReport(req.user!.id, days);
+      res.status(200).json(report);
+    } catch (error) {
+      sendAiError(res, error, "Failed to fetch AI usage");
+    }
+  });
+
+  /**
+   * Reply with text as it is generated, as server-sent events
+   * "token" events carry each piece of text, then a "done" or "error" event ends
+   * the stream. Generation is cancelled when the client goes away.
+   */
+  const streamAiResponse = async (res: Response, generate: (signal: AbortSignal) => AsyncGenerator<string>) => {
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+    
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      // Stop proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    try {
+      for await (const text of generate(controller.signal)) {
+        sendEvent("token", { text });
+      }
+      sendEvent("done", {});
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Error streaming AI response:", error);
+        sendEvent("error", { message: "AI processing failed", error: String(error) });
+      }
+    } finally {
+      res.end();
+    }
+  };
+
+  // Conversations with the assistant, kept per user and project
+  const conversationTitleSchema = z.string().trim().min(1).max(MAX_CONVERSATION_TITLE_LENGTH);
+
+  app.get("/api/ai/conversations", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { projectId } = z.object({ projectId: z.coerce.number().int().optional() }).parse(req.query);
+      const conversations = await storage.getAiConversationsByUserId(req.user!.id, projectId ?? null);
+      res.status(200).json(conversations);
+    } catch (error) {
+      sendAiError(res, error, "Failed to fetch conversations");
+    }
+  });
+
+  app.post("/api/ai/conversations", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { projectId, title } = z.object({
+        projectId: z.number().int().nullable().optional(),
+        title: conversationTitleSchema.optional(),
+      }).parse(req.body);
+      
+      const conversation = await createConversation(req.user!.id, projectId ?? null, title);
+      res.status(201).json(conversation);
+    } catch (error) {
+      sendAiError(res, error, "Failed to create conversation");
+    }
+  });
+
+  app.patch("/api/ai/conversations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const conversation = await getOwnedConversation(req.user!.id, Number(req.params.id));
+      const { title } = z.object({ title: conversationTitleSchema }).parse(req.body);
+      
+      const updatedConversation = await storage.updateAiConversation(conversation.id, { title });
+      res.status(200).json(updatedConversation);
+    } catch (error) {
+      sendAiError(res, error, "Failed to update conversation");
+    }
+  });
+
+  app.delete("/api/ai/conversations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const conversation = await getOwnedConversation(req.user!.id, Number(req.params.id));
+      await storage.deleteAiConversation(conversation.id);
+      res.sendStatus(204);
+    } catch (error) {
+      sendAiError(res, error, "Failed to delete conversation");
+    }
+  });
+
+  app.get("/api/ai/conversations/:id/messages", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const conversation = await getOwnedConversation(req.user!.id, Number(req.params.id));
+      const messages = await storage.getAiMessages(conversation.id);
+      res.status(200).json(messages);
+    } catch (error) {
+      sendAiError(res, error, "Failed to fetch messages");
+    }
+  });
+
+  // Send a message and stream the reply; both are saved to the conversation
+  app.post("/api/ai/conversations/:id/messages/stream", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
+    try {
+      const conversation = await getOwnedConversation(req.user!.id, Number(req.params.id));
+      const { content, context } = z.object({
+        content: z.string().trim().min(1),
+        context: z.string().optional(),
+      }).parse(req.body);
+      
+      const options = getRequestAiOptions(req);
+      await streamAiResponse(res, (signal) => streamConversationReply(conversation, content, context || "", { ...options, signal }));
+    } catch (error) {
+      sendAiError(res, error, "AI processing failed");
+    }
+  });
+
+  app.post("/api/ai/message", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
     try {
       const { message, context } = req.body;
       
@@ -185,14 +1089,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Message is required" });
       }
       
-      const response = await aiGenerateChatResponse(message, context || "");
+      const response = await aiGenerateChatResponse(message, context || "", [], getRequestAiOptions(req));
       res.status(200).json({ response });
     } catch (error) {
-      res.status(500).json({ message: "AI processing failed", error: String(error) });
+      sendAiError(res, error, "AI processing failed");
     }
   });
 
-  app.post("/api/ai/generate-code", async (req: Request, res: Response) => {
+  app.post("/api/ai/message/stream", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
+    try {
+      const { message, context } = req.body;
+      
+      if (!message) {
+        return res.status(400).json({ message: "Message is required" });
+      }
+      
+      const options = getRequestAiOptions(req);
+      await streamAiResponse(res, (signal) => aiStreamChatResponse(message, context || "", [], { ...options, signal }));
+    } catch (error) {
+      sendAiError(res, error, "AI processing failed");
+    }
+  });
+
+  app.post("/api/ai/generate-code", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
     try {
       const { prompt, language, context } = req.body;
       
@@ -200,31 +1119,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Prompt and language are required" });
       }
       
-      const code = await aiGenerateCode(prompt, language, context || "");
+      const code = await aiGenerateCode(prompt, language, context || "", getRequestAiOptions(req));
       res.status(200).json({ code });
     } catch (error) {
-      res.status(500).json({ message: "Code generation failed", error: String(error) });
+      sendAiError(res, error, "Code generation failed");
     }
   });
   
-  // Context-aware code generation
-  app.post("/api/ai/context-aware-code", async (req: Request, res: Response) => {
+  app.post("/api/ai/generate-code/stream", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
     try {
-      const { prompt, language, codeContext } = req.body;
+      const { prompt, language, context } = req.body;
       
       if (!prompt || !language) {
         return res.status(400).json({ message: "Prompt and language are required" });
       }
       
-      // Generate context-aware code with the detailed project context
-      const result = await aiGenerateContextAwareCode(prompt, language, codeContext || {});
-      res.status(200).json(result);
+      const options = getRequestAiOptions(req);
+      await streamAiResponse(res, (signal) => aiStreamCode(prompt, language, context || "", { ...options, signal }));
     } catch (error) {
-      res.status(500).json({ message: "Context-aware code generation failed", error: String(error) });
+      sendAiError(res, error, "Code generation failed");
+    }
+  });
+  
+  // Context-aware code generation, with context retrieved from the project
+  app.post("/api/ai/context-aware-code", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
+    try {
+      const request = z.object({
+        prompt: z.string().trim().min(1),
+        language: z.string().min(1),
+        projectId: z.number().int().nullable().optional(),
+        currentFile: z.object({
+          fileId: z.number().int().optional(),
+          name: z.string().min(1),
+          content: z.string(),
+        }).optional(),
+        selectedCode: z.string().optional(),
+        includeProjectStructure: z.boolean().optional(),
+        includeRelatedFiles: z.boolean().optional(),
+      }).parse(req.body);
+      
+      // Generate context-aware code with the most relevant parts of the project
+      const context = await retrieveProjectContext(req.user!.id, request);
+      const { code, explanation, edits } = await aiGenerateContextAwareCode(request.prompt, request.language, context, getRequestAiOptions(req));
+      
+      // Proposed changes are only applied once the user has reviewed them
+      const changes = edits.length > 0
+        ? proposeFileChanges(edits, context)
+        : proposeCodeInsertion(code, request.language, context);
+      const sources: ContextSource[] = context.chunks.map(({ path, startLine, endLine, score, reason }) => ({ path, startLine, endLine, score, reason }));
+      res.status(200).json({ code, explanation, changes, sources });
+    } catch (error) {
+      sendAiError(res, error, "Context-aware code generation failed");
     }
   });
 
-  app.post("/api/ai/explain-code", async (req: Request, res: Response) => {
+  app.post("/api/ai/explain-code", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
     try {
       const { code, language } = req.body;
       
@@ -232,14 +1181,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Code is required" });
       }
       
-      const explanation = await aiExplainCode(code, language || "");
+      const explanation = await aiExplainCode(code, language || "", getRequestAiOptions(req));
       res.status(200).json({ explanation });
     } catch (error) {
-      res.status(500).json({ message: "Code explanation failed", error: String(error) });
+      sendAiError(res, error, "Code explanation failed");
+    }
+  });
+
+  app.post("/api/ai/explain-code/stream", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
+    try {
+      const { code, language } = req.body;
+      
+      if (!code) {
+        return res.status(400).json({ message: "Code is required" });
+      }
+      
+      const options = getRequestAiOptions(req);
+      await streamAiResponse(res, (signal) => aiStreamExplanation(code, language || "", { ...options, signal }));
+    } catch (error) {
+      sendAiError(res, error, "Code explanation failed");
     }
   });
 
-  app.post("/api/ai/debug", async (req: Request, res: Response) => {
+  app.post("/api/ai/debug", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
     try {
       const { code, error, language } = req.body;
       
@@ -247,14 +1211,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Code and error are required" });
       }
       
-      const solution = await aiDebugCode(code, error, language || "");
+      const solution = await aiDebugCode(code, error, language || "", getRequestAiOptions(req));
       res.status(200).json({ solution });
     } catch (error) {
-      res.status(500).json({ message: "Debugging failed", error: String(error) });
+      sendAiError(res, error, "Debugging failed");
     }
   });
 
-  app.post("/api/ai/completion", async (req: Request, res: Response) => {
+  app.post("/api/ai/completion", requireAuth, requireAiQuota, async (req: Request, res: Response) => {
     try {
       const { code, position, language } = req.body;
       
@@ -262,10 +1226,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Code, position, and language are required" });
       }
       
-      const suggestions = await aiCompleteSuggestions(code, position, language);
+      const suggestions = await aiCompleteSuggestions(code, position, language, getRequestAiOptions(req));
       res.status(200).json({ suggestions });
     } catch (error) {
-      res.status(500).json({ message: "Completion failed", error: String(error) });
+      sendAiError(res, error, "Completion failed");
     }
   });
 
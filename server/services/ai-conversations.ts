@@ -0,0 +1,90 @@
+/**
+ * AI conversation service
+ * Keeps the assistant's conversations per user and project, and answers each
+ * new message with the conversation so far as history
+ */
+
+import { storage } from "../storage";
+import { aiStreamChatResponse, type AiRequestOptions, type ChatTurn } from "./openai";
+import type { AiConversation } from "@shared/schema";
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+export const MAX_CONVERSATION_TITLE_LENGTH = 80;
+
+// Error raised for conversation requests that cannot be served
+export class ConversationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ConversationError";
+  }
+}
+
+/**
+ * Look up a conversation that belongs to the user
+ */
+export async function getOwnedConversation(userId: number, id: number): Promise<AiConversation> {
+  const conversation = Number.isInteger(id) ? await storage.getAiConversation(id) : undefined;
+  if (!conversation || conversation.userId !== userId) {
+    throw new ConversationError("Conversation not found", 404);
+  }
+  return conversation;
+}
+
+/**
+ * Start a conversation, in one of the user's projects or outside any
+ */
+export async function createConversation(userId: number, projectId: number | null, title?: string): Promise<AiConversation> {
+  if (projectId !== null) {
+    const project = await storage.getProject(projectId);
+    if (!project || project.userId !== userId) {
+      throw new ConversationError("Project not found", 404);
+    }
+  }
+
+  return storage.createAiConversation({ userId, projectId, title: title || DEFAULT_CONVERSATION_TITLE });
+}
+
+/**
+ * Title for a conversation taken from its first message
+ */
+function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split("\n")[0];
+  return firstLine.length > MAX_CONVERSATION_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_CONVERSATION_TITLE_LENGTH - 3)}...`
+    : firstLine || DEFAULT_CONVERSATION_TITLE;
+}
+
+/**
+ * Stream the assistant's reply to a new message, saving both to the conversation
+ * A reply cut short is saved as far as it got, so the history matches what the
+ * user saw. Untitled conversations are named after their first message.
+ */
+export async function* streamConversationReply(
+  conversation: AiConversation,
+  content: string,
+  context: string,
+  options: AiRequestOptions = {}
+): AsyncGenerator<string> {
+  const history: ChatTurn[] = (await storage.getAiMessages(conversation.id)).map((message) => ({
+    role: message.role === "assistant" ? "assistant" : "user",
+    content: message.content,
+  }));
+
+  await storage.addAiMessage(conversation.id, { role: "user", content });
+  if (history.length === 0 && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+    await storage.updateAiConversation(conversation.id, { title: titleFromMessage(content) });
+  }
+
+  let reply = "";
+  try {
+    for await (const text of aiStreamChatResponse(content, context, history, options)) {
+      reply += text;
+      yield text;
+    }
+  } finally {
+    if (reply) {
+      await storage.addAiMessage(conversation.id, { role: "assistant", content: reply });
+    }
+  }
+}
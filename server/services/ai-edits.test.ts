@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { RetrievedContext } from "./project-context";
+import { applyLineEdits, parseFileEdits, proposeCodeInsertion, proposeFileChanges } from "./ai-edits";
+
+const contextOf = (files: Record<string, string>, currentFilePath?: string, selectedCode?: string): RetrievedContext => ({
+  currentFilePath,
+  selectedCode,
+  projectStructure: Object.keys(files),
+  chunks: [],
+  files: new Map(Object.entries(files)),
+});
+
+describe("parseFileEdits", () => {
+  it("keeps well-formed whole-file and line edits", () => {
+    expect(parseFileEdits([
+      { path: "/a.ts", content: "export {};" },
+      { path: "/b.ts", edits: [{ startLine: 1, endLine: 2, newText: "x" }] },
+    ])).toEqual([
+      { path: "/a.ts", content: "export {};" },
+      { path: "/b.ts", edits: [{ startLine: 1, endLine: 2, newText: "x" }] },
+    ]);
+  });
+
+  it("drops malformed files and line edits one by one", () => {
+    expect(parseFileEdits([
+      null,
+      "not an edit",
+      { content: "no path" },
+      { path: 42, content: "bad path" },
+      { path: "/c.ts", content: null, edits: [{ startLine: "1", endLine: 1, newText: "" }, { startLine: 3, endLine: 3, newText: "y" }] },
+      { path: "/d.ts", edits: "not a list" },
+      { path: "/e.ts", edits: [{ startLine: 1 }] },
+    ])).toEqual([
+      { path: "/c.ts", edits: [{ startLine: 3, endLine: 3, newText: "y" }] },
+    ]);
+  });
+
+  it("returns nothing for a reply that is not a list", () => {
+    expect(parseFileEdits(undefined)).toEqual([]);
+    expect(parseFileEdits({ path: "/a.ts", content: "" })).toEqual([]);
+  });
+});
+
+describe("applyLineEdits", () => {
+  const original = "one\ntwo\nthree\nfour\n";
+
+  it("replaces, inserts and deletes lines, keeping the final newline", () => {
+    expect(applyLineEdits(original, [
+      { startLine: 1, endLine: 1, newText: "ONE" },
+      { startLine: 3, endLine: 2, newText: "two and a half\n" },
+      { startLine: 4, endLine: 4, newText: "" },
+    ])).toBe("ONE\ntwo\ntwo and a half\nthree\n");
+  });
+
+  it("appends after the last line", () => {
+    expect(applyLineEdits(original, [{ startLine: 5, endLine: 4, newText: "five" }])).toBe("one\ntwo\nthree\nfour\nfive\n");
+  });
+
+  it("rejects edits outside the file or overlapping each other", () => {
+    expect(() => applyLineEdits(original, [{ startLine: 2, endLine: 5, newText: "" }])).toThrow(/do not fit/);
+    expect(() => applyLineEdits(original, [{ startLine: 0, endLine: 1, newText: "" }])).toThrow(/do not fit/);
+    expect(() => applyLineEdits(original, [
+      { startLine: 1, endLine: 2, newText: "a" },
+      { startLine: 2, endLine: 3, newText: "b" },
+    ])).toThrow(/overlap/);
+  });
+});
+
+describe("proposeFileChanges", () => {
+  it("combines edits per path and drops those that do not fit", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const context = contextOf({ "/a.ts": "a\nb\n", "/b.ts": "b\n" }, "/a.ts");
+
+    const changes = proposeFileChanges([
+      { path: "a.ts", edits: [{ startLine: 1, endLine: 1, newText: "A" }] },
+      { path: "/a.ts", edits: [{ startLine: 2, endLine: 2, newText: "B" }] },
+      { path: "/b.ts", edits: [{ startLine: 9, endLine: 9, newText: "never" }] },
+      { path: "/missing.ts", edits: [{ startLine: 1, endLine: 1, newText: "never" }] },
+      { path: "/new.ts", content: "export {};\n" },
+    ], context);
+
+    expect(changes).toEqual([
+      { path: "/a.ts", isNewFile: false, isCurrentFile: true, original: "a\nb\n", modified: "A\nB\n" },
+      { path: "/new.ts", isNewFile: true, isCurrentFile: false, original: "", modified: "export {};\n" },
+    ]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("leaves out edits that change nothing", () => {
+    const context = contextOf({ "/a.ts": "same\n" });
+    expect(proposeFileChanges([{ path: "/a.ts", content: "same\n" }], context)).toEqual([]);
+  });
+});
+
+describe("proposeCodeInsertion", () => {
+  it("replaces the selection in the current file", () => {
+    const context = contextOf({ "/a.ts": "let x = 1;\nlet y = 2;\n" }, "/a.ts", "let y = 2;");
+    expect(proposeCodeInsertion("let y = 3;", "typescript", context)[0].modified).toBe("let x = 1;\nlet y = 3;\n");
+  });
+
+  it("appends to the current file when there is no selection", () => {
+    const context = contextOf({ "/a.ts": "let x = 1;\n\n" }, "/a.ts");
+    expect(proposeCodeInsertion("let y = 2;", "typescript", context)[0].modified).toBe("let x = 1;\n\nlet y = 2;\n");
+  });
+
+  it("creates a new file without a current file", () => {
+    expect(proposeCodeInsertion("print(1)", "python", contextOf({}))).toEqual([
+      { path: "/generated.py", isNewFile: true, isCurrentFile: false, original: "", modified: "print(1)" },
+    ]);
+  });
+});
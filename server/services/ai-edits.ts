@@ -0,0 +1,156 @@
+/**
+ * AI edit proposals
+ * Turns the structured edits the AI asks for into whole-file before and after
+ * contents the editor can show as diffs. Edits that do not fit the files they
+ * name are dropped rather than guessed at.
+ */
+
+import { z } from "zod";
+import { normalizeFilePath, SUPPORTED_LANGUAGES } from "@shared/file-tree";
+import type { AiFileEdit, AiLineEdit, ProposedFileChange } from "@shared/project-context";
+import type { RetrievedContext } from "./project-context";
+
+/**
+ * Apply line edits to a file's content
+ * Throws when an edit falls outside the file or two edits overlap.
+ */
+export function applyLineEdits(original: string, edits: AiLineEdit[]): string {
+  const lines = original.split("\n");
+  // A final newline ends the last line rather than starting another
+  const lineCount = original.endsWith("\n") ? lines.length - 1 : lines.length;
+
+  // Bottom up, so earlier edits keep their line numbers
+  const sorted = [...edits].sort((a, b) => b.startLine - a.startLine || b.endLine - a.endLine);
+  let limit = lineCount;
+  sorted.forEach(({ startLine, endLine, newText }) => {
+    if (!Number.isInteger(startLine) || !Number.isInteger(endLine) ||
+        startLine < 1 || startLine > lineCount + 1 || endLine < startLine - 1 || endLine > lineCount) {
+      throw new Error(`Lines ${startLine}-${endLine} do not fit a file of ${lineCount} lines`);
+    }
+    if (endLine > limit) {
+      throw new Error(`Lines ${startLine}-${endLine} overlap another edit`);
+    }
+    const replacement = newText === "" ? [] : newText.replace(/\n$/, "").split("\n");
+    lines.splice(startLine - 1, endLine - startLine + 1, ...replacement);
+    limit = startLine - 1;
+  });
+
+  return lines.join("\n");
+}
+
+// A line edit as the AI should send it
+const lineEditSchema = z.object({
+  startLine: z.number(),
+  endLine: z.number(),
+  newText: z.string(),
+});
+
+// A file's edits, whose content or line edits may each be malformed on their own
+const fileEditSchema = z.object({
+  path: z.string(),
+  content: z.string().optional().catch(undefined),
+  edits: z.array(z.unknown()).optional().catch(undefined),
+});
+
+/**
+ * Check edits from the AI's reply, which is only loosely shaped
+ * Malformed files and line edits are dropped one by one.
+ */
+export function parseFileEdits(value: unknown): AiFileEdit[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): AiFileEdit[] => {
+    const file = fileEditSchema.safeParse(item);
+    if (!file.success) return [];
+
+    const { path, content } = file.data;
+    if (content !== undefined) {
+      return [{ path, content }];
+    }
+
+    const edits = (file.data.edits ?? []).flatMap((edit): AiLineEdit[] => {
+      const lineEdit = lineEditSchema.safeParse(edit);
+      return lineEdit.success ? [lineEdit.data] : [];
+    });
+    return edits.length > 0 ? [{ path, edits }] : [];
+  });
+}
+
+/**
+ * Before and after contents of every file the edits touch
+ * Edits to one path are combined; whole content wins over line edits. Line
+ * edits only apply to files in the project, and a file's edits are dropped
+ * together when any of them does not fit.
+ */
+export function proposeFileChanges(edits: AiFileEdit[], context: RetrievedContext): ProposedFileChange[] {
+  const byPath = new Map<string, AiFileEdit>();
+  edits.forEach((edit) => {
+    const path = normalizeFilePath(edit.path);
+    if (!path) return;
+
+    const combined = byPath.get(path) ?? { path };
+    if (edit.content !== undefined) {
+      combined.content = edit.content;
+    } else {
+      combined.edits = [...(combined.edits ?? []), ...(edit.edits ?? [])];
+    }
+    byPath.set(path, combined);
+  });
+
+  const changes: ProposedFileChange[] = [];
+  byPath.forEach((edit, path) => {
+    const original = context.files.get(path);
+    let modified: string;
+
+    if (edit.content !== undefined) {
+      modified = edit.content;
+    } else if (original !== undefined) {
+      try {
+        modified = applyLineEdits(original, edit.edits ?? []);
+      } catch (error) {
+        console.warn(`Dropping AI edits to ${path}: ${(error as Error).message}`);
+        return;
+      }
+    } else {
+      console.warn(`Dropping AI edits to ${path}, which is not in the project`);
+      return;
+    }
+
+    if (modified !== original) {
+      changes.push({
+        path,
+        isNewFile: original === undefined,
+        isCurrentFile: path === context.currentFilePath,
+        original: original ?? "",
+        modified,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * A change for code that came back without structured edits
+ * The code replaces the selection in the current file when it can be found
+ * there and is otherwise added to the end of the current file, or to a new
+ * file when there is no current file.
+ */
+export function proposeCodeInsertion(code: string, language: string, context: RetrievedContext): ProposedFileChange[] {
+  if (!code.trim()) return [];
+
+  const path = context.currentFilePath;
+  const original = path !== undefined ? context.files.get(path) : undefined;
+  if (path === undefined || original === undefined) {
+    const extension = SUPPORTED_LANGUAGES[language as keyof typeof SUPPORTED_LANGUAGES]?.[0] ?? ".txt";
+    const newPath = `/generated${extension}`;
+    const existing = context.files.get(newPath);
+    return [{ path: newPath, isNewFile: existing === undefined, isCurrentFile: false, original: existing ?? "", modified: code }];
+  }
+
+  const selected = context.selectedCode;
+  const modified = selected && original.includes(selected)
+    ? original.replace(selected, () => code)
+    : `${original.replace(/\n*$/, "")}${original.trim() ? "\n\n" : ""}${code}\n`;
+  return [{ path, isNewFile: false, isCurrentFile: true, original, modified }];
+}
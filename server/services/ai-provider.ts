@@ -0,0 +1,245 @@
+/**
+ * AI provider layer
+ * Every AI request goes through an AiProvider: OpenAI, Azure OpenAI, or a
+ * deterministic local stub for tests and offline development. The provider is
+ * picked per request, falling back to AI_PROVIDER or whichever is configured.
+ */
+
+import OpenAI, { AzureOpenAI } from "openai";
+import {
+  AI_PROVIDERS,
+  isAiProviderName,
+  type AiProviderName,
+  type AiProvidersResponse,
+} from "@shared/ai-providers";
+import type { AiFeature } from "@shared/ai-usage";
+
+export type AiChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+// Error raised for a provider that does not exist or is not set up
+export class AiProviderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AiProviderError";
+  }
+}
+
+// Tokens a request used, as counted by the provider
+export interface AiTokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiCompletionRequest {
+  messages: AiChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  // Ask for a JSON object rather than free text
+  json?: boolean;
+  // What the request is for, which decides the shape of the local provider's JSON replies
+  feature?: AiFeature;
+  // Aborting cancels the request
+  signal?: AbortSignal;
+  // Called with the tokens used once the provider reports them; providers that
+  // cannot count tokens never call it
+  onUsage?: (usage: AiTokenUsage) => void;
+}
+
+export interface AiProvider {
+  name: AiProviderName;
+  // Model requests are sent to
+  model: string;
+  // Resolve with the whole response
+  complete(request: AiCompletionRequest): Promise<string>;
+  // Yield the response piece by piece as it is generated
+  stream(request: AiCompletionRequest): AsyncGenerator<string>;
+}
+
+const PROVIDER_LABELS: Record<AiProviderName, string> = {
+  openai: "OpenAI",
+  azure: "Azure OpenAI",
+  local: "Local (offline)",
+};
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
+
+const AZURE_OPENAI_API_VERSION = process.env.AZURE_OPENAI_API_VERSION || "2024-10-21";
+
+/**
+ * Whether the server has the settings a provider needs
+ */
+function isConfigured(name: AiProviderName): boolean {
+  switch (name) {
+    case "openai":
+      return !!process.env.OPENAI_API_KEY;
+    case "azure":
+      return !!(process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_DEPLOYMENT);
+    case "local":
+      return true;
+  }
+}
+
+/**
+ * Provider used when a request names none: AI_PROVIDER, else OpenAI or Azure
+ * when their keys are set, else the local stub
+ */
+export function getDefaultAiProviderName(): string {
+  if (process.env.AI_PROVIDER) return process.env.AI_PROVIDER;
+  if (isConfigured("openai")) return "openai";
+  if (isConfigured("azure")) return "azure";
+  return "local";
+}
+
+/**
+ * Provider for any client speaking the OpenAI chat completions API
+ */
+function createOpenAiCompatibleProvider(name: AiProviderName, client: OpenAI, model: string): AiProvider {
+  const toParams = ({ messages, temperature, maxTokens, json }: AiCompletionRequest) => ({
+    model,
+    messages,
+    temperature,
+    max_tokens: maxTokens,
+    ...(json ? { response_format: { type: "json_object" as const } } : {}),
+  });
+
+  const reportUsage = (request: AiCompletionRequest, reported: { model: string; usage?: OpenAI.CompletionUsage | null }) => {
+    if (reported.usage) {
+      request.onUsage?.({
+        model: reported.model || model,
+        promptTokens: reported.usage.prompt_tokens,
+        completionTokens: reported.usage.completion_tokens,
+      });
+    }
+  };
+
+  return {
+    name,
+    model,
+
+    async complete(request) {
+      const response = await client.chat.completions.create(toParams(request), { signal: request.signal });
+      reportUsage(request, response);
+      return response.choices[0]?.message.content ?? "";
+    },
+
+    async *stream(request) {
+      const stream = await client.chat.completions.create(
+        { ...toParams(request), stream: true, stream_options: { include_usage: true } },
+        { signal: request.signal }
+      );
+      for await (const chunk of stream) {
+        // Usage arrives in a final chunk of its own
+        reportUsage(request, chunk);
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+// The local provider's JSON replies, in the shape each feature's request asks for
+const LOCAL_JSON_REPLIES: Partial<Record<AiFeature, unknown>> = {
+  completion: {
+    suggestions: [{ text: "// suggested by the local AI provider", description: "Placeholder suggestion from the local AI provider" }],
+  },
+  generation: {
+    explanation: "This is the local AI provider, which answers offline and always the same way.",
+    edits: [],
+    code: "// Placeholder code from the local AI provider",
+  },
+};
+
+/**
+ * Stub that answers every request the same way without any network access
+ * Free-text replies quote the request's first line; JSON requests get a fixed
+ * placeholder in the shape their feature expects.
+ */
+function createLocalProvider(): AiProvider {
+  const respond = ({ messages, json, feature }: AiCompletionRequest): string => {
+    if (json) {
+      return JSON.stringify((feature && LOCAL_JSON_REPLIES[feature]) ?? {});
+    }
+
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === "user");
+    const content = typeof lastUserMessage?.content === "string" ? lastUserMessage.content : "";
+    const firstLine = content.trim().split("\n")[0].slice(0, 120);
+    return `This is the local AI provider, which answers offline and always the same way.\n\nYou asked: ${firstLine}`;
+  };
+
+  const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new Error("Request was aborted");
+  };
+
+  return {
+    name: "local",
+    model: "local",
+
+    async complete(request) {
+      throwIfAborted(request.signal);
+      return respond(request);
+    },
+
+    async *stream(request) {
+      // Words with the whitespace before them, so the pieces join back up exactly
+      for (const piece of respond(request).match(/\s*\S+/g) ?? []) {
+        throwIfAborted(request.signal);
+        yield piece;
+      }
+    },
+  };
+}
+
+/**
+ * Build a provider, failing if the server lacks its settings
+ */
+function createProvider(name: AiProviderName): AiProvider {
+  if (!isConfigured(name)) {
+    throw new AiProviderError(`The ${PROVIDER_LABELS[name]} provider is not configured on this server`, 503);
+  }
+
+  switch (name) {
+    case "openai":
+      return createOpenAiCompatibleProvider(name, new OpenAI({ apiKey: process.env.OPENAI_API_KEY }), OPENAI_MODEL);
+    case "azure":
+      return createOpenAiCompatibleProvider(name, new AzureOpenAI({
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        apiVersion: AZURE_OPENAI_API_VERSION,
+        deployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+      }), process.env.AZURE_OPENAI_DEPLOYMENT!);
+    case "local":
+      return createLocalProvider();
+  }
+}
+
+const providers = new Map<AiProviderName, AiProvider>();
+
+/**
+ * Look up a provider by name, or the default one when no name is given
+ */
+export function getAiProvider(name?: string): AiProvider {
+  const providerName = name || getDefaultAiProviderName();
+  if (!isAiProviderName(providerName)) {
+    throw new AiProviderError(`Unknown AI provider "${providerName}", expected one of: ${AI_PROVIDERS.join(", ")}`);
+  }
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    provider = createProvider(providerName);
+    providers.set(providerName, provider);
+  }
+  return provider;
+}
+
+/**
+ * Every provider, whether it is configured, and the default
+ */
+export function listAiProviders(): AiProvidersResponse {
+  const defaultName = getDefaultAiProviderName();
+  return {
+    default: isAiProviderName(defaultName) ? defaultName : "local",
+    providers: AI_PROVIDERS.map((name) => ({ name, label: PROVIDER_LABELS[name], configured: isConfigured(name) })),
+  };
+}
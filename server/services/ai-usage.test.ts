@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AiQuotaError, checkAiQuota, estimateCostMicros, getAiQuotaLimits, getAiUsageReport, recordAiUsage } from "./ai-usage";
+
+const usage = (userId: number, overrides: Partial<Parameters<typeof recordAiUsage>[0]> = {}) => recordAiUsage({
+  userId,
+  feature: "chat",
+  provider: "openai",
+  model: "gpt-4o",
+  promptTokens: 1000,
+  completionTokens: 100,
+  latencyMs: 250.4,
+  ...overrides,
+});
+
+describe("estimateCostMicros", () => {
+  it("prices models by their longest matching prefix", () => {
+    expect(estimateCostMicros("gpt-4o", 1000, 100)).toBe(3500);
+    expect(estimateCostMicros("gpt-4o-mini-2024-07-18", 1000, 100)).toBe(210);
+    expect(estimateCostMicros("local", 1000, 100)).toBe(0);
+  });
+
+  it("prices unknown models like gpt-4o", () => {
+    expect(estimateCostMicros("my-azure-deployment", 1000, 100)).toBe(3500);
+  });
+});
+
+describe("getAiQuotaLimits", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads limits from the environment, with 0 turning one off", () => {
+    vi.stubEnv("AI_DAILY_TOKEN_QUOTA", "0");
+    vi.stubEnv("AI_DAILY_REQUEST_QUOTA", "12.7");
+    expect(getAiQuotaLimits()).toEqual({ tokens: null, requests: 12 });
+  });
+
+  it("falls back to the defaults when unset or empty", () => {
+    vi.stubEnv("AI_DAILY_TOKEN_QUOTA", "");
+    expect(getAiQuotaLimits()).toEqual({ tokens: 200_000, requests: 500 });
+  });
+});
+
+describe("metering and quotas", () => {
+  let userId = 300;
+
+  beforeEach(() => {
+    userId++;
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-05-10T23:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("records each request with its estimated cost", async () => {
+    const recorded = await usage(userId, { model: "gpt-4o-mini" });
+    expect(recorded).toMatchObject({ userId, costMicros: 210, latencyMs: 250, createdAt: "2026-05-10T23:00:00.000Z" });
+  });
+
+  it("refuses requests once today's request quota is used up, until midnight UTC", async () => {
+    vi.stubEnv("AI_DAILY_REQUEST_QUOTA", "2");
+    await usage(userId);
+    await expect(checkAiQuota(userId)).resolves.toBeUndefined();
+    await usage(userId);
+
+    const error = await checkAiQuota(userId).catch((error) => error);
+    expect(error).toBeInstanceOf(AiQuotaError);
+    expect(error).toMatchObject({ status: 429, retryAfterSeconds: 3600 });
+
+    vi.setSystemTime(new Date("2026-05-11T00:00:00Z"));
+    await expect(checkAiQuota(userId)).resolves.toBeUndefined();
+  });
+
+  it("refuses requests once today's token quota is used up", async () => {
+    vi.stubEnv("AI_DAILY_TOKEN_QUOTA", "2000");
+    await usage(userId);
+    await expect(checkAiQuota(userId)).resolves.toBeUndefined();
+    await usage(userId);
+    await expect(checkAiQuota(userId)).rejects.toThrow(/token quota of 2000/);
+  });
+
+  it("counts each user's usage separately", async () => {
+    vi.stubEnv("AI_DAILY_REQUEST_QUOTA", "1");
+    await usage(userId);
+    await expect(checkAiQuota(userId + 1000)).resolves.toBeUndefined();
+  });
+
+  it("reports usage by feature, model and day with today's quota", async () => {
+    vi.setSystemTime(new Date("2026-05-09T12:00:00Z"));
+    await usage(userId, { feature: "completion", model: "gpt-4o-mini", latencyMs: 100 });
+    vi.setSystemTime(new Date("2026-05-10T12:00:00Z"));
+    await usage(userId, { latencyMs: 200 });
+    await usage(userId, { latencyMs: 400 });
+
+    const report = await getAiUsageReport(userId, 3);
+    expect(report.since).toBe("2026-05-08T00:00:00.000Z");
+    expect(report.totals).toEqual({ requests: 3, promptTokens: 3000, completionTokens: 300, costUsd: 0.00721 });
+    expect(report.byFeature.map(({ feature, requests, averageLatencyMs }) => [feature, requests, averageLatencyMs])).toEqual([
+      ["chat", 2, 300],
+      ["completion", 1, 100],
+    ]);
+    expect(report.byModel.map(({ model, requests }) => [model, requests])).toEqual([["gpt-4o", 2], ["gpt-4o-mini", 1]]);
+    expect(report.byDay.map(({ date, requests }) => [date, requests])).toEqual([
+      ["2026-05-08", 0],
+      ["2026-05-09", 1],
+      ["2026-05-10", 2],
+    ]);
+    expect(report.quota).toEqual({
+      tokens: { limit: 200_000, used: 2200 },
+      requests: { limit: 500, used: 2 },
+      resetsAt: "2026-05-11T00:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * AI usage service
+ * Meters each AI request's tokens, estimated cost and latency per user and
+ * feature, enforces daily per-user quotas and reports usage for the dashboard
+ */
+
+import { storage } from "../storage";
+import { AI_FEATURES, type AiFeature, type AiUsageReport, type AiUsageTotals } from "@shared/ai-usage";
+import type { AiUsage } from "@shared/schema";
+
+// Error raised when a user has used up today's AI quota
+export class AiQuotaError extends Error {
+  constructor(message: string, public retryAfterSeconds: number, public status: number = 429) {
+    super(message);
+    this.name = "AiQuotaError";
+  }
+}
+
+// List prices in US dollars per million tokens, which is also millionths of a
+// dollar per token; models are matched by the longest prefix
+const MODEL_PRICES: Record<string, { prompt: number; completion: number }> = {
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+  "gpt-4-turbo": { prompt: 10, completion: 30 },
+  "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+  "local": { prompt: 0, completion: 0 },
+};
+
+// Price for models missing from the table, such as Azure deployments with custom names
+const DEFAULT_MODEL_PRICE = MODEL_PRICES["gpt-4o"];
+
+const DEFAULT_DAILY_TOKEN_QUOTA = 200_000;
+
+const DEFAULT_DAILY_REQUEST_QUOTA = 500;
+
+/**
+ * A daily limit from the environment; "0" turns the limit off
+ */
+function quotaFromEnv(value: string | undefined, fallback: number): number | null {
+  const limit = value === undefined || value === "" ? fallback : Number(value);
+  return Number.isFinite(limit) && limit > 0 ? Math.floor(limit) : null;
+}
+
+/**
+ * Per-user daily limits, set by AI_DAILY_TOKEN_QUOTA and AI_DAILY_REQUEST_QUOTA
+ */
+export function getAiQuotaLimits(): { tokens: number | null; requests: number | null } {
+  return {
+    tokens: quotaFromEnv(process.env.AI_DAILY_TOKEN_QUOTA, DEFAULT_DAILY_TOKEN_QUOTA),
+    requests: quotaFromEnv(process.env.AI_DAILY_REQUEST_QUOTA, DEFAULT_DAILY_REQUEST_QUOTA),
+  };
+}
+
+/**
+ * Midnight UTC at the start of the day, some number of days before now
+ */
+function startOfUtcDay(now: Date, daysAgo: number = 0): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysAgo));
+}
+
+/**
+ * Estimated cost of a request, in millionths of a US dollar
+ */
+export function estimateCostMicros(model: string, promptTokens: number, completionTokens: number): number {
+  const match = Object.keys(MODEL_PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const price = match ? MODEL_PRICES[match] : DEFAULT_MODEL_PRICE;
+  return Math.round(promptTokens * price.prompt + completionTokens * price.completion);
+}
+
+/**
+ * Refuse further AI requests once the user reaches today's token or request quota
+ * Quotas reset at midnight UTC.
+ */
+export async function checkAiQuota(userId: number): Promise<void> {
+  const limits = getAiQuotaLimits();
+  if (limits.tokens === null && limits.requests === null) return;
+
+  const now = new Date();
+  const used = await storage.getAiUsageTotals(userId, startOfUtcDay(now).toISOString());
+  const retryAfterSeconds = Math.ceil((startOfUtcDay(now, -1).getTime() - now.getTime()) / 1000);
+
+  if (limits.requests !== null && used.requests >= limits.requests) {
+    throw new AiQuotaError(`Daily AI request quota of ${limits.requests} requests reached; it resets at midnight UTC`, retryAfterSeconds);
+  }
+  if (limits.tokens !== null && used.tokens >= limits.tokens) {
+    throw new AiQuotaError(`Daily AI token quota of ${limits.tokens} tokens reached; it resets at midnight UTC`, retryAfterSeconds);
+  }
+}
+
+/**
+ * Record one AI request against a user
+ */
+export async function recordAiUsage(usage: {
+  userId: number;
+  feature: AiFeature;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}): Promise<AiUsage> {
+  return storage.createAiUsage({
+    ...usage,
+    costMicros: estimateCostMicros(usage.model, usage.promptTokens, usage.completionTokens),
+    latencyMs: Math.round(usage.latencyMs),
+  });
+}
+
+/**
+ * Sum requests, tokens and cost over a set of usage records
+ */
+function totalUsage(records: AiUsage[]): AiUsageTotals {
+  const costMicros = records.reduce((total, u) => total + u.costMicros, 0);
+  return {
+    requests: records.length,
+    promptTokens: records.reduce((total, u) => total + u.promptTokens, 0),
+    completionTokens: records.reduce((total, u) => total + u.completionTokens, 0),
+    costUsd: costMicros / 1_000_000,
+  };
+}
+
+/**
+ * Group records by a key, keeping the groups in first-seen order
+ */
+function groupBy<K>(records: AiUsage[], keyOf: (usage: AiUsage) => K): Map<K, AiUsage[]> {
+  const groups = new Map<K, AiUsage[]>();
+  records.forEach((usage) => {
+    const key = keyOf(usage);
+    groups.set(key, [...(groups.get(key) ?? []), usage]);
+  });
+  return groups;
+}
+
+/**
+ * A user's usage over the last few days, today included, with today's quota
+ */
+export async function getAiUsageReport(userId: number, days: number): Promise<AiUsageReport> {
+  const now = new Date();
+  const today = startOfUtcDay(now).toISOString();
+  const since = startOfUtcDay(now, days - 1).toISOString();
+  const records = await storage.getAiUsageByUserId(userId, since);
+
+  const byFeature = groupBy(records, (usage) => usage.feature);
+  const byModel = groupBy(records, (usage) => `${usage.provider}\n${usage.model}`);
+  const byDay = groupBy(records, (usage) => usage.createdAt.slice(0, 10));
+
+  const limits = getAiQuotaLimits();
+  const todayTotals = totalUsage(records.filter((usage) => usage.createdAt >= today));
+
+  return {
+    since,
+    totals: totalUsage(records),
+    byFeature: AI_FEATURES
+      .filter((feature) => byFeature.has(feature))
+      .map((feature) => {
+        const usage = byFeature.get(feature)!;
+        return {
+          feature,
+          ...totalUsage(usage),
+          averageLatencyMs: Math.round(usage.reduce((total, u) => total + u.latencyMs, 0) / usage.length),
+        };
+      }),
+    byModel: Array.from(byModel.values())
+      .map((usage) => ({ provider: usage[0].provider, model: usage[0].model, ...totalUsage(usage) }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests),
+    byDay: Array.from({ length: days }, (_, i) => {
+      const date = startOfUtcDay(now, days - 1 - i).toISOString().slice(0, 10);
+      return { date, ...totalUsage(byDay.get(date) ?? []) };
+    }),
+    quota: {
+      tokens: { limit: limits.tokens, used: todayTotals.promptTokens + todayTotals.completionTokens },
+      requests: { limit: limits.requests, used: todayTotals.requests },
+      resetsAt: startOfUtcDay(now, -1).toISOString(),
+    },
+  };
+}
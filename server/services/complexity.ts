@@ -0,0 +1,306 @@
+/**
+ * Code complexity analysis service
+ * Measures cyclomatic complexity, nesting depth and length for every function
+ * in JavaScript/TypeScript (via the TypeScript compiler API) and Python (via
+ * the interpreter's own ast module), scored on the 1-5 snippet complexity scale
+ */
+
+import { spawn } from "child_process";
+import ts from "typescript";
+import {
+  buildComplexityReport,
+  isComplexityLanguage,
+  scoreComplexity,
+  TOP_LEVEL_NAME,
+  type ComplexityReport,
+  type FunctionComplexity,
+} from "@shared/complexity";
+
+// Largest source accepted for analysis
+export const MAX_ANALYSIS_BYTES = 100 * 1024;
+
+// How long the Python analyzer may run before it is killed
+const PYTHON_TIMEOUT = 5000;
+
+// Error raised for code that cannot be analyzed
+export class ComplexityError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ComplexityError";
+  }
+}
+
+// Branching and nesting counts for one function body
+interface BodyMetrics {
+  cyclomatic: number;
+  maxNesting: number;
+}
+
+/**
+ * Score a measured function
+ */
+function toFunctionComplexity(name: string, startLine: number, endLine: number, metrics: BodyMetrics): FunctionComplexity {
+  const length = endLine - startLine + 1;
+  return { name, startLine, endLine, ...metrics, length, score: scoreComplexity({ ...metrics, length }) };
+}
+
+/**
+ * Entry for the code outside any function, counting only its non-blank lines
+ * Left out when the file is all functions and the remaining code is trivial.
+ */
+function topLevelEntry(code: string, functions: FunctionComplexity[], metrics: BodyMetrics): FunctionComplexity | undefined {
+  const lines = code.split("\n");
+  const insideFunction = new Array<boolean>(lines.length).fill(false);
+  functions.forEach((fn) => {
+    for (let line = fn.startLine; line <= fn.endLine; line++) insideFunction[line - 1] = true;
+  });
+
+  const length = lines.filter((line, index) => !insideFunction[index] && line.trim() !== "").length;
+  if (functions.length > 0 && metrics.cyclomatic === 1 && metrics.maxNesting === 0) {
+    return undefined;
+  }
+
+  return {
+    name: TOP_LEVEL_NAME,
+    startLine: 1,
+    endLine: Math.max(lines.length, 1),
+    ...metrics,
+    length,
+    score: scoreComplexity({ ...metrics, length }),
+  };
+}
+
+const isFunctionWithBody = (node: ts.Node): node is ts.FunctionLikeDeclaration =>
+  (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) && !!node.body;
+
+const LOGICAL_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+// Nodes that add a path through the code
+const isDecisionPoint = (node: ts.Node): boolean =>
+  ts.isIfStatement(node) || ts.isConditionalExpression(node) || ts.isCaseClause(node) || ts.isCatchClause(node) ||
+  ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node) ||
+  ts.isWhileStatement(node) || ts.isDoStatement(node) ||
+  (ts.isBinaryExpression(node) && LOGICAL_OPERATORS.has(node.operatorToken.kind));
+
+// Blocks that nest the code inside them; "else if" continues its parent's level
+const increasesNesting = (node: ts.Node): boolean =>
+  (ts.isIfStatement(node) && !(ts.isIfStatement(node.parent) && node.parent.elseStatement === node)) ||
+  ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node) ||
+  ts.isWhileStatement(node) || ts.isDoStatement(node) || ts.isSwitchStatement(node) || ts.isTryStatement(node);
+
+/**
+ * Measure a function or source file, leaving out the functions nested in it
+ */
+function measureTypeScriptBody(root: ts.Node): BodyMetrics {
+  const metrics: BodyMetrics = { cyclomatic: 1, maxNesting: 0 };
+
+  const visit = (node: ts.Node, depth: number) => {
+    if (isFunctionWithBody(node)) return;
+
+    if (isDecisionPoint(node)) metrics.cyclomatic++;
+    const childDepth = increasesNesting(node) ? depth + 1 : depth;
+    metrics.maxNesting = Math.max(metrics.maxNesting, childDepth);
+
+    ts.forEachChild(node, (child) => visit(child, childDepth));
+  };
+  ts.forEachChild(root, (child) => visit(child, 0));
+
+  return metrics;
+}
+
+/**
+ * Readable name for a function, using the variable or property it is assigned
+ * to when it has none of its own and prefixing methods with their class
+ */
+function typeScriptFunctionName(node: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): string {
+  let name: string | undefined;
+  if (ts.isConstructorDeclaration(node)) {
+    name = "constructor";
+  } else if (node.name) {
+    name = node.name.getText(sourceFile);
+  } else if ((ts.isVariableDeclaration(node.parent) || ts.isPropertyAssignment(node.parent) ||
+    ts.isPropertyDeclaration(node.parent)) && node.parent.name) {
+    name = node.parent.name.getText(sourceFile);
+  }
+
+  if (!name) return "(anonymous)";
+
+  const owner = ts.isClassLike(node.parent) ? node.parent : ts.isPropertyDeclaration(node.parent) ? node.parent.parent : undefined;
+  return owner?.name ? `${owner.name.text}.${name}` : name;
+}
+
+/**
+ * Analyze JavaScript or TypeScript source
+ */
+function analyzeTypeScript(code: string, language: string, fileName?: string): FunctionComplexity[] {
+  // JavaScript is parsed as JSX so React components are understood
+  const scriptKind = language === "javascript"
+    ? ts.ScriptKind.JSX
+    : fileName?.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName ?? "snippet", code, ts.ScriptTarget.Latest, true, scriptKind);
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const functions: FunctionComplexity[] = [];
+  const collect = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) {
+      functions.push(toFunctionComplexity(
+        typeScriptFunctionName(node, sourceFile),
+        lineOf(node.getStart(sourceFile)),
+        lineOf(node.getEnd()),
+        measureTypeScriptBody(node)
+      ));
+    }
+    ts.forEachChild(node, collect);
+  };
+  collect(sourceFile);
+
+  const topLevel = topLevelEntry(code, functions, measureTypeScriptBody(sourceFile));
+  return topLevel ? [topLevel, ...functions] : functions;
+}
+
+// Reads source on stdin and prints per-function metrics as JSON
+const PYTHON_ANALYZER = `
+import ast, json, sys
+
+FUNCTIONS = (ast.FunctionDef, ast.AsyncFunctionDef)
+BRANCHES = tuple(getattr(ast, n) for n in ("If", "For", "AsyncFor", "While", "IfExp", "ExceptHandler", "match_case") if hasattr(ast, n))
+NESTING = tuple(getattr(ast, n) for n in ("If", "For", "AsyncFor", "While", "With", "AsyncWith", "Try", "TryStar", "Match") if hasattr(ast, n))
+
+def measure(root):
+    stats = {"cyclomatic": 1, "maxNesting": 0}
+
+    def visit(node, depth, parent):
+        if isinstance(node, FUNCTIONS):
+            return
+        if isinstance(node, BRANCHES):
+            stats["cyclomatic"] += 1
+        elif isinstance(node, ast.BoolOp):
+            stats["cyclomatic"] += len(node.values) - 1
+        elif isinstance(node, ast.comprehension):
+            stats["cyclomatic"] += 1 + len(node.ifs)
+        is_elif = isinstance(node, ast.If) and isinstance(parent, ast.If) and parent.orelse == [node]
+        if isinstance(node, NESTING) and not is_elif:
+            depth += 1
+        stats["maxNesting"] = max(stats["maxNesting"], depth)
+        for child in ast.iter_child_nodes(node):
+            visit(child, depth, node)
+
+    for child in ast.iter_child_nodes(root):
+        visit(child, 0, root)
+    return stats
+
+def collect(node, prefix, results):
+    for child in ast.iter_child_nodes(node):
+        if isinstance(child, FUNCTIONS):
+            name = prefix + child.name
+            results.append(dict(name=name, startLine=child.lineno, endLine=child.end_lineno, **measure(child)))
+            collect(child, name + ".", results)
+        elif isinstance(child, ast.ClassDef):
+            collect(child, prefix + child.name + ".", results)
+        else:
+            collect(child, prefix, results)
+
+try:
+    tree = ast.parse(sys.stdin.read())
+except SyntaxError as error:
+    print(json.dumps({"error": "%s (line %s)" % (error.msg, error.lineno)}))
+    sys.exit(0)
+
+functions = []
+collect(tree, "", functions)
+print(json.dumps({"functions": functions, "topLevel": measure(tree)}))
+`;
+
+interface PythonAnalyzerOutput {
+  error?: string;
+  functions: Array<BodyMetrics & { name: string; startLine: number; endLine: number }>;
+  topLevel: BodyMetrics;
+}
+
+/**
+ * Run the Python analyzer over source code
+ */
+function runPythonAnalyzer(code: string): Promise<PythonAnalyzerOutput> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("python3", ["-c", PYTHON_ANALYZER], { stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new ComplexityError("Python analysis timed out", 422));
+    }, PYTHON_TIMEOUT);
+
+    child.stdout.on("data", (chunk) => { stdout += chunk; });
+    child.stderr.on("data", (chunk) => { stderr += chunk; });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === "ENOENT"
+        ? new ComplexityError("Python analysis is not available on this server", 503)
+        : error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`Python analyzer failed: ${stderr.trim() || `exit code ${code}`}`));
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(stdout));
+      } catch (error) {
+        reject(new Error(`Python analyzer returned invalid output: ${String(error)}`));
+      }
+    });
+
+    // The analyzer may exit before reading everything, e.g. when it is killed
+    child.stdin.on("error", () => {});
+    child.stdin.end(code);
+  });
+}
+
+/**
+ * Analyze Python source
+ */
+async function analyzePython(code: string): Promise<FunctionComplexity[]> {
+  const output = await runPythonAnalyzer(code);
+  if (output.error) {
+    throw new ComplexityError(`Could not parse Python code: ${output.error}`, 422);
+  }
+
+  const functions = output.functions.map(({ name, startLine, endLine, cyclomatic, maxNesting }) =>
+    toFunctionComplexity(name, startLine, endLine, { cyclomatic, maxNesting })
+  );
+
+  const topLevel = topLevelEntry(code, functions, output.topLevel);
+  return topLevel ? [topLevel, ...functions] : functions;
+}
+
+/**
+ * Analyze the complexity of source code
+ * fileName is optional and only used to tell TSX apart from plain TypeScript.
+ */
+export async function analyzeComplexity(code: string, language: string, fileName?: string): Promise<ComplexityReport> {
+  if (!isComplexityLanguage(language)) {
+    throw new ComplexityError(`Complexity analysis is not supported for ${language}`, 422);
+  }
+
+  if (Buffer.byteLength(code, "utf8") > MAX_ANALYSIS_BYTES) {
+    throw new ComplexityError(`Code is larger than the ${MAX_ANALYSIS_BYTES / 1024} KB analysis limit`, 413);
+  }
+
+  const functions = language === "python"
+    ? await analyzePython(code)
+    : analyzeTypeScript(code, language, fileName);
+
+  return buildComplexityReport(language, functions);
+}
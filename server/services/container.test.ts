@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clampExecutionOptions,
+  executeCodeInContainer,
+  isNetworkIsolationAvailable,
+  startContainerExecution,
+} from "./container";
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  return () => vi.restoreAllMocks();
+});
+
+describe("clampExecutionOptions", () => {
+  it("bounds requested limits by the server's maximums", () => {
+    expect(clampExecutionOptions({ timeout: 600000, memory: "8g", cpu: "16" })).toEqual({ timeout: 30000, memoryMb: 1024, cpu: 2 });
+    expect(clampExecutionOptions({ timeout: 1500.4, memory: "512m", cpu: "0.5" })).toEqual({ timeout: 1500, memoryMb: 512, cpu: 0.5 });
+  });
+
+  it("falls back to the defaults for missing or malformed options", () => {
+    const defaults = { timeout: 10000, memoryMb: 256, cpu: 1 };
+    expect(clampExecutionOptions({})).toEqual(defaults);
+    expect(clampExecutionOptions({ timeout: -5, memory: "lots", cpu: "none" })).toEqual(defaults);
+    expect(clampExecutionOptions({ timeout: "soon", memory: 512, cpu: 4 } as never)).toEqual(defaults);
+  });
+});
+
+describe("executeCodeInContainer", () => {
+  it("refuses languages it has no runtime for", async () => {
+    const result = await executeCodeInContainer("main = putStrLn \"hi\"", "haskell");
+    expect(result).toMatchObject({ exitCode: 1, executionTime: 0 });
+    expect(result.output).toMatch(/Execution for haskell is not supported/);
+  });
+});
+
+describe.skipIf(!isNetworkIsolationAvailable())("the sandbox", () => {
+  it("runs a program and reports its output, exit code and memory", async () => {
+    const result = await executeCodeInContainer("console.log(6 * 7); process.exit(3);", "js");
+    expect(result).toMatchObject({ output: "42\n", exitCode: 3 });
+    expect(result.memoryUsage).toBeGreaterThan(0);
+  });
+
+  it("kills programs that run past their timeout", async () => {
+    const result = await executeCodeInContainer("while true; do :; done", "bash", { timeout: 500 });
+    expect(result.exitCode).toBe(137);
+    expect(result.output).toMatch(/execution timed out after 500ms/);
+    expect(result.executionTime).toBeLessThan(5000);
+  });
+
+  it("hides the server's processes and network from the program", async () => {
+    const result = await executeCodeInContainer([
+      "tr '\\0' ' ' < /proc/1/cmdline; echo",
+      "tail -n +3 /proc/net/dev | cut -d: -f1 | tr -d ' '",
+      "ulimit -u",
+    ].join("\n"), "bash");
+    expect(result.output.split("\n")).toEqual([expect.stringMatching(/^bash \S+\/main\.sh $/), "lo", "256", ""]);
+  });
+
+  it("streams input to the program and cancels it on request", async () => {
+    const output: string[] = [];
+    const execution = startContainerExecution("read name; echo \"hi $name\"; sleep 30", "bash", {}, {
+      onOutput: (_stream, data) => output.push(data),
+    });
+
+    execution.writeInput("ada\n");
+    await vi.waitFor(() => expect(output.join("")).toBe("hi ada\n"));
+    execution.kill();
+
+    const result = await execution.result;
+    expect(result.exitCode).toBe(137);
+    expect(result.output).toMatch(/\[execution cancelled\]$/);
+  });
+});
+
+describe("without network isolation", () => {
+  const loadContainer = async () => {
+    vi.resetModules();
+    vi.doMock("child_process", async (importOriginal) => ({
+      ...(await importOriginal<typeof import("child_process")>()),
+      spawnSync: () => ({ status: 1 }),
+    }));
+    return import("./container");
+  };
+
+  afterEach(() => {
+    vi.doUnmock("child_process");
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses to run code", async () => {
+    const container = await loadContainer();
+    const result = await container.executeCodeInContainer("echo hi", "bash");
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toMatch(/cannot run code without network access/);
+  });
+
+  it("runs code with network access when the server allows it", async () => {
+    vi.stubEnv("SANDBOX_ALLOW_NETWORK", "true");
+    const container = await loadContainer();
+    await expect(container.executeCodeInContainer("echo hi", "bash")).resolves.toMatchObject({ output: "hi\n", exitCode: 0 });
+  });
+});
@@ -1,27 +1,117 @@
 /**
  * Container service for code execution
- * Provides functions to create and manage containerized environments
+ * Provides functions to create and manage sandboxed environments
  * for executing code in different languages
  */
 
-// Mock container service for development
-// In a production environment, this would use Docker SDK or Kubernetes API
+import { spawn, spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { nanoid } from "nanoid";
+
+// Each execution runs as a separate process inside a throwaway scratch
+// directory, with rlimits applied by a small shell wrapper. Unprivileged user
+// namespaces, where the kernel allows them, take away network access and give
+// the program its own process tree and /proc, so it cannot see or signal the
+// server or read its environment. The rest of the filesystem stays readable:
+// secrets must come from the environment, never from files in the app directory.
 
 // Interface for container execution options
-interface ContainerExecutionOptions {
+export interface ContainerExecutionOptions {
   timeout?: number;
   memory?: string;
   cpu?: string;
 }
 
 // Interface for container execution result
-interface ContainerExecutionResult {
+export interface ContainerExecutionResult {
   output: string;
   exitCode: number;
   executionTime: number;
   memoryUsage?: number;
 }
 
+// Runtime description for a supported language
+interface LanguageRuntime {
+  fileName: string;
+  usesNode: boolean;
+  command: (filePath: string, memoryMb: number) => string[];
+}
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_MEMORY = "256m";
+const DEFAULT_CPU = "1";
+
+// Upper bounds for limits requested by clients
+const MAX_TIMEOUT = 30000;
+const MAX_MEMORY_MB = 1024;
+const MAX_CPU = 2;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_FILE_SIZE_KB = 10 * 1024;
+// Counted per user, and not enforced at all when the server runs as root
+const MAX_PROCESSES = 256;
+
+// Network, mount and PID namespaces; --kill-child takes the whole tree down
+// with the wrapper, since the namespace ends when its first process does
+const NAMESPACE_ARGS = ["-rnmpf", "--mount-proc", "--kill-child"];
+
+const runtimes: Record<string, LanguageRuntime> = {
+  javascript: {
+    fileName: "main.js",
+    usesNode: true,
+    command: (filePath, memoryMb) => [process.execPath, `--max-old-space-size=${memoryMb}`, filePath],
+  },
+  typescript: {
+    fileName: "main.ts",
+    usesNode: true,
+    command: (filePath, memoryMb) => [
+      process.execPath,
+      `--max-old-space-size=${memoryMb}`,
+      "--import",
+      import.meta.resolve("tsx"),
+      filePath,
+    ],
+  },
+  python: {
+    fileName: "main.py",
+    usesNode: false,
+    command: (filePath) => ["python3", "-u", filePath],
+  },
+  bash: {
+    fileName: "main.sh",
+    usesNode: false,
+    command: (filePath) => ["bash", filePath],
+  },
+};
+
+const languageAliases: Record<string, string> = {
+  js: "javascript",
+  ts: "typescript",
+  py: "python",
+  shell: "bash",
+  sh: "bash",
+};
+
+let networkIsolationAvailable: boolean | undefined;
+
+// Output stream a chunk was read from
+export type ContainerOutputStream = "stdout" | "stderr";
+
+// Callbacks for consuming execution output as it is produced
+export interface ContainerExecutionHandlers {
+  onOutput?: (stream: ContainerOutputStream, data: string) => void;
+}
+
+// Handle to a running execution
+export interface ContainerExecution {
+  id: string;
+  result: Promise<ContainerExecutionResult>;
+  writeInput(data: string): void;
+  closeInput(): void;
+  kill(): void;
+}
+
 /**
  * Execute code in a container
  * @param code The code to execute
@@ -33,133 +123,360 @@ export async function executeCodeInContainer(
   code: string,
   language: string,
   options: ContainerExecutionOptions = {}
-): Promise<string> {
-  console.log(`Executing ${language} code in container...`);
-  
-  // In a real implementation, this would:
-  // 1. Create a container with the appropriate runtime
-  // 2. Write code to a file in the container
-  // 3. Execute the code with appropriate settings
-  // 4. Capture output and errors
-  // 5. Clean up the container
-  
-  // For development, simulate execution with a delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Mock execution based on language
-  switch (language.toLowerCase()) {
-    case 'javascript':
-    case 'js':
-      return mockJavaScriptExecution(code);
-    case 'python':
-    case 'py':
-      return mockPythonExecution(code);
-    case 'typescript':
-    case 'ts':
-      return mockTypeScriptExecution(code);
-    case 'bash':
-    case 'shell':
-      return mockBashExecution(code);
-    default:
-      return `Execution for ${language} not implemented in development environment.\n` +
-        "In production, this would execute in a real container.";
+): Promise<ContainerExecutionResult> {
+  const execution = startContainerExecution(code, language, options);
+  execution.closeInput();
+  return execution.result;
+}
+
+/**
+ * Start executing code in a container without waiting for it to finish
+ * @param code The code to execute
+ * @param language The programming language
+ * @param options Execution options
+ * @param handlers Callbacks receiving output while the process runs
+ * @returns Handle for streaming input to and cancelling the execution
+ */
+export function startContainerExecution(
+  code: string,
+  language: string,
+  options: ContainerExecutionOptions = {},
+  handlers: ContainerExecutionHandlers = {}
+): ContainerExecution {
+  const id = nanoid();
+  console.log(`Executing ${language} code in container ${id}...`);
+
+  const normalizedLanguage = language.toLowerCase();
+  const runtime = runtimes[languageAliases[normalizedLanguage] || normalizedLanguage];
+
+  if (!runtime) {
+    return refuseExecution(id, `Execution for ${language} is not supported.\n` +
+      `Supported languages: ${Object.keys(runtimes).join(", ")}`, handlers);
+  }
+
+  // Without a network namespace the program could reach the network, so
+  // nothing runs unless the server explicitly allows that
+  const isolated = isNetworkIsolationAvailable();
+  if (!isolated && process.env.SANDBOX_ALLOW_NETWORK !== "true") {
+    return refuseExecution(id, "Code execution is unavailable: this server cannot run code without network access.\n" +
+      "Set SANDBOX_ALLOW_NETWORK=true to run code with network access anyway.", handlers);
+  }
+
+  const { timeout, memoryMb, cpu } = clampExecutionOptions(options);
+  const cpuTimeLimit = Math.max(1, Math.ceil((timeout / 1000) * cpu));
+
+  const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), "cloudide-exec-"));
+  const filePath = path.join(scratchDir, runtime.fileName);
+  fs.writeFileSync(filePath, code, "utf-8");
+
+  // V8 reserves far more address space than it uses, so Node runtimes are
+  // bounded through --max-old-space-size instead of a virtual memory rlimit
+  const limits = [`ulimit -t ${cpuTimeLimit}`];
+  if (!runtime.usesNode) {
+    limits.push(`ulimit -v ${memoryMb * 1024}`);
   }
+
+  const [command, ...args] = [...sandboxWrapper(isolated, limits), ...runtime.command(filePath, memoryMb)];
+
+  const execution = spawnSandboxedProcess(id, command, args, scratchDir, timeout, handlers);
+
+  return {
+    ...execution,
+    result: execution.result.finally(() =>
+      fs.promises.rm(scratchDir, { recursive: true, force: true })
+    ),
+  };
 }
 
 /**
- * Mock JavaScript execution
+ * Command prefix that applies the sandbox's rlimits, and its namespaces when
+ * available, before running the command that follows it
+ * @param isolated Whether to run inside fresh namespaces
+ * @param limits Extra ulimit commands on top of those every sandbox gets
  */
-function mockJavaScriptExecution(code: string): string {
-  try {
-    // Basic simulation - not actually executing the code
-    if (code.includes('console.log')) {
-      return "Output from JavaScript execution:\n" +
-        code.match(/console\.log\(['"](.+?)['"]\)/g)
-          ?.map(match => match.replace(/console\.log\(['"](.+?)['"]\)/, '$1'))
-          .join('\n') || "No console.log statements found";
+export function sandboxWrapper(isolated: boolean, limits: string[] = []): string[] {
+  const allLimits = [`ulimit -f ${MAX_FILE_SIZE_KB}`, "ulimit -c 0", `ulimit -u ${MAX_PROCESSES}`, ...limits];
+  return [...(isolated ? ["unshare", ...NAMESPACE_ARGS] : []), "bash", "-c", `${allLimits.join("; ")}; exec "$@"`, "sandbox"];
+}
+
+/**
+ * An execution that never starts, reporting why
+ */
+function refuseExecution(id: string, output: string, handlers: ContainerExecutionHandlers): ContainerExecution {
+  handlers.onOutput?.("stderr", output);
+
+  return {
+    id,
+    result: Promise.resolve({ output, exitCode: 1, executionTime: 0 }),
+    writeInput: () => {},
+    closeInput: () => {},
+    kill: () => {},
+  };
+}
+
+/**
+ * Requested limits bounded by the server's maximums
+ * Options come from clients, so anything missing or malformed falls back to the defaults.
+ */
+export function clampExecutionOptions(options: ContainerExecutionOptions): { timeout: number; memoryMb: number; cpu: number } {
+  const timeout = Number(options.timeout ?? DEFAULT_TIMEOUT);
+  const memory = typeof options.memory === "string" ? options.memory : DEFAULT_MEMORY;
+  const cpu = typeof options.cpu === "string" ? options.cpu : DEFAULT_CPU;
+
+  return {
+    timeout: Number.isFinite(timeout) && timeout > 0 ? Math.min(Math.round(timeout), MAX_TIMEOUT) : DEFAULT_TIMEOUT,
+    memoryMb: Math.min(parseMemoryLimit(memory), MAX_MEMORY_MB),
+    cpu: Math.min(parseCpuLimit(cpu), MAX_CPU),
+  };
+}
+
+/**
+ * Spawn the sandboxed process and collect its output until it exits
+ */
+function spawnSandboxedProcess(
+  id: string,
+  command: string,
+  args: string[],
+  scratchDir: string,
+  timeout: number,
+  handlers: ContainerExecutionHandlers
+): ContainerExecution {
+  const startTime = Date.now();
+  const chunks: string[] = [];
+  let outputBytes = 0;
+  let truncated = false;
+  let timedOut = false;
+  let killed = false;
+  let peakMemory: number | undefined;
+
+  const child = spawn(command, args, {
+    cwd: scratchDir,
+    env: {
+      PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+      HOME: scratchDir,
+      TMPDIR: scratchDir,
+      LANG: "C.UTF-8",
+    },
+    stdio: ["pipe", "pipe", "pipe"],
+    detached: true,
+  });
+
+  // The kernel drops a process's memory figures as it exits, before Node
+  // can read them, so short runs are sampled as they start and whenever
+  // they write, besides on a timer
+  const sampleMemory = () => {
+    const usage = child.pid ? readPeakMemory(child.pid) : undefined;
+    if (usage !== undefined) {
+      peakMemory = Math.max(peakMemory ?? 0, usage);
     }
-    
-    if (code.includes('Error') || code.includes('error')) {
-      return "Error: JavaScript execution encountered an error (simulated)";
+  };
+
+  const collect = (stream: ContainerOutputStream) => (data: string) => {
+    sampleMemory();
+    if (outputBytes >= MAX_OUTPUT_BYTES) {
+      truncated = true;
+      return;
     }
-    
-    return "JavaScript code executed successfully (simulated).";
-  } catch (error) {
-    return `Error executing JavaScript: ${error instanceof Error ? error.message : String(error)}`;
+
+    const chunk = data.slice(0, MAX_OUTPUT_BYTES - outputBytes);
+    chunks.push(chunk);
+    outputBytes += Buffer.byteLength(chunk);
+    handlers.onOutput?.(stream, chunk);
+  };
+
+  child.stdout.setEncoding("utf-8");
+  child.stderr.setEncoding("utf-8");
+  child.stdout.on("data", collect("stdout"));
+  child.stderr.on("data", collect("stderr"));
+  // Writing after the program exits raises EPIPE, which is not an error here
+  child.stdin.on("error", () => {});
+
+  // Sample the resident set size while the process runs
+  child.on("spawn", sampleMemory);
+  const memoryTimer = setInterval(sampleMemory, 50);
+
+  const timeoutTimer = setTimeout(() => {
+    timedOut = true;
+    killProcessGroup(child.pid);
+  }, timeout);
+
+  const result = new Promise<ContainerExecutionResult>((resolve) => {
+    const finish = (exitCode: number, extra: string = "") => {
+      clearInterval(memoryTimer);
+      clearTimeout(timeoutTimer);
+
+      const notices = [
+        truncated ? "[output truncated]" : "",
+        timedOut ? `[execution timed out after ${timeout}ms]` : "",
+        killed ? "[execution cancelled]" : "",
+        extra,
+      ].filter(Boolean);
+
+      if (notices.length > 0) {
+        handlers.onOutput?.("stderr", `\n${notices.join("\n")}`);
+      }
+
+      resolve({
+        output: chunks.join("") + (notices.length > 0 ? `\n${notices.join("\n")}` : ""),
+        exitCode,
+        executionTime: Date.now() - startTime,
+        memoryUsage: peakMemory,
+      });
+    };
+
+    child.on("error", (error) => {
+      finish(127, `Error starting process: ${error.message}`);
+    });
+
+    child.on("close", (code, signal) => {
+      // Make sure nothing the program forked outlives it
+      killProcessGroup(child.pid);
+      finish(code ?? (signal ? 128 + (os.constants.signals[signal] ?? 0) : 1));
+    });
+  });
+
+  return {
+    id,
+    result,
+    writeInput: (data: string) => {
+      if (child.stdin.writable) {
+        child.stdin.write(data);
+      }
+    },
+    closeInput: () => {
+      child.stdin.end();
+    },
+    kill: () => {
+      if (child.exitCode === null && child.signalCode === null) {
+        killed = true;
+        killProcessGroup(child.pid);
+      }
+    },
+  };
+}
+
+/**
+ * Parse a memory limit such as "512m" or "1g" into megabytes
+ */
+function parseMemoryLimit(memory: string): number {
+  const match = memory.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/);
+  if (!match) {
+    return parseMemoryLimit(DEFAULT_MEMORY);
+  }
+
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case "k":
+      return Math.max(1, Math.ceil(value / 1024));
+    case "g":
+      return Math.ceil(value * 1024);
+    case "m":
+      return Math.ceil(value);
+    default:
+      return Math.max(1, Math.ceil(value / (1024 * 1024)));
   }
 }
 
 /**
- * Mock Python execution
+ * Parse a CPU limit such as "0.5" or "2" into a number of cores
+ */
+function parseCpuLimit(cpu: string): number {
+  const value = parseFloat(cpu);
+  return Number.isFinite(value) && value > 0 ? value : 1;
+}
+
+/**
+ * Read the largest peak resident set size among a process and its
+ * descendants in bytes (Linux only)
+ * The program runs below the namespace wrapper, so its own figures are
+ * found further down the tree.
  */
-function mockPythonExecution(code: string): string {
+function readPeakMemory(pid: number): number | undefined {
+  let peak: number | undefined;
+
   try {
-    // Basic simulation - not actually executing the code
-    if (code.includes('print')) {
-      return "Output from Python execution:\n" +
-        code.match(/print\(['"](.+?)['"]\)/g)
-          ?.map(match => match.replace(/print\(['"](.+?)['"]\)/, '$1'))
-          .join('\n') || "No print statements found";
-    }
-    
-    if (code.includes('Error') || code.includes('error') || code.includes('except')) {
-      return "Error: Python execution encountered an error (simulated)";
-    }
-    
-    return "Python code executed successfully (simulated).";
-  } catch (error) {
-    return `Error executing Python: ${error instanceof Error ? error.message : String(error)}`;
+    const status = fs.readFileSync(`/proc/${pid}/status`, "utf-8");
+    const match = status.match(/^VmHWM:\s+(\d+)\s+kB/m);
+    peak = match ? parseInt(match[1], 10) * 1024 : undefined;
+
+  } catch {
+    // Process already exited
   }
+
+  readChildPids(pid).forEach((child) => {
+    const usage = readPeakMemory(child);
+    if (usage !== undefined) {
+      peak = Math.max(peak ?? 0, usage);
+    }
+  });
+
+  return peak;
 }
 
 /**
- * Mock TypeScript execution
+ * List the direct children of a process (Linux only)
  */
-function mockTypeScriptExecution(code: string): string {
+function readChildPids(pid: number): number[] {
   try {
-    // Check for type errors in the mock simulation
-    if (code.includes(':') && code.includes('=') && code.includes('any')) {
-      return "TypeScript compilation successful (simulated).\n" +
-        "Warning: Usage of 'any' type detected.";
-    }
-    
-    if (code.includes('console.log')) {
-      return "TypeScript compilation successful (simulated).\n" +
-        "Output from execution:\n" +
-        code.match(/console\.log\(['"](.+?)['"]\)/g)
-          ?.map(match => match.replace(/console\.log\(['"](.+?)['"]\)/, '$1'))
-          .join('\n') || "No console.log statements found";
-    }
-    
-    return "TypeScript code compiled and executed successfully (simulated).";
-  } catch (error) {
-    return `Error executing TypeScript: ${error instanceof Error ? error.message : String(error)}`;
+    return fs.readFileSync(`/proc/${pid}/task/${pid}/children`, "utf-8").split(" ").filter(Boolean).map(Number);
+  } catch {
+    // The process exited, or the kernel does not list children
+    return [];
   }
 }
 
 /**
- * Mock Bash execution
+ * Kill a detached child together with everything it spawned
  */
-function mockBashExecution(code: string): string {
+export function killProcessGroup(pid: number | undefined) {
+  if (!pid) return;
+
   try {
-    // Basic simulation - not actually executing the code
-    if (code.includes('echo')) {
-      return "Output from Bash execution:\n" +
-        code.match(/echo ["'](.+?)["']/g)
-          ?.map(match => match.replace(/echo ["'](.+?)["']/, '$1'))
-          .join('\n') || "No echo statements found";
-    }
-    
-    if (code.includes('ls')) {
-      return "file1.txt\nfile2.js\ndirectory1/\ndirectory2/";
+    process.kill(-pid, "SIGKILL");
+  } catch {
+    // Process group already exited
+  }
+}
+
+/**
+ * Kill a detached child, its process group and every descendant, including
+ * those that moved to process groups or sessions of their own
+ */
+export function killProcessTree(pid: number | undefined) {
+  if (!pid) return;
+
+  // Descendants are listed first, as killing their parents orphans them
+  const descendants: number[] = [];
+  const collect = (parent: number) => readChildPids(parent).forEach((child) => {
+    descendants.push(child);
+    collect(child);
+  });
+  collect(pid);
+
+  killProcessGroup(pid);
+  descendants.forEach((descendant) => {
+    try {
+      process.kill(descendant, "SIGKILL");
+    } catch {
+      // Process already exited
     }
-    
-    if (code.includes('pwd')) {
-      return "/home/user/project";
+  });
+}
+
+/**
+ * Check once whether the sandbox's unprivileged namespaces can be created
+ */
+export function isNetworkIsolationAvailable(): boolean {
+  if (networkIsolationAvailable === undefined) {
+    const probe = spawnSync("unshare", [...NAMESPACE_ARGS, "true"], { stdio: "ignore", timeout: 2000 });
+    networkIsolationAvailable = probe.status === 0;
+
+    if (!networkIsolationAvailable) {
+      console.warn(process.env.SANDBOX_ALLOW_NETWORK === "true"
+        ? "Network namespaces are unavailable; sandboxed code will run with network access"
+        : "Network namespaces are unavailable; code execution is disabled (set SANDBOX_ALLOW_NETWORK=true to allow it)");
     }
-    
-    return "Bash commands executed successfully (simulated).";
-  } catch (error) {
-    return `Error executing Bash: ${error instanceof Error ? error.message : String(error)}`;
   }
+
+  return networkIsolationAvailable;
 }
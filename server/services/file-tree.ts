@@ -0,0 +1,198 @@
+/**
+ * Project file tree service
+ * Keeps a project's file rows consistent as a tree: canonical paths,
+ * parent folders that always exist, one entry per path, and folder
+ * operations that carry their contents along
+ */
+
+import { storage } from "../storage";
+import type { File, InsertFile } from "@shared/schema";
+import {
+  baseNameOf,
+  getLanguageForFile,
+  normalizeFilePath,
+  parentPathOf,
+  type FileTreeItem,
+} from "@shared/file-tree";
+
+// Error raised for invalid tree operations, carrying the HTTP status to respond with
+export class FileTreeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "FileTreeError";
+  }
+}
+
+// Options for creating a file or folder
+interface CreateEntryOptions {
+  path: string;
+  content?: string | null;
+  isFolder: boolean;
+}
+
+/**
+ * Normalize a client-supplied path, rejecting ones outside the project
+ */
+export function requireValidPath(path: string): string {
+  const normalized = normalizeFilePath(path);
+  if (!normalized) {
+    throw new FileTreeError(`Invalid path "${path}"`);
+  }
+  return normalized;
+}
+
+/**
+ * Whether a row sits at or below the given path
+ */
+function isWithin(row: File, path: string): boolean {
+  return row.path === path || row.path.startsWith(`${path}/`);
+}
+
+/**
+ * Folder rows for every missing ancestor of a path, outermost first
+ */
+function missingParentFolders(projectId: number, rows: File[], path: string): InsertFile[] {
+  const segments = path.split("/").filter(Boolean).slice(0, -1);
+  const folders: InsertFile[] = [];
+  let current = "";
+
+  for (const segment of segments) {
+    current += `/${segment}`;
+    const existing = rows.find((row) => row.path === current);
+
+    if (existing && !existing.isFolder) {
+      throw new FileTreeError(`"${current}" is a file, not a folder`, 409);
+    }
+
+    if (!existing) {
+      folders.push({
+        projectId,
+        name: segment,
+        path: current,
+        content: null,
+        isFolder: true,
+      });
+    }
+  }
+
+  return folders;
+}
+
+/**
+ * Create a file or folder, creating its parent folders as needed
+ */
+export async function createEntry(projectId: number, options: CreateEntryOptions): Promise<File> {
+  const path = requireValidPath(options.path);
+  const rows = await storage.getFilesByProjectId(projectId);
+
+  if (rows.some((row) => row.path === path)) {
+    throw new FileTreeError(`"${path}" already exists`, 409);
+  }
+
+  for (const folder of missingParentFolders(projectId, rows, path)) {
+    await storage.createFile(folder);
+  }
+
+  return storage.createFile({
+    projectId,
+    name: baseNameOf(path),
+    path,
+    content: options.isFolder ? null : options.content ?? "",
+    isFolder: options.isFolder,
+  });
+}
+
+/**
+ * Move or rename a file or folder; folders take their contents with them
+ */
+export async function moveEntry(file: File, newPathInput: string): Promise<File> {
+  const newPath = requireValidPath(newPathInput);
+  if (newPath === file.path) return file;
+
+  if (file.isFolder && newPath.startsWith(`${file.path}/`)) {
+    throw new FileTreeError(`Cannot move "${file.path}" into itself`);
+  }
+
+  const rows = await storage.getFilesByProjectId(file.projectId);
+  if (rows.some((row) => isWithin(row, newPath))) {
+    throw new FileTreeError(`"${newPath}" already exists`, 409);
+  }
+
+  const newFolders = missingParentFolders(file.projectId, rows, newPath);
+  const moved = await storage.moveFiles(file.projectId, file.path, newPath, newFolders);
+
+  return moved.find((row) => row.id === file.id) ?? file;
+}
+
+/**
+ * Delete a file, or a folder together with everything inside it
+ */
+export async function deleteEntry(file: File): Promise<number> {
+  return storage.deleteFiles(file.projectId, file.path);
+}
+
+/**
+ * Build the nested tree of a project, folders first and then by name
+ */
+export async function getProjectTree(projectId: number): Promise<FileTreeItem[]> {
+  const rows = await storage.getFilesByProjectId(projectId);
+  const root: FileTreeItem[] = [];
+  const folders = new Map<string, FileTreeItem>();
+
+  // Rows written before paths were normalized may lack parent folders
+  const getChildren = (path: string): FileTreeItem[] => {
+    if (path === "") return root;
+
+    let folder = folders.get(path);
+    if (!folder) {
+      folder = { id: `folder:${path}`, name: baseNameOf(path), type: "folder", path, children: [] };
+      folders.set(path, folder);
+      getChildren(parentPathOf(path)).push(folder);
+    }
+    return folder.children!;
+  };
+
+  const ordered = rows
+    .map((row) => ({ row, path: normalizeFilePath(row.path) }))
+    .filter((entry): entry is { row: File; path: string } => entry.path !== null)
+    .sort((a, b) => Number(b.row.isFolder) - Number(a.row.isFolder) || a.path.localeCompare(b.path));
+
+  for (const { row, path } of ordered) {
+    if (row.isFolder) {
+      if (folders.has(path)) continue;
+
+      const folder: FileTreeItem = {
+        id: `folder-${row.id}`,
+        name: baseNameOf(path),
+        type: "folder",
+        children: [],
+        serverId: row.id,
+        path,
+        updatedAt: row.updatedAt,
+      };
+      folders.set(path, folder);
+      getChildren(parentPathOf(path)).push(folder);
+    } else {
+      getChildren(parentPathOf(path)).push({
+        id: `file-${row.id}`,
+        name: baseNameOf(path),
+        type: "file",
+        language: getLanguageForFile(row.name),
+        content: row.content ?? "",
+        serverId: row.id,
+        path,
+        updatedAt: row.updatedAt,
+      });
+    }
+  }
+
+  const sortChildren = (items: FileTreeItem[]) => {
+    items.sort((a, b) =>
+      Number(b.type === "folder") - Number(a.type === "folder") || a.name.localeCompare(b.name)
+    );
+    items.forEach((item) => item.children && sortChildren(item.children));
+  };
+  sortChildren(root);
+
+  return root;
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getAiProvider, type AiProvider } from "./ai-provider";
+import { aiCompleteSuggestions, aiGenerateContextAwareCode } from "./openai";
+import type { RetrievedContext } from "./project-context";
+
+const context: RetrievedContext = {
+  currentFilePath: "/main.py",
+  projectStructure: ["/main.py"],
+  chunks: [],
+  files: new Map([["/main.py", "print('hi')\n"]]),
+};
+
+// A provider that always answers with the given text
+const replyingWith = (reply: string): AiProvider => ({
+  name: "local",
+  model: "fake",
+  complete: async () => reply,
+  async *stream() {
+    yield reply;
+  },
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  return () => vi.restoreAllMocks();
+});
+
+describe("aiGenerateContextAwareCode", () => {
+  it("reads structured edits from a JSON reply", async () => {
+    const reply = JSON.stringify({
+      explanation: "Greets louder",
+      edits: [{ path: "/main.py", edits: [{ startLine: 1, endLine: 1, newText: "print('HI')" }] }],
+    });
+
+    const result = await aiGenerateContextAwareCode("shout", "python", context, { provider: replyingWith(reply) });
+    expect(result).toEqual({
+      code: "print('HI')",
+      explanation: "Greets louder",
+      edits: [{ path: "/main.py", edits: [{ startLine: 1, endLine: 1, newText: "print('HI')" }] }],
+    });
+  });
+
+  it("ignores fields of the wrong type", async () => {
+    const reply = JSON.stringify({ explanation: 42, code: "x = 1", edits: "none" });
+
+    const result = await aiGenerateContextAwareCode("set x", "python", context, { provider: replyingWith(reply) });
+    expect(result).toEqual({ code: "x = 1", explanation: "", edits: [] });
+  });
+
+  it("reads a reply that is not a JSON object as free text", async () => {
+    const reply = "```python\nx = 1\n```\nSets x.";
+
+    const result = await aiGenerateContextAwareCode("set x", "python", context, { provider: replyingWith(reply) });
+    expect(result).toEqual({ code: "x = 1", explanation: "Sets x.", edits: [] });
+
+    const list = await aiGenerateContextAwareCode("set x", "python", context, { provider: replyingWith("[1, 2]") });
+    expect(list.edits).toEqual([]);
+  });
+});
+
+describe("the local provider", () => {
+  const provider = getAiProvider("local");
+
+  it("answers context-aware generation with code and an explanation", async () => {
+    const result = await aiGenerateContextAwareCode("anything", "python", context, { provider });
+    expect(result.code).toBe("// Placeholder code from the local AI provider");
+    expect(result.explanation).toMatch(/local AI provider/);
+    expect(result.edits).toEqual([]);
+  });
+
+  it("answers completion with suggestions", async () => {
+    const suggestions = await aiCompleteSuggestions("pri", { lineNumber: 1, column: 4 }, "python", { provider });
+    expect(suggestions).toEqual([expect.objectContaining({ text: "// suggested by the local AI provider", description: expect.any(String) })]);
+  });
+});
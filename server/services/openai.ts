@@ -1,47 +1,193 @@
 /**
- * OpenAI integration service
- * Provides functions for AI-powered code generation, completion, explanation, and debugging
+ * AI assistant service
+ * Provides functions for AI-powered code generation, completion, explanation, and debugging,
+ * each served by the request's AI provider and metered against the requesting user
  */
 
-import OpenAI from "openai";
+import { z } from "zod";
+import { getAiProvider, type AiChatMessage, type AiCompletionRequest, type AiProvider, type AiTokenUsage } from "./ai-provider";
+import { parseFileEdits } from "./ai-edits";
+import { recordAiUsage } from "./ai-usage";
+import type { RetrievedContext } from "./project-context";
+import type { AiFeature } from "@shared/ai-usage";
+import type { AiFileEdit } from "@shared/project-context";
 
-// Initialize OpenAI client
-// Note: In a production environment, API key would be stored in environment variables
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || "sk-default-key-for-development"
-});
+// Which provider serves a request, who it is metered against and how it may be cancelled
+export interface AiRequestOptions {
+  // Defaults to the server's default provider
+  provider?: AiProvider;
+  // User whose usage the request counts towards; requests without one are not metered
+  userId?: number;
+  // Feature the usage is reported under, when not the function's own
+  feature?: AiFeature;
+  signal?: AbortSignal;
+}
+
+// Sampling settings for a kind of request, shared by its one-shot and streaming variants
+interface CompletionOptions {
+  temperature: number;
+  maxTokens: number;
+}
+
+const providerFor = (options: AiRequestOptions): AiProvider => options.provider ?? getAiProvider();
+
+// A completion request as the functions below build it; signal and usage are filled in when it is sent
+type MeteredRequest = Omit<AiCompletionRequest, "feature" | "signal" | "onUsage">;
+
+/**
+ * Record a request's usage against the user, estimating the tokens from the
+ * text when the provider did not count them
+ */
+function meterUsage(
+  feature: AiFeature,
+  options: AiRequestOptions,
+  provider: AiProvider,
+  request: MeteredRequest,
+  usage: AiTokenUsage | undefined,
+  completion: string,
+  startedAt: number
+) {
+  if (options.userId === undefined) return;
+  
+  const promptTokens = request.messages.reduce((total, message) =>
+    total + estimateTokens(typeof message.content === "string" ? message.content : "") + MESSAGE_OVERHEAD_TOKENS, 0);
+  
+  recordAiUsage({
+    userId: options.userId,
+    feature: options.feature ?? feature,
+    provider: provider.name,
+    model: usage?.model ?? provider.model,
+    promptTokens: usage?.promptTokens ?? promptTokens,
+    completionTokens: usage?.completionTokens ?? estimateTokens(completion),
+    latencyMs: Date.now() - startedAt,
+  }).catch((error) => console.error("Error recording AI usage:", error));
+}
+
+/**
+ * Send a request to the request's provider and meter it
+ */
+async function complete(feature: AiFeature, request: MeteredRequest, options: AiRequestOptions): Promise<string> {
+  const provider = providerFor(options);
+  const startedAt = Date.now();
+  let usage: AiTokenUsage | undefined;
+  
+  const response = await provider.complete({ ...request, feature, signal: options.signal, onUsage: (reported) => { usage = reported; } });
+  meterUsage(feature, options, provider, request, usage, response, startedAt);
+  return response;
+}
+
+/**
+ * Stream a request's response from the request's provider and meter it
+ * A stream cut short is metered for what it produced, latency running to its end.
+ */
+async function* stream(feature: AiFeature, request: MeteredRequest, options: AiRequestOptions): AsyncGenerator<string> {
+  const provider = providerFor(options);
+  const startedAt = Date.now();
+  let usage: AiTokenUsage | undefined;
+  let completion = "";
+  
+  try {
+    for await (const text of provider.stream({ ...request, feature, signal: options.signal, onUsage: (reported) => { usage = reported; } })) {
+      completion += text;
+      yield text;
+    }
+  } finally {
+    if (usage || completion) {
+      meterUsage(feature, options, provider, request, usage, completion, startedAt);
+    }
+  }
+}
+
+// An earlier turn of a conversation
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Tokens a chat prompt may use, leaving the rest of the model's context for the reply
+const MAX_CHAT_PROMPT_TOKENS = 6000;
+
+// Tokens each message costs beyond its content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const CHAT_SYSTEM_PROMPT = "You are an AI coding assistant integrated into a cloud IDE. Provide helpful, clear, and concise responses about code, programming concepts, and development best practices. When asked to explain code, show examples where appropriate. When giving coding advice, consider the user's current context if provided.";
+
+/**
+ * Rough token count, at about four characters per token of English or code
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const MODEL = "gpt-4o";
+/**
+ * The most recent turns of a conversation that fit in a token budget, oldest first
+ * The kept history never opens with a reply whose question was dropped.
+ */
+export function trimChatHistory(history: ChatTurn[], budget: number): ChatTurn[] {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+  
+  for (let i = history.length - 1; i >= 0; i--) {
+    used += estimateTokens(history[i].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (used > budget) break;
+    kept.unshift(history[i]);
+  }
+  
+  while (kept[0]?.role === "assistant") kept.shift();
+  return kept;
+}
+
+/**
+ * Messages asking for a chat response, with the user's code as context and
+ * as much of the earlier conversation as fits in the prompt budget
+ * Code context is cut to half the budget so the conversation is not crowded out.
+ */
+function chatMessages(message: string, context: string, history: ChatTurn[]): AiChatMessage[] {
+  const maxContextChars = (MAX_CHAT_PROMPT_TOKENS / 2) * 4;
+  const trimmedContext = context.length > maxContextChars
+    ? `${context.slice(0, maxContextChars)}\n... (truncated)`
+    : context;
+  
+  const initialPrompt = trimmedContext 
+    ? `Consider the following code context:\n\n${trimmedContext}\n\nNow, respond to this question or request: ${message}`
+    : message;
+  
+  const historyBudget = MAX_CHAT_PROMPT_TOKENS - estimateTokens(CHAT_SYSTEM_PROMPT) - estimateTokens(initialPrompt) - 2 * MESSAGE_OVERHEAD_TOKENS;
+  
+  return [
+    {
+      role: "system",
+      content: CHAT_SYSTEM_PROMPT,
+    },
+    ...trimChatHistory(history, historyBudget),
+    {
+      role: "user",
+      content: initialPrompt,
+    },
+  ];
+}
+
+const CHAT_OPTIONS: CompletionOptions = { temperature: 0.3, maxTokens: 1000 };
 
 /**
  * Generate AI chat response for the AI assistant
+ * history holds the conversation so far, oldest first, without this message.
  */
-export async function aiGenerateChatResponse(message: string, context: string = ""): Promise<string> {
+export async function aiGenerateChatResponse(
+  message: string,
+  context: string = "",
+  history: ChatTurn[] = [],
+  options: AiRequestOptions = {}
+): Promise<string> {
   try {
     console.log(`Generating AI chat response for message: ${message.substring(0, 50)}...`);
     
-    const initialPrompt = context 
-      ? `Consider the following code context:\n\n${context}\n\nNow, respond to this question or request: ${message}`
-      : message;
+    const response = await complete("chat", {
+      messages: chatMessages(message, context, history),
+      ...CHAT_OPTIONS,
+    }, options);
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        {
-          role: "system",
-          content: "You are an AI coding assistant integrated into a cloud IDE. Provide helpful, clear, and concise responses about code, programming concepts, and development best practices. When asked to explain code, show examples where appropriate. When giving coding advice, consider the user's current context if provided.",
-        },
-        {
-          role: "user",
-          content: initialPrompt,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 1000,
-    });
-    
-    return response.choices[0].message.content || 
+    return response || 
       "I'm sorry, I couldn't generate a response at this time.";
     
   } catch (error) {
@@ -50,34 +196,54 @@ export async function aiGenerateChatResponse(message: string, context: string =
   }
 }
 
+/**
+ * Stream an AI chat response for the AI assistant
+ */
+export function aiStreamChatResponse(
+  message: string,
+  context: string = "",
+  history: ChatTurn[] = [],
+  options: AiRequestOptions = {}
+): AsyncGenerator<string> {
+  console.log(`Streaming AI chat response for message: ${message.substring(0, 50)}...`);
+  return stream("chat", { messages: chatMessages(message, context, history), ...CHAT_OPTIONS }, options);
+}
+
+/**
+ * Messages asking for code only, in the given language
+ */
+function generateCodeMessages(prompt: string, language: string, context: string): AiChatMessage[] {
+  const initialPrompt = context 
+    ? `Consider the following code context:\n\n${context}\n\nNow, generate ${language} code that accomplishes: ${prompt}`
+    : `Generate ${language} code that accomplishes: ${prompt}`;
+  
+  return [
+    {
+      role: "system",
+      content: `You are an expert ${language} programmer. Generate clean, well-documented, production-ready code based on the user's requirements. Include comments to explain your implementation where necessary. Only respond with code (and comments within the code). Do not include any explanations outside of the code block.`,
+    },
+    {
+      role: "user",
+      content: initialPrompt,
+    },
+  ];
+}
+
+const GENERATE_CODE_OPTIONS: CompletionOptions = { temperature: 0.2, maxTokens: 1500 };
+
 /**
  * Generate code based on a prompt
  */
-export async function aiGenerateCode(prompt: string, language: string, context: string = ""): Promise<string> {
+export async function aiGenerateCode(prompt: string, language: string, context: string = "", options: AiRequestOptions = {}): Promise<string> {
   try {
     console.log(`Generating ${language} code for prompt: ${prompt.substring(0, 50)}...`);
     
-    const initialPrompt = context 
-      ? `Consider the following code context:\n\n${context}\n\nNow, generate ${language} code that accomplishes: ${prompt}`
-      : `Generate ${language} code that accomplishes: ${prompt}`;
-    
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert ${language} programmer. Generate clean, well-documented, production-ready code based on the user's requirements. Include comments to explain your implementation where necessary. Only respond with code (and comments within the code). Do not include any explanations outside of the code block.`,
-        },
-        {
-          role: "user",
-          content: initialPrompt,
-        },
-      ],
-      temperature: 0.2,
-      max_tokens: 1500,
-    });
+    const response = await complete("generation", {
+      messages: generateCodeMessages(prompt, language, context),
+      ...GENERATE_CODE_OPTIONS,
+    }, options);
     
-    const generatedCode = response.choices[0].message.content || "";
+    const generatedCode = response || "";
     
     // Strip code block markers if they exist
     return generatedCode.replace(/```[\w]*\n|```$/g, "").trim();
@@ -88,57 +254,125 @@ export async function aiGenerateCode(prompt: string, language: string, context:
   }
 }
 
+/**
+ * Stream code generated for a prompt
+ * The stream may include code block markers, which callers strip once it ends.
+ */
+export function aiStreamCode(prompt: string, language: string, context: string = "", options: AiRequestOptions = {}): AsyncGenerator<string> {
+  console.log(`Streaming ${language} code for prompt: ${prompt.substring(0, 50)}...`);
+  return stream("generation", { messages: generateCodeMessages(prompt, language, context), ...GENERATE_CODE_OPTIONS }, options);
+}
+
+/**
+ * Separate a free-text reply into its code and the explanation around it
+ */
+function splitCodeAndExplanation(result: string): { code: string; explanation: string } {
+  // Look for code blocks
+  const codeBlockMatch = result.match(/```[\w]*\n([\s\S]*?)```/);
+  if (codeBlockMatch && codeBlockMatch[1]) {
+    // Get explanation (everything after the code block)
+    const afterCodeBlock = result.substring(result.lastIndexOf("```") + 3).trim();
+    return {
+      code: codeBlockMatch[1].trim(),
+      explanation: afterCodeBlock || "Here is the code based on your project context.",
+    };
+  }
+  
+  // No code block formatting, try to intelligently extract code vs. explanation
+  const codeLines = [];
+  const explanationLines = [];
+  
+  let inExplanation = false;
+  for (const line of result.split("\n")) {
+    // Detect transitions between code and explanation
+    if (line.toLowerCase().includes("explanation:") || 
+        line.toLowerCase().includes("here's how") ||
+        line.toLowerCase().includes("how this works")) {
+      inExplanation = true;
+    }
+    
+    if (inExplanation) {
+      explanationLines.push(line);
+    } else {
+      codeLines.push(line);
+    }
+  }
+  
+  const explanation = explanationLines.join("\n").trim();
+  
+  // If we couldn't separate them, just return everything as code
+  if (!explanation) {
+    return { code: result, explanation: "Here is the code based on your project context." };
+  }
+  return { code: codeLines.join("\n").trim(), explanation };
+}
+
+/**
+ * Number a chunk's lines as they are numbered in its file
+ */
+const numberLines = (content: string, startLine: number): string =>
+  content.split("\n").map((line, i) => `${startLine + i}| ${line}`).join("\n");
+
+// The JSON reply asked for below; its edits are checked file by file by parseFileEdits
+const contextAwareReplySchema = z.object({
+  explanation: z.string().catch(""),
+  code: z.string().catch(""),
+  edits: z.unknown(),
+});
+
 /**
  * Generate context-aware code based on project structure and existing code
+ * The context is what project-context retrieval picked for the prompt, already
+ * within its token budget. The AI answers with structured edits to project
+ * files where it can; a reply that is not a JSON object is read as free text,
+ * with no edits.
  */
 export async function aiGenerateContextAwareCode(
   prompt: string, 
   language: string, 
-  codeContext: {
-    currentFile?: { name: string; content: string; };
-    selectedCode?: string;
-    projectStructure?: { name: string; type: string; }[];
-    relatedFiles?: { name: string; content: string; }[];
-  }
-): Promise<{ code: string; explanation: string }> {
+  codeContext: RetrievedContext,
+  options: AiRequestOptions = {}
+): Promise<{ code: string; explanation: string; edits: AiFileEdit[] }> {
   try {
     console.log(`Generating context-aware ${language} code for prompt: ${prompt.substring(0, 50)}...`);
     
     // Build detailed context from the provided information
     let contextDescription = "";
     
-    if (codeContext.currentFile) {
-      contextDescription += `CURRENT FILE (${codeContext.currentFile.name}):\n${codeContext.currentFile.content}\n\n`;
+    if (codeContext.currentFilePath) {
+      contextDescription += `CURRENT FILE: ${codeContext.currentFilePath}\n\n`;
     }
     
     if (codeContext.selectedCode) {
       contextDescription += `SELECTED CODE:\n${codeContext.selectedCode}\n\n`;
     }
     
-    if (codeContext.projectStructure && codeContext.projectStructure.length > 0) {
+    if (codeContext.projectStructure.length > 0) {
       contextDescription += "PROJECT STRUCTURE:\n";
-      codeContext.projectStructure.forEach(item => {
-        contextDescription += `- ${item.name} (${item.type})\n`;
+      codeContext.projectStructure.forEach(path => {
+        contextDescription += `- ${path}\n`;
       });
       contextDescription += "\n";
     }
     
-    if (codeContext.relatedFiles && codeContext.relatedFiles.length > 0) {
-      codeContext.relatedFiles.forEach(file => {
-        contextDescription += `RELATED FILE (${file.name}):\n${file.content}\n\n`;
-      });
-    }
+    codeContext.chunks.forEach(chunk => {
+      contextDescription += `FROM ${chunk.path} (lines ${chunk.startLine}-${chunk.endLine}):\n${numberLines(chunk.content, chunk.startLine)}\n\n`;
+    });
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    const response = await complete("generation", {
       messages: [
         {
           role: "system",
           content: `You are an expert ${language} programmer in a cloud IDE environment. You help generate context-aware code based on the user's request and their project context.
-          
-Your response should have TWO parts, clearly separated:
-1. The generated code (clean, well-documented, production-ready)
-2. A brief explanation of how this code works with the existing project
+
+Reply with a JSON object with these fields:
+- "explanation": a brief explanation of how the code works with the existing project
+- "edits": the changes to make, one object per file:
+  - to change an existing file: {"path": "/path/of/file", "edits": [{"startLine": 10, "endLine": 12, "newText": "..."}]}, where each edit replaces lines startLine to endLine (inclusive) with newText; use endLine = startLine - 1 to insert before startLine without removing anything
+  - to add a new file: {"path": "/path/of/new/file", "content": "..."}
+- "code": only when the request is not about changing project files, the generated code
+
+Line numbers are the ones shown before "|" in the context; never put them in newText or content. Only edit lines you were shown, keep edits as small as the change allows and do not overlap them.
 
 Consider the project structure, coding style, and patterns in existing files when generating code.`,
         },
@@ -147,57 +381,36 @@ Consider the project structure, coding style, and patterns in existing files whe
           content: `I need help with the following in my ${language} project:\n\n${prompt}\n\nHere's the context from my project:\n\n${contextDescription}`,
         },
       ],
+      json: true,
       temperature: 0.3,
-      max_tokens: 2000,
-    });
+      maxTokens: 3000,
+    }, options);
     
-    const result = response.choices[0].message.content || "";
+    const result = response || "";
     
-    // Extract code and explanation
-    let code = "";
-    let explanation = "";
+    let reply: unknown;
+    try {
+      reply = JSON.parse(result);
+    } catch {
+      return { ...splitCodeAndExplanation(result), edits: [] };
+    }
     
-    // Look for code blocks
-    const codeBlockMatch = result.match(/```[\w]*\n([\s\S]*?)```/);
-    if (codeBlockMatch && codeBlockMatch[1]) {
-      code = codeBlockMatch[1].trim();
-      
-      // Get explanation (everything after the code block)
-      const afterCodeBlock = result.substring(result.lastIndexOf("```") + 3).trim();
-      explanation = afterCodeBlock || "Here is the code based on your project context.";
-    } else {
-      // No code block formatting, try to intelligently extract code vs. explanation
-      const lines = result.split("\n");
-      const codeLines = [];
-      const explanationLines = [];
-      
-      let inExplanation = false;
-      for (const line of lines) {
-        // Detect transitions between code and explanation
-        if (line.toLowerCase().includes("explanation:") || 
-            line.toLowerCase().includes("here's how") ||
-            line.toLowerCase().includes("how this works")) {
-          inExplanation = true;
-        }
-        
-        if (inExplanation) {
-          explanationLines.push(line);
-        } else {
-          codeLines.push(line);
-        }
-      }
-      
-      code = codeLines.join("\n").trim();
-      explanation = explanationLines.join("\n").trim();
-      
-      // If we couldn't separate them, just return everything as code
-      if (!explanation) {
-        code = result;
-        explanation = "Here is the code based on your project context.";
-      }
+    const parsed = contextAwareReplySchema.safeParse(reply);
+    if (!parsed.success) {
+      return { ...splitCodeAndExplanation(result), edits: [] };
     }
     
-    return { code, explanation };
+    const edits = parseFileEdits(parsed.data.edits);
+    const code = edits.length > 0
+      ? edits.flatMap((edit) => edit.content !== undefined ? [edit.content] : (edit.edits ?? []).map((lineEdit) => lineEdit.newText))
+          .map((text) => text.trimEnd()).join("\n\n")
+      : parsed.data.code;
+    
+    return {
+      code: code.trim(),
+      explanation: parsed.data.explanation,
+      edits,
+    };
     
   } catch (error) {
     console.error("Error generating context-aware code:", error);
@@ -211,7 +424,8 @@ Consider the project structure, coding style, and patterns in existing files whe
 export async function aiCompleteSuggestions(
   code: string, 
   position: { lineNumber: number; column: number },
-  language: string
+  language: string,
+  options: AiRequestOptions = {}
 ): Promise<Array<{ text: string; description: string }>> {
   try {
     console.log(`Generating code completion suggestions for ${language} at line ${position.lineNumber}, column ${position.column}`);
@@ -219,9 +433,9 @@ export async function aiCompleteSuggestions(
     // Split code into lines
     const lines = code.split("\n");
     
-    // Get the current line up to the cursor position
+    // Get the current line up to the cursor position (columns start at 1)
     const currentLine = position.lineNumber <= lines.length 
-      ? lines[position.lineNumber - 1].slice(0, position.column) 
+      ? lines[position.lineNumber - 1].slice(0, position.column - 1) 
       : "";
     
     // Create context with a few lines before and after the current line
@@ -229,24 +443,23 @@ export async function aiCompleteSuggestions(
     const endLine = Math.min(lines.length, position.lineNumber + 5);
     const codeContext = lines.slice(startLine, endLine).join("\n");
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    const response = await complete("completion", {
       messages: [
         {
           role: "system",
-          content: `You are a code completion AI assisting with ${language} programming. Provide 3-5 completion suggestions for the current code position. Each suggestion should be relevant, syntactically correct, and contextually appropriate. Response must be in JSON format with an array of objects containing 'text' (the completion text) and 'description' (a brief explanation).`,
+          content: `You are a code completion AI assisting with ${language} programming. Provide 3-5 completion suggestions for the current code position. Each suggestion should be relevant, syntactically correct, and contextually appropriate. Response must be in JSON format with an array of objects containing 'text' (the completion text) and 'description' (a brief explanation). The 'text' is inserted at the cursor as is, so it must continue from the cursor without repeating anything before it.`,
         },
         {
           role: "user",
           content: `Code context:\n\`\`\`${language}\n${codeContext}\n\`\`\`\n\nCurrent position is at line ${position.lineNumber}, column ${position.column}, which is after the text: "${currentLine}"\n\nProvide completion suggestions in JSON format.`,
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
       temperature: 0.2,
-      max_tokens: 1000,
-    });
+      maxTokens: 1000,
+    }, options);
     
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(response || "{}");
     
     return Array.isArray(result.suggestions) ? result.suggestions : [];
     
@@ -256,32 +469,39 @@ export async function aiCompleteSuggestions(
   }
 }
 
+/**
+ * Messages asking for an explanation of code
+ */
+function explainCodeMessages(code: string, language: string): AiChatMessage[] {
+  const languagePrompt = language ? `This is ${language} code:` : "This code:";
+  
+  return [
+    {
+      role: "system",
+      content: "You are an expert programming tutor. Explain code in a clear, concise, and educational manner. Break down the explanation into logical sections and highlight important concepts.",
+    },
+    {
+      role: "user",
+      content: `${languagePrompt}\n\`\`\`\n${code}\n\`\`\`\n\nPlease explain what this code does, how it works, and point out any notable patterns, best practices, or potential issues.`,
+    },
+  ];
+}
+
+const EXPLAIN_CODE_OPTIONS: CompletionOptions = { temperature: 0.3, maxTokens: 1500 };
+
 /**
  * Explain code
  */
-export async function aiExplainCode(code: string, language: string = ""): Promise<string> {
+export async function aiExplainCode(code: string, language: string = "", options: AiRequestOptions = {}): Promise<string> {
   try {
     console.log(`Explaining code: ${code.substring(0, 50)}...`);
     
-    const languagePrompt = language ? `This is ${language} code:` : "This code:";
+    const response = await complete("explain", {
+      messages: explainCodeMessages(code, language),
+      ...EXPLAIN_CODE_OPTIONS,
+    }, options);
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert programming tutor. Explain code in a clear, concise, and educational manner. Break down the explanation into logical sections and highlight important concepts.",
-        },
-        {
-          role: "user",
-          content: `${languagePrompt}\n\`\`\`\n${code}\n\`\`\`\n\nPlease explain what this code does, how it works, and point out any notable patterns, best practices, or potential issues.`,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 1500,
-    });
-    
-    return response.choices[0].message.content || 
+    return response || 
       "I'm sorry, I couldn't generate an explanation at this time.";
     
   } catch (error) {
@@ -290,17 +510,24 @@ export async function aiExplainCode(code: string, language: string = ""): Promis
   }
 }
 
+/**
+ * Stream an explanation of code
+ */
+export function aiStreamExplanation(code: string, language: string = "", options: AiRequestOptions = {}): AsyncGenerator<string> {
+  console.log(`Streaming explanation of code: ${code.substring(0, 50)}...`);
+  return stream("explain", { messages: explainCodeMessages(code, language), ...EXPLAIN_CODE_OPTIONS }, options);
+}
+
 /**
  * Debug code and provide solutions
  */
-export async function aiDebugCode(code: string, error: string, language: string = ""): Promise<string> {
+export async function aiDebugCode(code: string, error: string, language: string = "", options: AiRequestOptions = {}): Promise<string> {
   try {
     console.log(`Debugging ${language} code with error: ${error.substring(0, 50)}...`);
     
     const languagePrompt = language ? `This is ${language} code:` : "This code:";
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    const response = await complete("debug", {
       messages: [
         {
           role: "system",
@@ -312,10 +539,10 @@ export async function aiDebugCode(code: string, error: string, language: string
         },
       ],
       temperature: 0.3,
-      max_tokens: 1500,
-    });
+      maxTokens: 1500,
+    }, options);
     
-    return response.choices[0].message.content || 
+    return response || 
       "I'm sorry, I couldn't debug this code at this time.";
     
   } catch (error) {
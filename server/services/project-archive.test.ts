@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { storage } from "../storage";
+import {
+  MAX_ARCHIVE_FILES,
+  MAX_EXTRACTED_BYTES,
+  ProjectArchiveError,
+  importProjectArchive,
+  writeProjectArchive,
+} from "./project-archive";
+
+// Overwrite the uncompressed size an archive declares for its entries
+function declareOriginalSize(archive: Uint8Array, size: number): Uint8Array {
+  const patched = archive.slice();
+  const view = new DataView(patched.buffer);
+  for (let offset = 0; offset + 4 <= patched.byteLength; offset++) {
+    const signature = view.getUint32(offset, true);
+    if (signature === 0x04034b50) view.setUint32(offset + 22, size, true);
+    if (signature === 0x02014b50) view.setUint32(offset + 24, size, true);
+  }
+  return patched;
+}
+
+async function importError(archive: Uint8Array): Promise<ProjectArchiveError> {
+  const error = await importProjectArchive(1, archive).catch((error) => error);
+  expect(error).toBeInstanceOf(ProjectArchiveError);
+  return error;
+}
+
+describe("importProjectArchive", () => {
+  it("imports files under a single top-level folder", async () => {
+    const archive = zipSync({
+      "demo/src/index.ts": strToU8("export {};\n"),
+      "demo/README.md": strToU8("# Demo\n"),
+      "demo/node_modules/dep/index.js": strToU8("ignored"),
+      "demo/logo.png": new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe]),
+    });
+
+    const result = await importProjectArchive(1, archive);
+    expect(result.project.name).toBe("demo");
+    expect(result).toMatchObject({ fileCount: 2, folderCount: 1, skipped: ["demo/logo.png"] });
+
+    const rows = await storage.getFilesByProjectId(result.project.id);
+    expect(rows.map((row) => [row.path, row.content]).sort()).toEqual([
+      ["/README.md", "# Demo\n"],
+      ["/src", null],
+      ["/src/index.ts", "export {};\n"],
+    ]);
+  });
+
+  it("reads back an exported project", async () => {
+    const source = await storage.createProjectWithFiles({ name: "Round trip", userId: 1 }, [
+      { name: "lib", path: "/lib", content: null, isFolder: true },
+      { name: "a.ts", path: "/lib/a.ts", content: "export const a = 1;\n".repeat(500), isFolder: false },
+    ]);
+    const chunks: Uint8Array[] = [];
+    await writeProjectArchive(source, (chunk) => chunks.push(chunk));
+    const archive = new Uint8Array(Buffer.concat(chunks));
+
+    const result = await importProjectArchive(1, archive, "Copy");
+    const rows = await storage.getFilesByProjectId(result.project.id);
+    expect(result.project.name).toBe("Copy");
+    expect(rows.map((row) => [row.path, row.content]).sort()).toEqual([
+      ["/lib", null],
+      ["/lib/a.ts", "export const a = 1;\n".repeat(500)],
+    ]);
+  });
+
+  it("limits the bytes actually inflated, whatever sizes the archive declares", async () => {
+    const bomb = zipSync({ "zeros.txt": new Uint8Array(MAX_EXTRACTED_BYTES + 1) }, { level: 1 });
+
+    const error = await importError(declareOriginalSize(bomb, 16));
+    expect(error.status).toBe(413);
+  });
+
+  it("limits how many files an archive may hold", async () => {
+    const entries: Record<string, Uint8Array> = {};
+    for (let i = 0; i <= MAX_ARCHIVE_FILES; i++) {
+      entries[`file-${i}.txt`] = strToU8(String(i));
+    }
+
+    const error = await importError(zipSync(entries));
+    expect(error.status).toBe(413);
+  });
+
+  it("rejects uploads that are not zip archives", async () => {
+    const error = await importError(strToU8("just some text"));
+    expect(error).toMatchObject({ status: 400, message: "Upload is not a valid zip archive" });
+  });
+});
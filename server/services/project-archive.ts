@@ -0,0 +1,261 @@
+/**
+ * Project archive service
+ * Exports a project's file tree as a zip archive and creates new projects
+ * from uploaded zip archives
+ */
+
+import { Unzip, UnzipInflate, Zip, ZipDeflate, ZipPassThrough, strToU8 } from "fflate";
+import { storage } from "../storage";
+import type { Project } from "@shared/schema";
+import { baseNameOf, normalizeFilePath, parentPathOf } from "@shared/file-tree";
+
+// Largest archive accepted for import
+export const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024;
+
+// Most files a single import may create
+export const MAX_ARCHIVE_FILES = 2000;
+
+// Total size of the extracted files, guarding against zip bombs
+export const MAX_EXTRACTED_BYTES = 50 * 1024 * 1024;
+
+// Compressed bytes fed to the inflater at a time, which bounds how much a
+// single step can expand before the extracted size is checked
+const INFLATE_CHUNK_BYTES = 16 * 1024;
+
+// Folders that are never imported, wherever they appear in the archive
+const IGNORED_FOLDERS = new Set(["node_modules", ".git"]);
+
+// Error raised for archives that cannot be imported
+export class ProjectArchiveError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ProjectArchiveError";
+  }
+}
+
+// Outcome of importing an archive
+export interface ProjectImportResult {
+  project: Project;
+  fileCount: number;
+  folderCount: number;
+  // Archive entries that were left out, such as binary files
+  skipped: string[];
+}
+
+/**
+ * Stream a project's files as a zip archive with everything under one
+ * top-level folder named after the project
+ */
+export async function writeProjectArchive(
+  project: Project,
+  onChunk: (chunk: Uint8Array) => void
+): Promise<void> {
+  const rows = await storage.getFilesByProjectId(project.id);
+  const rootFolder = archiveFolderName(project.name);
+
+  await new Promise<void>((resolve, reject) => {
+    const zip = new Zip((error, chunk, final) => {
+      if (error) return reject(error);
+      onChunk(chunk);
+      if (final) resolve();
+    });
+
+    const ordered = [...rows].sort((a, b) => a.path.localeCompare(b.path));
+    for (const row of ordered) {
+      const path = normalizeFilePath(row.path);
+      if (!path) continue;
+
+      if (row.isFolder) {
+        const entry = new ZipPassThrough(`${rootFolder}${path}/`);
+        zip.add(entry);
+        entry.push(new Uint8Array(0), true);
+      } else {
+        const entry = new ZipDeflate(`${rootFolder}${path}`, { level: 6 });
+        zip.add(entry);
+        entry.push(strToU8(row.content ?? ""), true);
+      }
+    }
+
+    zip.end();
+  });
+}
+
+/**
+ * Name used for the archive file and its top-level folder
+ */
+export function archiveFolderName(projectName: string): string {
+  return projectName.trim().replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "project";
+}
+
+/**
+ * Create a new project owned by userId from the contents of a zip archive
+ */
+export async function importProjectArchive(
+  userId: number,
+  archive: Uint8Array,
+  projectName?: string
+): Promise<ProjectImportResult> {
+  if (archive.byteLength > MAX_ARCHIVE_BYTES) {
+    throw new ProjectArchiveError(`Archive is larger than ${MAX_ARCHIVE_BYTES / (1024 * 1024)}MB`, 413);
+  }
+
+  const skipped: string[] = [];
+  const entries = inflateArchive(archive);
+
+  const folders = new Set<string>();
+  const files = new Map<string, string>();
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+
+  for (const [name, data] of Array.from(entries)) {
+    const path = normalizeFilePath(name);
+    if (!path) {
+      skipped.push(name);
+      continue;
+    }
+
+    if (name.endsWith("/")) {
+      folders.add(path);
+      continue;
+    }
+
+    // Project files are stored as text, so binary files cannot be imported
+    try {
+      files.set(path, decoder.decode(data));
+    } catch {
+      skipped.push(name);
+    }
+  }
+
+  const filePaths = Array.from(files.keys());
+  filePaths.forEach((path) => {
+    for (let parent = parentPathOf(path); parent; parent = parentPathOf(parent)) {
+      folders.add(parent);
+    }
+  });
+
+  // A path can hold a file or a folder, not both
+  filePaths.filter((path) => folders.has(path)).forEach((path) => {
+    files.delete(path);
+    skipped.push(path.slice(1));
+  });
+
+  // Archives usually wrap everything in a single top-level folder; drop it
+  const topLevel = Array.from(new Set(
+    Array.from(folders).concat(Array.from(files.keys())).map((path) => path.split("/")[1])
+  ));
+  let prefix = "";
+  if (topLevel.length === 1 && folders.has(`/${topLevel[0]}`)) {
+    prefix = `/${topLevel[0]}`;
+    folders.delete(prefix);
+  }
+
+  const stripPrefix = (path: string) => path.slice(prefix.length);
+
+  if (files.size === 0 && folders.size === 0) {
+    throw new ProjectArchiveError("Archive does not contain any importable files");
+  }
+
+  // Parents sort before their children, so folders exist before their contents
+  const folderRows = Array.from(folders).map(stripPrefix).sort()
+    .map((path) => ({ name: baseNameOf(path), path, content: null, isFolder: true }));
+  const fileRows = Array.from(files).sort(([a], [b]) => a.localeCompare(b))
+    .map(([fullPath, content]) => {
+      const path = stripPrefix(fullPath);
+      return { name: baseNameOf(path), path, content, isFolder: false };
+    });
+
+  const project = await storage.createProjectWithFiles({
+    name: projectName?.trim() || (prefix ? baseNameOf(prefix) : "Imported project"),
+    description: "Imported from a zip archive",
+    userId,
+  }, [...folderRows, ...fileRows]);
+
+  return { project, fileCount: files.size, folderCount: folders.size, skipped };
+}
+
+/**
+ * Inflate an archive's entries, keyed by name, enforcing the import limits
+ * Sizes declared in the archive can lie, so the limit applies to the bytes
+ * actually inflated, and inflating stops as soon as it is exceeded.
+ */
+function inflateArchive(archive: Uint8Array): Map<string, Uint8Array> {
+  if (!isZipArchive(archive)) {
+    throw new ProjectArchiveError("Upload is not a valid zip archive");
+  }
+
+  const entries = new Map<string, Uint8Array>();
+  let entryCount = 0;
+  let extractedBytes = 0;
+  let failure: ProjectArchiveError | undefined;
+
+  const unzip = new Unzip((file) => {
+    const segments = file.name.split("/");
+    if (failure || segments.some((segment) => IGNORED_FOLDERS.has(segment))) {
+      return;
+    }
+
+    entryCount++;
+    if (entryCount > MAX_ARCHIVE_FILES) {
+      failure = new ProjectArchiveError(`Archive contains more than ${MAX_ARCHIVE_FILES} files`, 413);
+      return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    file.ondata = (error, chunk, final) => {
+      if (failure) return;
+      if (error) {
+        failure = new ProjectArchiveError("Upload is not a valid zip archive");
+        return;
+      }
+
+      extractedBytes += chunk.byteLength;
+      if (extractedBytes > MAX_EXTRACTED_BYTES) {
+        failure = new ProjectArchiveError(`Archive expands to more than ${MAX_EXTRACTED_BYTES / (1024 * 1024)}MB`, 413);
+        file.terminate();
+        return;
+      }
+
+      chunks.push(chunk);
+      if (final) {
+        entries.set(file.name, concatChunks(chunks));
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  try {
+    for (let offset = 0; offset < archive.byteLength && !failure; offset += INFLATE_CHUNK_BYTES) {
+      const end = Math.min(offset + INFLATE_CHUNK_BYTES, archive.byteLength);
+      unzip.push(archive.subarray(offset, end), end === archive.byteLength);
+    }
+  } catch {
+    throw new ProjectArchiveError("Upload is not a valid zip archive");
+  }
+
+  if (failure) throw failure;
+  return entries;
+}
+
+/**
+ * Whether data starts with a zip file or empty-archive signature
+ */
+function isZipArchive(data: Uint8Array): boolean {
+  return data.byteLength >= 4 && data[0] === 0x50 && data[1] === 0x4b &&
+    ((data[2] === 0x03 && data[3] === 0x04) || (data[2] === 0x05 && data[3] === 0x06));
+}
+
+/**
+ * Join inflated chunks into one buffer
+ */
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+
+  const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    joined.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return joined;
+}
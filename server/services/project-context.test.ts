@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import type { ContextAwareCodeRequest } from "@shared/project-context";
+import { chunkFile, resolveImport, retrieveProjectContext } from "./project-context";
+
+const OWNER_ID = 201;
+
+const lines = (count: number, text: (i: number) => string) =>
+  Array.from({ length: count }, (_, i) => text(i)).join("\n");
+
+describe("chunkFile", () => {
+  it("breaks before top-level declarations that follow a blank line", () => {
+    const content = [lines(9, (i) => `const a${i} = ${i};`), "", "function b() {", "  return 1;", "}", ""].join("\n");
+
+    expect(chunkFile("/a.ts", content).map(({ startLine, endLine }) => [startLine, endLine])).toEqual([[1, 10], [11, 13]]);
+  });
+
+  it("keeps short runs together and cuts long ones at the maximum", () => {
+    const short = ["const a = 1;", "", "const b = 2;"].join("\n");
+    expect(chunkFile("/short.ts", short)).toHaveLength(1);
+
+    const long = lines(130, (i) => `  statement${i}();`);
+    expect(chunkFile("/long.ts", long).map(({ startLine, endLine }) => [startLine, endLine])).toEqual([[1, 60], [61, 120], [121, 130]]);
+  });
+
+  it("leaves out blank stretches", () => {
+    expect(chunkFile("/empty.ts", "\n\n\n")).toEqual([]);
+  });
+});
+
+describe("resolveImport", () => {
+  const paths = new Set(["/src/app.ts", "/src/lib/util.ts", "/src/lib/index.ts", "/pkg/__init__.py", "/pkg/models.py", "/pkg/sub/view.py"]);
+
+  it("resolves relative JavaScript and TypeScript specifiers", () => {
+    expect(resolveImport("/src/app.ts", "./lib/util", paths)).toBe("/src/lib/util.ts");
+    expect(resolveImport("/src/app.ts", "./lib", paths)).toBe("/src/lib/index.ts");
+    expect(resolveImport("/src/lib/util.ts", "../app", paths)).toBe("/src/app.ts");
+  });
+
+  it("resolves Python modules, absolute and relative", () => {
+    expect(resolveImport("/main.py", "pkg.models", paths)).toBe("/pkg/models.py");
+    expect(resolveImport("/pkg/sub/view.py", "..models", paths)).toBe("/pkg/models.py");
+    expect(resolveImport("/main.py", "pkg", paths)).toBe("/pkg/__init__.py");
+  });
+
+  it("leaves packages from outside the project alone", () => {
+    expect(resolveImport("/src/app.ts", "react", paths)).toBeUndefined();
+    expect(resolveImport("/src/app.ts", "./missing", paths)).toBeUndefined();
+  });
+});
+
+describe("retrieveProjectContext", () => {
+  const createProject = () => storage.createProjectWithFiles({ name: "Shop", userId: OWNER_ID }, [
+    { name: "cart.ts", path: "/cart.ts", content: "import { price } from './pricing';\n\nexport const total = (items) => items.map(price);\n", isFolder: false },
+    { name: "pricing.ts", path: "/pricing.ts", content: "import { rates } from './tax';\n\nexport const price = (item) => item.cost * rates.vat;\n", isFolder: false },
+    { name: "tax.ts", path: "/tax.ts", content: "export const rates = { vat: 1.2 };\n", isFolder: false },
+    { name: "invoice.ts", path: "/invoice.ts", content: "export function renderInvoice(order) {\n  return `Invoice for ${order.id}`;\n}\n", isFolder: false },
+    { name: "unrelated.ts", path: "/unrelated.ts", content: "export const banner = 'hello';\n", isFolder: false },
+  ]);
+
+  const request = (projectId: number, overrides: Partial<ContextAwareCodeRequest> = {}): ContextAwareCodeRequest => ({
+    prompt: "Add a discount to renderInvoice",
+    language: "typescript",
+    projectId,
+    currentFile: { name: "cart.ts", content: "import { price } from './pricing';\n\nexport const total = (items) => items.map(price);\n" },
+    includeRelatedFiles: true,
+    ...overrides,
+  });
+
+  it("ranks chunks by shared words and by import distance from the current file", async () => {
+    const project = await createProject();
+    const context = await retrieveProjectContext(OWNER_ID, request(project.id));
+
+    const sources = context.chunks.map((chunk) => [chunk.path, chunk.reason]);
+    expect(sources).toEqual([
+      ["/cart.ts", "current-file"],
+      ["/invoice.ts", "lexical"],
+      ["/pricing.ts", "import"],
+      ["/tax.ts", "import"],
+    ]);
+
+    const score = (path: string) => context.chunks.find((chunk) => chunk.path === path)!.score;
+    expect(score("/invoice.ts")).toBe(1);
+    expect(score("/pricing.ts")).toBeGreaterThan(score("/tax.ts"));
+  });
+
+  it("uses only the current file unless related files are wanted", async () => {
+    const project = await createProject();
+    const context = await retrieveProjectContext(OWNER_ID, request(project.id, { includeRelatedFiles: false }));
+
+    expect(context.chunks.map((chunk) => chunk.path)).toEqual(["/cart.ts"]);
+  });
+
+  it("keeps the best chunks that fit the token budget", async () => {
+    const project = await createProject();
+    const context = await retrieveProjectContext(OWNER_ID, request(project.id), 40);
+
+    // The prompt names renderInvoice, which outranks the current file's import proximity
+    expect(context.chunks.map((chunk) => chunk.path)).toEqual(["/invoice.ts"]);
+  });
+
+  it("refuses projects the user does not own", async () => {
+    const project = await createProject();
+    await expect(retrieveProjectContext(OWNER_ID + 1, request(project.id))).rejects.toMatchObject({ status: 404 });
+  });
+});
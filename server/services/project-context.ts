@@ -0,0 +1,286 @@
+/**
+ * Project context retrieval
+ * Picks the parts of a project most relevant to a code generation prompt: files
+ * are cut into chunks, chunks are ranked by the words they share with the
+ * prompt (BM25) and by how close their file is to the current file in the
+ * import graph, and the best are kept within a token budget. Runs entirely
+ * offline, with no embeddings.
+ */
+
+import { storage } from "../storage";
+import { estimateTokens } from "./openai";
+import { getLanguageForFile, normalizeFilePath, parentPathOf } from "@shared/file-tree";
+import { contextSearchTerms, extractEditorContext } from "@shared/snippet-recommendations";
+import { tokenizeForSearch } from "@shared/snippet-search";
+import type { ContextAwareCodeRequest, ContextSource } from "@shared/project-context";
+
+// Tokens of project context a prompt may carry
+export const CONTEXT_TOKEN_BUDGET = 6000;
+
+// Shares of the budget the selection and the project structure may take at most
+const SELECTION_BUDGET_SHARE = 0.4;
+const STRUCTURE_BUDGET_SHARE = 0.1;
+
+// Chunks end at a top-level declaration once this long, and always at the maximum
+const MIN_CHUNK_LINES = 8;
+const MAX_CHUNK_LINES = 60;
+
+// Weight of import-graph proximity against lexical relevance, which is scaled to 0-1
+const IMPORT_WEIGHT = 0.5;
+
+// Import hops beyond which files count as unrelated
+const MAX_IMPORT_DISTANCE = 2;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Extensions tried for import specifiers that leave them out
+const IMPORT_EXTENSIONS = ["", ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", "/index.ts", "/index.tsx", "/index.js", "/index.jsx", "/__init__.py"];
+
+// Error raised for context requests that cannot be served
+export class ProjectContextError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ProjectContextError";
+  }
+}
+
+// A run of consecutive lines of a file
+export interface CodeChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export interface RetrievedChunk extends CodeChunk, Omit<ContextSource, keyof CodeChunk> {}
+
+// Everything put in a context-aware prompt besides the request itself
+export interface RetrievedContext {
+  currentFilePath?: string;
+  selectedCode?: string;
+  // Paths of the project's files
+  projectStructure: string[];
+  // Relevant chunks, grouped by file and in line order
+  chunks: RetrievedChunk[];
+  // Content of every file by path, the current file as in the editor, for checking proposed edits
+  files: Map<string, string>;
+}
+
+/**
+ * Cut a file into chunks of whole lines
+ * Chunks break before unindented lines that follow a blank line, which is
+ * where top-level declarations usually start, so most chunks hold whole
+ * functions or classes; long stretches are cut at MAX_CHUNK_LINES.
+ */
+export function chunkFile(path: string, content: string): CodeChunk[] {
+  const lines = content.replace(/\n$/, "").split("\n");
+  const chunks: CodeChunk[] = [];
+  let start = 0;
+
+  const flush = (end: number) => {
+    const text = lines.slice(start, end).join("\n");
+    if (text.trim()) {
+      chunks.push({ path, startLine: start + 1, endLine: end, content: text });
+    }
+    start = end;
+  };
+
+  for (let i = 1; i < lines.length; i++) {
+    const length = i - start;
+    const declarationStart = /^\S/.test(lines[i]) && lines[i - 1].trim() === "";
+    if (length >= MAX_CHUNK_LINES || (length >= MIN_CHUNK_LINES && declarationStart)) {
+      flush(i);
+    }
+  }
+  flush(lines.length);
+
+  return chunks;
+}
+
+/**
+ * Project file an import specifier refers to, if any
+ * Relative JavaScript/TypeScript specifiers and Python module paths are
+ * resolved; packages from outside the project are not.
+ */
+export function resolveImport(fromPath: string, specifier: string, paths: Set<string>): string | undefined {
+  let base: string | null;
+  if (specifier.startsWith(".") && specifier.includes("/")) {
+    base = normalizeFilePath(`${parentPathOf(fromPath)}/${specifier}`);
+  } else if (/^\.*[\w.]+$/.test(specifier) && getLanguageForFile(fromPath) === "python") {
+    // Leading dots climb from the importing module's package
+    const dots = /^\.*/.exec(specifier)![0].length;
+    let dir = dots > 0 ? parentPathOf(fromPath) : "";
+    for (let i = 1; i < dots; i++) dir = parentPathOf(dir);
+    base = normalizeFilePath(`${dir}/${specifier.slice(dots).replace(/\./g, "/")}`);
+  } else {
+    return undefined;
+  }
+
+  if (!base) return undefined;
+  return IMPORT_EXTENSIONS.map((extension) => base + extension).find((candidate) => paths.has(candidate));
+}
+
+/**
+ * Import hops from one file to every file near it, following imports either way
+ */
+function importDistances(from: string, files: Map<string, string>): Map<string, number> {
+  const paths = new Set(files.keys());
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!neighbours.has(a)) neighbours.set(a, new Set());
+    neighbours.get(a)!.add(b);
+  };
+
+  files.forEach((content, path) => {
+    extractEditorContext(content, getLanguageForFile(path)).imports.forEach((specifier) => {
+      const target = resolveImport(path, specifier, paths);
+      if (target && target !== path) {
+        link(path, target);
+        link(target, path);
+      }
+    });
+  });
+
+  const distances = new Map<string, number>([[from, 0]]);
+  let frontier = [from];
+  for (let distance = 1; distance <= MAX_IMPORT_DISTANCE; distance++) {
+    const next: string[] = [];
+    frontier.forEach((path) => {
+      neighbours.get(path)?.forEach((neighbour) => {
+        if (!distances.has(neighbour)) {
+          distances.set(neighbour, distance);
+          next.push(neighbour);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return distances;
+}
+
+/**
+ * BM25 score of each chunk for the query terms
+ */
+function bm25Scores(chunks: CodeChunk[], terms: string[]): number[] {
+  const documents = chunks.map((chunk) => tokenizeForSearch(`${chunk.path}\n${chunk.content}`));
+  const averageLength = documents.reduce((total, tokens) => total + tokens.length, 0) / Math.max(1, documents.length);
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach((tokens) => {
+    new Set(tokens).forEach((token) => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1));
+  });
+
+  return documents.map((tokens) => {
+    const frequency = new Map<string, number>();
+    tokens.forEach((token) => frequency.set(token, (frequency.get(token) ?? 0) + 1));
+
+    return terms.reduce((score, term) => {
+      const tf = frequency.get(term) ?? 0;
+      if (tf === 0) return score;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      return score + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * tokens.length / averageLength));
+    }, 0);
+  });
+}
+
+/**
+ * Cut text to roughly a number of tokens, marking the cut
+ */
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n... (truncated)` : text;
+}
+
+/**
+ * Gather the project context for a context-aware code request
+ * The current file's editor content stands in for its saved copy. Without a
+ * project, only the current file and selection are used.
+ */
+export async function retrieveProjectContext(
+  userId: number,
+  request: ContextAwareCodeRequest,
+  budget: number = CONTEXT_TOKEN_BUDGET
+): Promise<RetrievedContext> {
+  // Project files by path
+  const files = new Map<string, string>();
+  if (request.projectId != null) {
+    const project = await storage.getProject(request.projectId);
+    if (!project || project.userId !== userId) {
+      throw new ProjectContextError("Project not found", 404);
+    }
+    (await storage.getFilesByProjectId(project.id)).forEach((file) => {
+      if (!file.isFolder) files.set(file.path, file.content ?? "");
+    });
+  }
+
+  let currentFilePath: string | undefined;
+  if (request.currentFile) {
+    const saved = request.currentFile.fileId !== undefined && request.projectId != null
+      ? await storage.getFile(request.currentFile.fileId)
+      : undefined;
+    currentFilePath = saved && saved.projectId === request.projectId ? saved.path : `/${request.currentFile.name}`;
+    files.set(currentFilePath, request.currentFile.content);
+  }
+
+  let remaining = budget;
+  const context: RetrievedContext = { currentFilePath, projectStructure: [], chunks: [], files };
+
+  if (request.selectedCode?.trim()) {
+    context.selectedCode = truncateToTokens(request.selectedCode, budget * SELECTION_BUDGET_SHARE);
+    remaining -= estimateTokens(context.selectedCode);
+  }
+
+  if (request.includeProjectStructure) {
+    let structureTokens = 0;
+    for (const path of Array.from(files.keys()).sort()) {
+      structureTokens += estimateTokens(path) + 1;
+      if (structureTokens > budget * STRUCTURE_BUDGET_SHARE) break;
+      context.projectStructure.push(path);
+    }
+    remaining -= structureTokens;
+  }
+
+  // Only the current file unless related files are wanted
+  const candidates = Array.from(files.entries())
+    .filter(([path]) => request.includeRelatedFiles || path === currentFilePath)
+    .flatMap(([path, content]) => chunkFile(path, content));
+  if (candidates.length === 0) return context;
+
+  const terms = contextSearchTerms(extractEditorContext(`${request.prompt}\n${request.selectedCode ?? ""}`, request.language));
+  const lexical = bm25Scores(candidates, terms);
+  const bestLexical = lexical.reduce((best, score) => Math.max(best, score), 0);
+  const distances = currentFilePath ? importDistances(currentFilePath, files) : new Map<string, number>();
+
+  const ranked: RetrievedChunk[] = candidates.map((chunk, i) => {
+    const distance = distances.get(chunk.path);
+    const proximity = distance === undefined ? 0 : 1 / 2 ** distance;
+    const relevance = bestLexical > 0 ? lexical[i] / bestLexical : 0;
+    return {
+      ...chunk,
+      score: Math.round((relevance + IMPORT_WEIGHT * proximity) * 1000) / 1000,
+      reason: distance === 0 ? "current-file" : IMPORT_WEIGHT * proximity > relevance ? "import" : "lexical",
+    };
+  });
+
+  // Fill the budget best first, skipping chunks that would overrun it
+  const kept: RetrievedChunk[] = [];
+  ranked
+    .filter((chunk) => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .forEach((chunk) => {
+      const tokens = estimateTokens(chunk.content) + estimateTokens(chunk.path) + 8;
+      if (tokens <= remaining) {
+        kept.push(chunk);
+        remaining -= tokens;
+      }
+    });
+
+  // Read better in file order; the current file comes first
+  const fileOrder = (path: string) => (path === currentFilePath ? "" : path);
+  context.chunks = kept.sort((a, b) =>
+    fileOrder(a.path).localeCompare(fileOrder(b.path)) || a.startLine - b.startLine);
+  return context;
+}
@@ -0,0 +1,205 @@
+/**
+ * Snippet embedding service
+ * Renders shared snippets as small standalone HTML pages for iframes and
+ * describes them as oEmbed responses so other tools can unfurl snippet links
+ */
+
+import hljs from "highlight.js";
+import type { CodeSnippet } from "@shared/schema";
+
+export type EmbedTheme = "light" | "dark";
+
+// Options for rendering an embed
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  // 1-based, inclusive; omitted to show every line
+  lines?: { start: number; end: number };
+  // Absolute URL of the full shared page
+  snippetUrl: string;
+}
+
+// oEmbed "rich" response, see https://oembed.com
+export interface OEmbedResponse {
+  version: "1.0";
+  type: "rich";
+  title: string;
+  author_name?: string;
+  provider_name: string;
+  provider_url: string;
+  html: string;
+  width: number;
+  height: number;
+}
+
+const PROVIDER_NAME = "Azure CloudIDE";
+const DEFAULT_EMBED_WIDTH = 640;
+const LINE_HEIGHT_PX = 20;
+const EMBED_CHROME_PX = 48;
+const MAX_EMBED_HEIGHT = 600;
+
+// Our language names that highlight.js knows under another name
+const HIGHLIGHT_LANGUAGE_ALIASES: Record<string, string> = {
+  html: "xml",
+  shell: "bash",
+};
+
+// Token colors matching the editor's azure themes
+const THEME_STYLES: Record<EmbedTheme, string> = {
+  dark: `
+    body { background: #1e1e1e; color: #d4d4d4; }
+    .header, .footer { background: #252526; border-color: #3e3e3e; }
+    .line-number { color: #858585; }
+    .hljs-comment, .hljs-quote { color: #6a9955; }
+    .hljs-keyword, .hljs-literal, .hljs-built_in, .hljs-selector-tag { color: #569cd6; }
+    .hljs-string, .hljs-regexp, .hljs-attr { color: #ce9178; }
+    .hljs-number { color: #b5cea8; }
+    .hljs-title, .hljs-section { color: #dcdcaa; }
+    .hljs-variable, .hljs-params, .hljs-property { color: #9cdcfe; }
+    .hljs-type, .hljs-class, .hljs-name, .hljs-tag { color: #4ec9b0; }
+    a { color: #3794ff; }`,
+  light: `
+    body { background: #ffffff; color: #000000; }
+    .header, .footer { background: #f3f3f3; border-color: #d4d4d4; }
+    .line-number { color: #999999; }
+    .hljs-comment, .hljs-quote { color: #008000; }
+    .hljs-keyword, .hljs-literal, .hljs-built_in, .hljs-selector-tag { color: #0000ff; }
+    .hljs-string, .hljs-regexp, .hljs-attr { color: #a31515; }
+    .hljs-number { color: #098658; }
+    .hljs-title, .hljs-section { color: #795e26; }
+    .hljs-variable, .hljs-params, .hljs-property { color: #001080; }
+    .hljs-type, .hljs-class, .hljs-name, .hljs-tag { color: #267f99; }
+    a { color: #006ab1; }`,
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Parse a "12" or "12-20" line range; returns undefined when invalid
+ */
+export function parseLineRange(value: unknown): EmbedOptions["lines"] {
+  if (typeof value !== "string") return undefined;
+
+  const match = /^(\d+)(?:-(\d+))?$/.exec(value.trim());
+  if (!match) return undefined;
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : start;
+  return start >= 1 && end >= start ? { start, end } : undefined;
+}
+
+/**
+ * Parse the theme query parameter, defaulting to dark
+ */
+export function parseEmbedTheme(value: unknown): EmbedTheme {
+  return value === "light" ? "light" : "dark";
+}
+
+/**
+ * Syntax-highlight code and split it into lines of self-contained HTML,
+ * re-opening any spans that continue across a line break
+ */
+function highlightLines(code: string, language: string): string[] {
+  const hljsLanguage = HIGHLIGHT_LANGUAGE_ALIASES[language] ?? language;
+  const html = hljs.getLanguage(hljsLanguage)
+    ? hljs.highlight(code, { language: hljsLanguage, ignoreIllegals: true }).value
+    : escapeHtml(code);
+
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = "";
+
+  for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (token === "\n") {
+      lines.push(current + "</span>".repeat(openTags.length));
+      current = openTags.join("");
+    } else if (token.startsWith("<span")) {
+      openTags.push(token);
+      current += token;
+    } else if (token === "</span>") {
+      openTags.pop();
+      current += token;
+    } else {
+      current += token;
+    }
+  }
+  lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Render a snippet as a standalone, iframe-friendly HTML page
+ */
+export function renderSnippetEmbed(snippet: CodeSnippet, options: EmbedOptions): string {
+  const lines = highlightLines(snippet.code, snippet.language);
+  const start = Math.min(options.lines?.start ?? 1, lines.length);
+  const end = Math.min(options.lines?.end ?? lines.length, lines.length);
+
+  const rows = lines.slice(start - 1, end).map((line, index) =>
+    `<tr><td class="line-number">${start + index}</td><td class="line">${line || " "}</td></tr>`
+  ).join("");
+
+  const range = start === 1 && end === lines.length ? "" : ` · lines ${start}-${end}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(snippet.title)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, sans-serif; font-size: 13px; }
+  .header, .footer { display: flex; justify-content: space-between; padding: 6px 12px; border-style: solid; border-width: 0; }
+  .header { border-bottom-width: 1px; font-weight: 600; }
+  .footer { border-top-width: 1px; font-size: 12px; }
+  .code { overflow: auto; }
+  table { border-collapse: collapse; font-family: 'Fira Code', monospace; font-size: 13px; line-height: ${LINE_HEIGHT_PX}px; }
+  .line-number { padding: 0 12px; text-align: right; user-select: none; vertical-align: top; }
+  .line { padding-right: 12px; white-space: pre; }
+  a { text-decoration: none; }
+  ${THEME_STYLES[options.theme]}
+</style>
+</head>
+<body>
+<div class="header"><span>${escapeHtml(snippet.title)}</span><span>${escapeHtml(snippet.language)}${range}</span></div>
+<div class="code"><table>${rows}</table></div>
+<div class="footer"><a href="${escapeHtml(options.snippetUrl)}" target="_blank" rel="noopener">View on ${PROVIDER_NAME}</a></div>
+</body>
+</html>`;
+}
+
+/**
+ * Describe a snippet as an oEmbed response embedding its /embed page
+ */
+export function buildOEmbedResponse(
+  snippet: CodeSnippet,
+  options: { embedUrl: string; providerUrl: string; authorName?: string; maxWidth?: number; maxHeight?: number }
+): OEmbedResponse {
+  const lineCount = snippet.code.split("\n").length;
+  const width = Math.min(DEFAULT_EMBED_WIDTH, options.maxWidth ?? Infinity);
+  const height = Math.min(lineCount * LINE_HEIGHT_PX + EMBED_CHROME_PX * 2, MAX_EMBED_HEIGHT, options.maxHeight ?? Infinity);
+
+  return {
+    version: "1.0",
+    type: "rich",
+    title: snippet.title,
+    author_name: options.authorName,
+    provider_name: PROVIDER_NAME,
+    provider_url: options.providerUrl,
+    html: `<iframe src="${escapeHtml(options.embedUrl)}" width="${width}" height="${height}" ` +
+      `style="border: 0; border-radius: 6px;" title="${escapeHtml(snippet.title)}" loading="lazy"></iframe>`,
+    width,
+    height,
+  };
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemStorage, storage as sharedStorage } from "../storage";
+import type { InsertCodeSnippet } from "@shared/schema";
+import { startSnippetReaper, type SnippetReaper } from "./snippet-reaper";
+import { SnippetError, viewSharedSnippet } from "./snippets";
+
+const MINUTE = 60 * 1000;
+
+const snippet = (overrides: Partial<InsertCodeSnippet> = {}): InsertCodeSnippet => ({
+  userId: 1,
+  title: "Temporary",
+  code: "console.log('gone soon');",
+  language: "javascript",
+  ...overrides,
+});
+
+describe("snippet expiry", () => {
+  let reaper: SnippetReaper | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date", "setInterval", "clearInterval"] });
+    vi.setSystemTime(new Date("2026-03-01T09:00:00Z"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    reaper?.stop();
+    reaper = undefined;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("purges snippets once the clock passes their expiry time", async () => {
+    const storage = new MemStorage();
+    let now = new Date("2026-03-01T09:00:00Z");
+    const expiring = await storage.createCodeSnippet(snippet({ expiresAt: new Date("2026-03-01T10:00:00Z") }));
+    const lasting = await storage.createCodeSnippet(snippet({ expiresAt: new Date("2026-03-02T10:00:00Z") }));
+    const permanent = await storage.createCodeSnippet(snippet());
+
+    reaper = startSnippetReaper({ storage, now: () => now });
+    // Let the purge on start finish, so this one is not skipped as overlapping
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await reaper.runOnce()).toBe(0);
+
+    now = new Date("2026-03-01T10:00:00Z");
+    expect(await reaper.runOnce()).toBe(1);
+    expect(await storage.getCodeSnippet(expiring.id)).toBeUndefined();
+    expect(await storage.getCodeSnippet(lasting.id)).toBeDefined();
+    expect(await storage.getCodeSnippet(permanent.id)).toBeDefined();
+  });
+
+  it("purges on start and then on every interval tick", async () => {
+    const storage = new MemStorage();
+    const purge = vi.spyOn(storage, "deleteExpiredCodeSnippets");
+    await storage.createCodeSnippet(snippet({ expiresAt: new Date("2026-03-01T08:00:00Z") }));
+    await storage.createCodeSnippet(snippet({ expiresAt: new Date("2026-03-01T09:03:30Z") }));
+
+    reaper = startSnippetReaper({ storage, intervalMs: MINUTE });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(purge).toHaveBeenCalledTimes(1);
+    expect(await storage.getCodeSnippetsByUserId(1)).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(3 * MINUTE);
+    expect(purge).toHaveBeenCalledTimes(4);
+    expect(await storage.getCodeSnippetsByUserId(1)).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(purge).toHaveBeenCalledTimes(5);
+    expect(purge.mock.calls[4][0]).toEqual(new Date("2026-03-01T09:04:00Z"));
+    expect(await storage.getCodeSnippetsByUserId(1)).toHaveLength(0);
+
+    reaper.stop();
+    await vi.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(purge).toHaveBeenCalledTimes(5);
+  });
+
+  it("stops serving a snippet once its expiry time passes, before the reaper runs", async () => {
+    const created = await sharedStorage.createCodeSnippet(snippet({
+      vanityUrl: "expires-at-ten",
+      expiresAt: new Date("2026-03-01T10:00:00Z"),
+    }));
+
+    await expect(viewSharedSnippet("expires-at-ten", { viewerKey: "reader" })).resolves.toMatchObject({ id: created.id });
+
+    vi.setSystemTime(new Date("2026-03-01T10:00:00Z"));
+    await expect(viewSharedSnippet("expires-at-ten", { viewerKey: "reader" })).rejects.toMatchObject({ status: 410 });
+  });
+
+  it("burns a snippet after its last allowed view", async () => {
+    const created = await sharedStorage.createCodeSnippet(snippet({ vanityUrl: "two-views", maxViews: 2 }));
+
+    await viewSharedSnippet("two-views", { viewerKey: "first" });
+    // A repeat viewer is not counted again
+    await viewSharedSnippet("two-views", { viewerKey: "first" });
+    expect((await sharedStorage.getCodeSnippet(created.id))?.views).toBe(1);
+
+    const last = await viewSharedSnippet("two-views", { viewerKey: "second" });
+    expect(last.views).toBe(2);
+    expect(await sharedStorage.getCodeSnippet(created.id)).toBeUndefined();
+
+    const error = await viewSharedSnippet("two-views", { viewerKey: "third" }).catch((error) => error);
+    expect(error).toBeInstanceOf(SnippetError);
+    expect(error.status).toBe(404);
+  });
+});
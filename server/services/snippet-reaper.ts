@@ -0,0 +1,64 @@
+/**
+ * Snippet expiry reaper
+ * Periodically purges shared snippets whose expiry time has passed, so
+ * expired snippets do not linger in storage
+ */
+
+import { storage, type IStorage } from "../storage";
+
+// Options for the reaper schedule
+export interface SnippetReaperOptions {
+  intervalMs?: number;
+  // Clock used to decide what has expired; injectable for tests
+  now?: () => Date;
+  storage?: IStorage;
+}
+
+// Handle for a running reaper
+export interface SnippetReaper {
+  runOnce: () => Promise<number>;
+  stop: () => void;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Start purging expired snippets now and then on a fixed interval
+ */
+export function startSnippetReaper(options: SnippetReaperOptions = {}): SnippetReaper {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const now = options.now ?? (() => new Date());
+  const store = options.storage ?? storage;
+  let running = false;
+
+  const runOnce = async () => {
+    // Skip a tick rather than overlap a slow purge
+    if (running) return 0;
+
+    running = true;
+    try {
+      const purged = await store.deleteExpiredCodeSnippets(now());
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired snippet${purged === 1 ? "" : "s"}`);
+      }
+      return purged;
+    } catch (error) {
+      console.error("Failed to purge expired snippets:", error);
+      return 0;
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(runOnce, intervalMs);
+  // The reaper alone should not keep the process alive
+  timer.unref();
+
+  // Snippets that expired while the server was down go right away
+  void runOnce();
+
+  return {
+    runOnce,
+    stop: () => clearInterval(timer),
+  };
+}
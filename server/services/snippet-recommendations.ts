@@ -0,0 +1,110 @@
+/**
+ * Snippet recommendation service
+ * Matches the imports and identifiers of the file being edited against the
+ * snippet library, then re-ranks the matches by language, by the thumbs up/down
+ * feedback users have given and by the user's own bookmarks
+ */
+
+import { storage } from "../storage";
+import {
+  contextSearchTerms,
+  extractEditorContext,
+  type SnippetRecommendation,
+  type SnippetRecommendationRequest,
+  type SnippetRecommendationResponse,
+} from "@shared/snippet-recommendations";
+import type { SnippetSearchHit } from "@shared/snippet-search";
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 5;
+
+// Matches considered for re-ranking
+const CANDIDATE_POOL_SIZE = 50;
+
+// Languages whose snippets are interchangeable
+const LANGUAGE_FAMILIES: Record<string, string> = {
+  javascript: "javascript",
+  typescript: "javascript",
+  jsx: "javascript",
+  tsx: "javascript",
+};
+
+const languageFamily = (language: string) => LANGUAGE_FAMILIES[language] ?? language;
+
+// Votes on one snippet
+interface FeedbackTally {
+  helpful: number;
+  notHelpful: number;
+  userVote: boolean | null;
+}
+
+/**
+ * Tally every user's votes on the candidate snippets, noting the requester's own
+ */
+async function tallyFeedback(snippetIds: number[], userId: number): Promise<Map<number, FeedbackTally>> {
+  const tallies = new Map<number, FeedbackTally>();
+  (await storage.getCodeSnippetFeedback(snippetIds)).forEach((feedback) => {
+    const tally = tallies.get(feedback.snippetId) ?? { helpful: 0, notHelpful: 0, userVote: null };
+    if (feedback.helpful) tally.helpful++;
+    else tally.notHelpful++;
+    if (feedback.userId === userId) tally.userVote = feedback.helpful;
+    tallies.set(feedback.snippetId, tally);
+  });
+  return tallies;
+}
+
+/**
+ * Multiplier for a candidate beyond its text match
+ * Everyone's votes nudge the rank by up to half either way, smoothed so a
+ * single vote counts for little; the requester's own vote counts far more.
+ */
+function rankBoost(hit: SnippetSearchHit, language: string, tally: FeedbackTally | undefined, saved: Set<number>): number {
+  let boost = languageFamily(hit.language) === languageFamily(language) ? 1.25 : 1;
+
+  if (tally) {
+    boost *= 1 + 0.5 * (tally.helpful - tally.notHelpful) / (tally.helpful + tally.notHelpful + 2);
+    if (tally.userVote === true) boost *= 1.5;
+    if (tally.userVote === false) boost *= 0.25;
+  }
+
+  if (saved.has(hit.id)) boost *= 1.3;
+  return boost;
+}
+
+/**
+ * Recommend snippets for the file a user is editing
+ * Without any usable terms in the file, the most viewed snippets in its
+ * language are recommended instead.
+ */
+export async function recommendSnippets(
+  userId: number,
+  request: SnippetRecommendationRequest
+): Promise<SnippetRecommendationResponse> {
+  const context = extractEditorContext(request.code, request.language);
+  const terms = contextSearchTerms(context);
+
+  const { results } = await storage.searchCodeSnippets(terms.length > 0
+    ? { anyTerms: terms, page: 1, pageSize: CANDIDATE_POOL_SIZE, viewerId: userId }
+    : { language: request.language, page: 1, pageSize: CANDIDATE_POOL_SIZE, viewerId: userId });
+
+  const tallies = await tallyFeedback(results.map((hit) => hit.id), userId);
+  const saved = new Set(request.savedSnippetIds ?? []);
+
+  // Browsed snippets have no text score, so they rank on their boosts alone
+  const topScore = results.reduce((max, hit) => Math.max(max, hit.score), 0);
+  const ranked = results
+    .map((hit) => ({
+      hit,
+      rank: (topScore > 0 ? hit.score / topScore : 1) * rankBoost(hit, request.language, tallies.get(hit.id), saved),
+    }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, request.limit ?? DEFAULT_RECOMMENDATION_LIMIT);
+
+  const topRank = ranked[0]?.rank ?? 1;
+  const recommendations: SnippetRecommendation[] = ranked.map(({ hit, rank }) => ({
+    ...hit,
+    relevance: Math.round((rank / topRank) * 100),
+    userFeedback: tallies.get(hit.id)?.userVote ?? null,
+  }));
+
+  return { context, recommendations };
+}
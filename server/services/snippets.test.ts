@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import type { InsertCodeSnippet } from "@shared/schema";
+import { SnippetError, claimVanityUrl, forkSnippet, getSharedSnippetRevisions, suggestVanityUrl, viewSharedSnippet } from "./snippets";
+
+const OWNER_ID = 101;
+const READER_ID = 102;
+
+const snippet = (overrides: Partial<InsertCodeSnippet> = {}): InsertCodeSnippet => ({
+  userId: OWNER_ID,
+  title: "Shared",
+  code: "print('hello')",
+  language: "python",
+  ...overrides,
+});
+
+describe("burn-after-reading snippets", () => {
+  it("refuse forks and revision history to everyone but their owner", async () => {
+    const created = await storage.createCodeSnippet(snippet({ vanityUrl: "burn-once", maxViews: 1 }));
+
+    await expect(forkSnippet("burn-once", READER_ID)).rejects.toMatchObject({ status: 403 });
+    await expect(getSharedSnippetRevisions("burn-once", READER_ID)).rejects.toMatchObject({ status: 403 });
+    await expect(getSharedSnippetRevisions("burn-once")).rejects.toMatchObject({ status: 403 });
+
+    // None of that counted as a view, so the one allowed view is still there
+    expect((await storage.getCodeSnippet(created.id))?.views).toBe(0);
+    expect(await viewSharedSnippet("burn-once", { userId: READER_ID, viewerKey: `user:${READER_ID}` }))
+      .toMatchObject({ code: "print('hello')", views: 1 });
+    expect(await storage.getCodeSnippet(created.id)).toBeUndefined();
+  });
+
+  it("are shown to only one of several viewers loading them at once", async () => {
+    const created = await storage.createCodeSnippet(snippet({ vanityUrl: "burn-race", maxViews: 1 }));
+
+    const results = await Promise.allSettled([1, 2, 3].map((viewer) =>
+      viewSharedSnippet("burn-race", { viewerKey: `anon:${viewer}` })
+    ));
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    expect(results.filter((result) => result.status === "rejected").map((result) => (result as PromiseRejectedResult).reason))
+      .toEqual([expect.objectContaining({ status: 410 }), expect.objectContaining({ status: 410 })]);
+    expect(await storage.getCodeSnippet(created.id)).toBeUndefined();
+  });
+
+  it("stay readable in full by their owner", async () => {
+    const created = await storage.createCodeSnippet(snippet({ vanityUrl: "owner-burn", maxViews: 3 }));
+
+    expect(await getSharedSnippetRevisions("owner-burn", OWNER_ID)).toHaveLength(1);
+    expect(await forkSnippet("owner-burn", OWNER_ID)).toMatchObject({ forkedFromId: created.id, maxViews: null });
+  });
+
+  it("leave ordinary snippets open to forks and history", async () => {
+    const created = await storage.createCodeSnippet(snippet({ vanityUrl: "open-book" }));
+
+    expect(await getSharedSnippetRevisions("open-book")).toHaveLength(1);
+    expect(await forkSnippet("open-book", READER_ID)).toMatchObject({ userId: READER_ID, forkedFromId: created.id });
+  });
+});
+
+describe("vanity URLs", () => {
+  it("hands out a random URL when none is asked for", async () => {
+    const first = await claimVanityUrl(undefined);
+    const second = await claimVanityUrl("");
+    expect(first).toMatch(/^[\w-]{8}$/);
+    expect(second).toMatch(/^[\w-]{8}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it("grants a free URL as asked", async () => {
+    await expect(claimVanityUrl("free-url")).resolves.toBe("free-url");
+  });
+
+  it("refuses a taken URL and suggests the next free one", async () => {
+    await storage.createCodeSnippet(snippet({ vanityUrl: "taken" }));
+    await storage.createCodeSnippet(snippet({ vanityUrl: "taken-2" }));
+
+    const error = await claimVanityUrl("taken").catch((error) => error);
+    expect(error).toBeInstanceOf(SnippetError);
+    expect(error).toMatchObject({ status: 409, details: { suggestion: "taken-3" } });
+  });
+
+  it("lets a snippet keep its own URL", async () => {
+    const own = await storage.createCodeSnippet(snippet({ vanityUrl: "mine" }));
+    await expect(claimVanityUrl("mine", own.id)).resolves.toBe("mine");
+    await expect(claimVanityUrl("mine", own.id + 1)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("refuses URLs that clash with app routes, whatever their case", async () => {
+    await expect(claimVanityUrl("Embed")).rejects.toMatchObject({ status: 409, details: { suggestion: "Embed-2" } });
+    await expect(claimVanityUrl("api")).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("falls back to a random suffix when the numbered ones are taken", async () => {
+    for (let suffix = 2; suffix <= 20; suffix++) {
+      await storage.createCodeSnippet(snippet({ vanityUrl: `crowded-${suffix}` }));
+    }
+    expect(await suggestVanityUrl("crowded")).toMatch(/^crowded-[\w-]{6}$/);
+  });
+});
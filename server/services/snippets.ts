@@ -0,0 +1,214 @@
+/**
+ * Code snippet sharing service
+ * Handles vanity URL allocation and the rules for viewing shared snippets:
+ * visibility, expiry, per-viewer view counting and burn-after-reading,
+ * plus forking and revision history
+ */
+
+import { nanoid } from "nanoid";
+import { storage } from "../storage";
+import { analyzeComplexity } from "./complexity";
+import { isComplexityLanguage } from "@shared/complexity";
+import type { CodeSnippet, CodeSnippetRevision } from "@shared/schema";
+
+// Error raised for snippet requests that cannot be served
+export class SnippetError extends Error {
+  constructor(message: string, public status: number = 400, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "SnippetError";
+  }
+}
+
+// A shared snippet as returned to viewers
+export interface SharedSnippet extends CodeSnippet {
+  author: { id: number; username: string } | null;
+  forkedFrom: { title: string; vanityUrl: string } | null;
+  revisionCount: number;
+}
+
+// Vanity URLs that would clash with app routes
+const RESERVED_VANITY_URLS = new Set(["new", "edit", "embed", "api", "admin"]);
+
+/**
+ * Whether a snippet's expiry time has passed
+ */
+export function isSnippetExpired(snippet: CodeSnippet, now: Date = new Date()): boolean {
+  return !!snippet.expiresAt && new Date(snippet.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a burn-after-reading snippet has used up its views
+ */
+export function hasReachedViewLimit(snippet: CodeSnippet): boolean {
+  return !!snippet.maxViews && (snippet.views ?? 0) >= snippet.maxViews;
+}
+
+/**
+ * Measured complexity score for snippet code, or undefined when the language
+ * is not supported or the code cannot be parsed
+ */
+export async function measureSnippetComplexity(code: string, language: string): Promise<number | undefined> {
+  if (!isComplexityLanguage(language)) return undefined;
+
+  try {
+    return (await analyzeComplexity(code, language)).score;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find a free vanity URL close to the requested one
+ */
+export async function suggestVanityUrl(vanityUrl: string): Promise<string> {
+  for (let suffix = 2; suffix <= 20; suffix++) {
+    const candidate = `${vanityUrl}-${suffix}`;
+    if (!(await storage.getCodeSnippetByVanityUrl(candidate))) {
+      return candidate;
+    }
+  }
+
+  return `${vanityUrl}-${nanoid(6)}`;
+}
+
+/**
+ * Make sure a vanity URL can be given to a snippet, rejecting collisions
+ * with a suggested alternative
+ */
+export async function claimVanityUrl(vanityUrl: string | null | undefined, snippetId?: number): Promise<string> {
+  if (!vanityUrl) {
+    return nanoid(8);
+  }
+
+  const existing = await storage.getCodeSnippetByVanityUrl(vanityUrl);
+  if (RESERVED_VANITY_URLS.has(vanityUrl.toLowerCase()) || (existing && existing.id !== snippetId)) {
+    throw new SnippetError(`The URL "${vanityUrl}" is already taken`, 409, {
+      suggestion: await suggestVanityUrl(vanityUrl),
+    });
+  }
+
+  return vanityUrl;
+}
+
+/**
+ * Look up a shared snippet and check that the viewer may see it
+ * Private snippets are only visible to their owner
+ */
+export async function getViewableSnippet(vanityUrl: string, userId?: number): Promise<CodeSnippet> {
+  const snippet = await storage.getCodeSnippetByVanityUrl(vanityUrl);
+  const isOwner = !!snippet && snippet.userId === userId;
+
+  if (!snippet || (!snippet.isPublic && !isOwner)) {
+    throw new SnippetError("Snippet not found", 404);
+  }
+
+  if (isSnippetExpired(snippet) || (!isOwner && hasReachedViewLimit(snippet))) {
+    throw new SnippetError("This snippet has expired", 410);
+  }
+
+  return snippet;
+}
+
+/**
+ * Look up a shared snippet for a read that is not counted as a view
+ * Burn-after-reading snippets would outlive their limit that way, so only
+ * their owner may read them like this.
+ */
+async function getUncountedSnippet(vanityUrl: string, userId: number | undefined, refusal: string): Promise<CodeSnippet> {
+  const snippet = await getViewableSnippet(vanityUrl, userId);
+  if (snippet.maxViews && snippet.userId !== userId) {
+    throw new SnippetError(refusal, 403);
+  }
+  return snippet;
+}
+
+/**
+ * Link to the snippet a fork was copied from, if readers can still see it
+ */
+async function getForkParent(snippet: CodeSnippet): Promise<SharedSnippet["forkedFrom"]> {
+  if (!snippet.forkedFromId) return null;
+
+  const parent = await storage.getCodeSnippet(snippet.forkedFromId);
+  if (!parent?.vanityUrl || !parent.isPublic || isSnippetExpired(parent)) return null;
+
+  return { title: parent.title, vanityUrl: parent.vanityUrl };
+}
+
+/**
+ * Load a shared snippet for a viewer, counting the view once per viewer
+ */
+export async function viewSharedSnippet(
+  vanityUrl: string,
+  viewer: { userId?: number; viewerKey: string }
+): Promise<SharedSnippet> {
+  const snippet = await getViewableSnippet(vanityUrl, viewer.userId);
+
+  let current = snippet;
+  if (snippet.userId !== viewer.userId && await storage.recordCodeSnippetView(snippet.id, viewer.viewerKey)) {
+    // Storage refuses the view once the limit is used up, even by viewers
+    // who loaded the snippet at the same time as the last counted one
+    const counted = await storage.incrementCodeSnippetViews(snippet.id);
+    if (!counted) {
+      throw new SnippetError("This snippet has expired", 410);
+    }
+    current = counted;
+
+    // Burn-after-reading snippets are shown one last time, then deleted
+    if (hasReachedViewLimit(current)) {
+      await storage.deleteCodeSnippet(snippet.id);
+    }
+  }
+
+  const author = await storage.getUser(snippet.userId);
+  const revisions = await storage.getCodeSnippetRevisions(snippet.id);
+  return {
+    ...current,
+    author: author ? { id: author.id, username: author.username } : null,
+    forkedFrom: await getForkParent(snippet),
+    revisionCount: Math.max(revisions.length, 1),
+  };
+}
+
+/**
+ * Revision history of a shared snippet, oldest first
+ */
+export async function getSharedSnippetRevisions(vanityUrl: string, userId?: number): Promise<CodeSnippetRevision[]> {
+  const snippet = await getUncountedSnippet(vanityUrl, userId, "Burn-after-reading snippets do not share their history");
+  const revisions = await storage.getCodeSnippetRevisions(snippet.id);
+
+  // Snippets shared before revisions were kept have only their current version
+  if (revisions.length === 0) {
+    return [{
+      id: 0,
+      snippetId: snippet.id,
+      revision: 1,
+      title: snippet.title,
+      description: snippet.description,
+      code: snippet.code,
+      language: snippet.language,
+      createdAt: snippet.updatedAt,
+    }];
+  }
+
+  return revisions;
+}
+
+/**
+ * Copy a shared snippet into the user's own account, linked back to its parent
+ */
+export async function forkSnippet(vanityUrl: string, userId: number): Promise<CodeSnippet> {
+  const parent = await getUncountedSnippet(vanityUrl, userId, "Burn-after-reading snippets cannot be forked");
+
+  return storage.createCodeSnippet({
+    userId,
+    title: parent.title,
+    description: parent.description,
+    code: parent.code,
+    language: parent.language,
+    complexity: parent.complexity,
+    mood: parent.mood,
+    tags: parent.tags,
+    vanityUrl: await claimVanityUrl(undefined),
+    forkedFromId: parent.id,
+  });
+}
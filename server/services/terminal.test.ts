@@ -0,0 +1,113 @@
+import fs from "fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isNetworkIsolationAvailable } from "./container";
+import { createTerminalSession, getTerminalUnavailableReason, type TerminalSession } from "./terminal";
+
+// Host processes whose command line contains the given marker
+function processesMatching(marker: string): string[] {
+  return fs.readdirSync("/proc").filter((pid) => {
+    if (!/^\d+$/.test(pid)) return false;
+    try {
+      return fs.readFileSync(`/proc/${pid}/cmdline`, "utf-8").includes(marker);
+    } catch {
+      return false;
+    }
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  return () => vi.restoreAllMocks();
+});
+
+describe("getTerminalUnavailableReason", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("allows terminals when the shell can be isolated or the server allows network access", () => {
+    vi.stubEnv("SANDBOX_ALLOW_NETWORK", "true");
+    expect(getTerminalUnavailableReason()).toBeUndefined();
+
+    vi.stubEnv("SANDBOX_ALLOW_NETWORK", "");
+    expect(getTerminalUnavailableReason()).toBe(isNetworkIsolationAvailable()
+      ? undefined
+      : "Terminals are unavailable: this server cannot run a shell without network access");
+  });
+});
+
+describe.skipIf(!isNetworkIsolationAvailable())("createTerminalSession", () => {
+  let session: TerminalSession | undefined;
+
+  afterEach(() => {
+    session?.close();
+    session = undefined;
+  });
+
+  it("runs commands in a persistent shell", async () => {
+    let output = "";
+    session = createTerminalSession("persistent", { onData: (data) => (output += data), onExit: () => {} });
+
+    session.write("export GREETING=hello; cd /tmp\n");
+    session.write("echo \"$GREETING from $(pwd), ulimit $(ulimit -u)\"\n");
+    await vi.waitFor(() => expect(output).toContain("hello from /tmp, ulimit 256"));
+  });
+
+  it("kills background, nohup'd and setsid'd commands when closed", async () => {
+    // Sleep durations unique to this run, to find the processes from outside
+    const markers = [4000, 4001, 4002].map((offset) => `${offset + Math.floor(Math.random() * 10000) * 10}`);
+    let output = "";
+    const exited = new Promise<number>((resolve) => {
+      session = createTerminalSession("background", { onData: (data) => (output += data), onExit: resolve });
+    });
+
+    session!.write(`sleep ${markers[0]} & nohup sleep ${markers[1]} >/dev/null 2>&1 & setsid sleep ${markers[2]} & echo started\n`);
+    await vi.waitFor(() => expect(output).toMatch(/^started/m));
+    await vi.waitFor(() => markers.forEach((marker) => expect(processesMatching(`sleep\0${marker}`)).toHaveLength(1)));
+
+    session!.close();
+    await exited;
+    await vi.waitFor(() => markers.forEach((marker) => expect(processesMatching(`sleep\0${marker}`)).toEqual([])));
+  });
+});
+
+describe("without network isolation", () => {
+  afterEach(() => {
+    vi.doUnmock("child_process");
+    vi.unstubAllEnvs();
+  });
+
+  const loadTerminal = async () => {
+    vi.resetModules();
+    vi.doMock("child_process", async (importOriginal) => ({
+      ...(await importOriginal<typeof import("child_process")>()),
+      spawnSync: () => ({ status: 1 }),
+    }));
+    return import("./terminal");
+  };
+
+  it("refuses terminals unless the server allows network access", async () => {
+    const terminal = await loadTerminal();
+    expect(terminal.getTerminalUnavailableReason()).toMatch(/cannot run a shell without network access/);
+  });
+
+  // setsid forks when run as a job, and only a PID namespace catches its orphan
+  it("still kills background and nohup'd commands when closed", async () => {
+    vi.stubEnv("SANDBOX_ALLOW_NETWORK", "true");
+    const terminal = await loadTerminal();
+    const markers = [5000, 5001].map((offset) => `${offset + Math.floor(Math.random() * 10000) * 10}`);
+    let output = "";
+    let exit: (exitCode: number) => void = () => {};
+    const exited = new Promise<number>((resolve) => (exit = resolve));
+    const session = terminal.createTerminalSession("unisolated", { onData: (data) => (output += data), onExit: (code) => exit(code) });
+
+    session.write(`sleep ${markers[0]} & nohup sleep ${markers[1]} >/dev/null 2>&1 & echo started\n`);
+    await vi.waitFor(() => expect(output).toMatch(/^started/m));
+    await vi.waitFor(() => markers.forEach((marker) => expect(processesMatching(`sleep\0${marker}`)).toHaveLength(1)));
+
+    session.close();
+    await exited;
+    await vi.waitFor(() => markers.forEach((marker) => expect(processesMatching(`sleep\0${marker}`)).toEqual([])));
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Terminal session service
+ * Provides persistent interactive shell sessions backed by a pseudo-terminal
+ * for the IDE's terminal tabs
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as pty from "node-pty";
+import { isNetworkIsolationAvailable, killProcessTree, sandboxWrapper } from "./container";
+
+// Interface for terminal session options
+export interface TerminalSessionOptions {
+  cols?: number;
+  rows?: number;
+  onData: (data: string) => void;
+  onExit: (exitCode: number) => void;
+}
+
+// Handle to a running shell session
+export interface TerminalSession {
+  id: string;
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  close(): void;
+}
+
+const DEFAULT_COLS = 80;
+const DEFAULT_ROWS = 24;
+const MAX_COLS = 500;
+const MAX_ROWS = 200;
+// CPU seconds each process started from a terminal may use
+const MAX_CPU_SECONDS = 3600;
+
+/**
+ * Why terminal sessions cannot be opened on this server, if they cannot
+ * Like code execution, shells need network isolation unless the server
+ * explicitly allows network access
+ */
+export function getTerminalUnavailableReason(): string | undefined {
+  if (!isNetworkIsolationAvailable() && process.env.SANDBOX_ALLOW_NETWORK !== "true") {
+    return "Terminals are unavailable: this server cannot run a shell without network access";
+  }
+
+  return undefined;
+}
+
+/**
+ * Start an interactive shell session
+ * The shell keeps running between commands, so the working directory and
+ * exported variables persist until the session is closed
+ * @param id Identifier chosen by the client for this terminal tab
+ * @param options Session options and output callbacks
+ * @returns Handle for writing to, resizing and closing the session
+ */
+export function createTerminalSession(id: string, options: TerminalSessionOptions): TerminalSession {
+  console.log(`Starting terminal session ${id}...`);
+
+  const workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), "cloudide-term-"));
+  const [command, ...args] = [
+    ...sandboxWrapper(isNetworkIsolationAvailable(), [`ulimit -t ${MAX_CPU_SECONDS}`]),
+    "bash", "--noprofile", "--norc", "-i",
+  ];
+
+  const shell = pty.spawn(command, args, {
+    name: "xterm-256color",
+    cols: clampDimension(options.cols, DEFAULT_COLS, MAX_COLS),
+    rows: clampDimension(options.rows, DEFAULT_ROWS, MAX_ROWS),
+    cwd: workspaceDir,
+    env: {
+      PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+      HOME: workspaceDir,
+      TMPDIR: workspaceDir,
+      LANG: "C.UTF-8",
+      TERM: "xterm-256color",
+      PS1: "\\[\\e[1;34m\\]\\w\\[\\e[0m\\] $ ",
+    },
+  });
+
+  let closed = false;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    fs.promises.rm(workspaceDir, { recursive: true, force: true }).catch(() => {});
+  };
+
+  shell.onData(options.onData);
+  shell.onExit(({ exitCode }) => {
+    cleanup();
+    options.onExit(exitCode);
+  });
+
+  return {
+    id,
+    write: (data: string) => {
+      if (!closed) {
+        shell.write(data);
+      }
+    },
+    resize: (cols: number, rows: number) => {
+      if (!closed) {
+        shell.resize(clampDimension(cols, DEFAULT_COLS, MAX_COLS), clampDimension(rows, DEFAULT_ROWS, MAX_ROWS));
+      }
+    },
+    close: () => {
+      if (!closed) {
+        // Background jobs sit in process groups of their own and nohup'd
+        // commands ignore SIGHUP, so everything the shell started is killed
+        killProcessTree(shell.pid);
+        cleanup();
+      }
+    },
+  };
+}
+
+/**
+ * Clamp a terminal dimension sent by the client to a sane range
+ */
+function clampDimension(value: number | undefined, fallback: number, max: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 1) {
+    return fallback;
+  }
+
+  return Math.min(Math.floor(value), max);
+}
@@ -0,0 +1,292 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+const migrationsDir = path.resolve(import.meta.dirname, "..", "migrations");
+
+// An in-process Postgres with every migration applied, as the database backend runs against
+async function createDbStorage(): Promise<{ storage: IStorage; close: () => Promise<void> }> {
+  const client = new PGlite();
+  const migrations = readdirSync(migrationsDir).filter((name) => name.endsWith(".sql")).sort();
+  for (const name of migrations) {
+    const statements = readFileSync(path.join(migrationsDir, name), "utf8").split("--> statement-breakpoint");
+    for (const statement of statements) {
+      if (statement.trim()) await client.exec(statement);
+    }
+  }
+
+  const db = drizzle(client, { schema }) as unknown as Database;
+  return { storage: new DbStorage(db, new session.MemoryStore()), close: () => client.close() };
+}
+
+const backends: [string, () => Promise<{ storage: IStorage; close: () => Promise<void> }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DbStorage", createDbStorage],
+];
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let close: () => Promise<void>;
+  let userId: number;
+
+  beforeEach(async () => {
+    ({ storage, close } = await createStorage());
+    const user = await storage.createUser({ username: "contract", password: "hashed", email: "contract@example.com" });
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  const snippet = (overrides: Partial<schema.InsertCodeSnippet> = {}): schema.InsertCodeSnippet => ({
+    userId,
+    title: "Binary search",
+    code: "function search(items, target) {}",
+    language: "javascript",
+    ...overrides,
+  });
+
+  describe("users", () => {
+    it("finds a user by id and by username", async () => {
+      const user = await storage.getUser(userId);
+      expect(user).toMatchObject({ username: "contract", email: "contract@example.com", fullName: null });
+      expect(await storage.getUserByUsername("contract")).toEqual(user);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+  });
+
+  describe("projects and files", () => {
+    it("creates, updates and deletes a project", async () => {
+      const project = await storage.createProject({ name: "Demo", description: "A project", userId });
+      expect(await storage.getProjectsByUserId(userId)).toEqual([project]);
+
+      const updated = await storage.updateProject(project.id, { name: "Renamed" });
+      expect(updated).toMatchObject({ id: project.id, name: "Renamed", description: "A project" });
+
+      expect(await storage.deleteProject(project.id)).toBe(true);
+      expect(await storage.getProject(project.id)).toBeUndefined();
+      expect(await storage.deleteProject(project.id)).toBe(false);
+    });
+
+    it("deletes a project's files along with it", async () => {
+      const project = await storage.createProjectWithFiles({ name: "Doomed", userId }, [
+        { name: "src", path: "/src", content: null, isFolder: true },
+        { name: "main.ts", path: "/src/main.ts", content: "run();", isFolder: false },
+      ]);
+      const other = await storage.createProjectWithFiles({ name: "Kept", userId }, [
+        { name: "main.ts", path: "/main.ts", content: "keep();", isFolder: false },
+      ]);
+
+      expect(await storage.deleteProject(project.id)).toBe(true);
+      expect(await storage.getFilesByProjectId(project.id)).toEqual([]);
+      expect(await storage.getFilesByProjectId(other.id)).toHaveLength(1);
+    });
+
+    it("creates a project together with its files", async () => {
+      const project = await storage.createProjectWithFiles({ name: "Imported", userId }, [
+        { name: "src", path: "/src", content: null, isFolder: true },
+        { name: "main.py", path: "/src/main.py", content: "print(1)", isFolder: false },
+      ]);
+
+      expect(await storage.getProject(project.id)).toEqual(project);
+      const rows = await storage.getFilesByProjectId(project.id);
+      expect(rows.map((row) => [row.path, row.content, row.isFolder])).toEqual([
+        ["/src", null, true],
+        ["/src/main.py", "print(1)", false],
+      ]);
+    });
+
+    it("keeps files to their project", async () => {
+      const project = await storage.createProject({ name: "Demo", userId });
+      const other = await storage.createProject({ name: "Other", userId });
+      const file = await storage.createFile({ name: "index.ts", path: "/index.ts", content: "export {}", projectId: project.id, isFolder: false });
+      await storage.createFile({ name: "src", path: "/src", projectId: other.id, isFolder: true });
+
+      expect(await storage.getFilesByProjectId(project.id)).toEqual([file]);
+
+      const updated = await storage.updateFile(file.id, { content: "export const a = 1;" });
+      expect(updated).toMatchObject({ id: file.id, path: "/index.ts", content: "export const a = 1;" });
+      expect(await storage.updateFile(-1, { content: "" })).toBeUndefined();
+
+      expect(await storage.deleteFile(file.id)).toBe(true);
+      expect(await storage.getFilesByProjectId(project.id)).toEqual([]);
+    });
+
+    it("moves a folder with its contents and new parent folders", async () => {
+      const project = await storage.createProject({ name: "Demo", userId });
+      const folder = await storage.createFile({ name: "src", path: "/src", projectId: project.id, isFolder: true });
+      await storage.createFile({ name: "lib", path: "/src/lib", projectId: project.id, isFolder: true });
+      await storage.createFile({ name: "a.ts", path: "/src/lib/a.ts", content: "", projectId: project.id, isFolder: false });
+      const sibling = await storage.createFile({ name: "src-old", path: "/src-old", projectId: project.id, isFolder: true });
+
+      const moved = await storage.moveFiles(project.id, "/src", "/packages/app", [
+        { name: "packages", path: "/packages", content: null, projectId: project.id, isFolder: true },
+      ]);
+      expect(moved.find((row) => row.id === folder.id)).toMatchObject({ name: "app", path: "/packages/app" });
+
+      const paths = (await storage.getFilesByProjectId(project.id)).map((row) => [row.path, row.name]);
+      expect(paths).toEqual(expect.arrayContaining([
+        ["/packages", "packages"],
+        ["/packages/app", "app"],
+        ["/packages/app/lib", "lib"],
+        ["/packages/app/lib/a.ts", "a.ts"],
+      ]));
+      expect(await storage.getFile(sibling.id)).toMatchObject({ path: "/src-old" });
+      expect(paths).toHaveLength(5);
+    });
+
+    it("deletes a folder with everything inside it", async () => {
+      const project = await storage.createProject({ name: "Demo", userId });
+      const other = await storage.createProject({ name: "Other", userId });
+      await storage.createFile({ name: "src", path: "/src", projectId: project.id, isFolder: true });
+      await storage.createFile({ name: "a.ts", path: "/src/a.ts", content: "", projectId: project.id, isFolder: false });
+      const sibling = await storage.createFile({ name: "src.ts", path: "/src.ts", content: "", projectId: project.id, isFolder: false });
+      const elsewhere = await storage.createFile({ name: "src", path: "/src", projectId: other.id, isFolder: true });
+
+      expect(await storage.deleteFiles(project.id, "/src")).toBe(2);
+      expect(await storage.getFilesByProjectId(project.id)).toEqual([sibling]);
+      expect(await storage.getFilesByProjectId(other.id)).toEqual([elsewhere]);
+    });
+  });
+
+  describe("code snippets", () => {
+    it("fills in defaults and finds snippets by vanity URL", async () => {
+      const created = await storage.createCodeSnippet(snippet({ vanityUrl: "binary-search" }));
+      expect(created).toMatchObject({
+        views: 0, complexity: 1, mood: "neutral", isPublic: true,
+        expiresAt: null, maxViews: null, forkedFromId: null, tags: [],
+      });
+      expect(await storage.getCodeSnippetByVanityUrl("binary-search")).toEqual(created);
+      expect(await storage.getCodeSnippetByVanityUrl("missing")).toBeUndefined();
+      expect(await storage.getCodeSnippetsByUserId(userId)).toEqual([created]);
+    });
+
+    it("counts views and records each viewer once", async () => {
+      const created = await storage.createCodeSnippet(snippet());
+      await storage.incrementCodeSnippetViews(created.id);
+      expect((await storage.incrementCodeSnippetViews(created.id))?.views).toBe(2);
+
+      expect(await storage.recordCodeSnippetView(created.id, "viewer-a")).toBe(true);
+      expect(await storage.recordCodeSnippetView(created.id, "viewer-a")).toBe(false);
+      expect(await storage.recordCodeSnippetView(created.id, "viewer-b")).toBe(true);
+    });
+
+    it("stops counting views at the snippet's view limit", async () => {
+      const created = await storage.createCodeSnippet(snippet({ maxViews: 2 }));
+      expect((await storage.incrementCodeSnippetViews(created.id))?.views).toBe(1);
+      expect((await storage.incrementCodeSnippetViews(created.id))?.views).toBe(2);
+      expect(await storage.incrementCodeSnippetViews(created.id)).toBeUndefined();
+      expect((await storage.getCodeSnippet(created.id))?.views).toBe(2);
+    });
+
+    it("keeps a revision for each change to the content", async () => {
+      const created = await storage.createCodeSnippet(snippet());
+      await storage.updateCodeSnippet(created.id, { code: "function search() { return -1; }" });
+      await storage.updateCodeSnippet(created.id, { mood: "happy" });
+
+      const revisions = await storage.getCodeSnippetRevisions(created.id);
+      expect(revisions.map((revision) => [revision.revision, revision.code])).toEqual([
+        [1, "function search(items, target) {}"],
+        [2, "function search() { return -1; }"],
+      ]);
+    });
+
+    it("replaces a user's earlier vote", async () => {
+      const created = await storage.createCodeSnippet(snippet());
+      await storage.setCodeSnippetFeedback(userId, created.id, true);
+      await storage.setCodeSnippetFeedback(userId, created.id, false);
+
+      const feedback = await storage.getCodeSnippetFeedback([created.id]);
+      expect(feedback).toHaveLength(1);
+      expect(feedback[0]).toMatchObject({ userId, snippetId: created.id, helpful: false });
+      expect(await storage.getCodeSnippetFeedback([])).toEqual([]);
+    });
+
+    it("deletes a snippet with its views, revisions and feedback", async () => {
+      const created = await storage.createCodeSnippet(snippet({ vanityUrl: "doomed" }));
+      await storage.recordCodeSnippetView(created.id, "viewer");
+      await storage.updateCodeSnippet(created.id, { code: "changed" });
+      await storage.setCodeSnippetFeedback(userId, created.id, true);
+
+      expect(await storage.deleteCodeSnippet(created.id)).toBe(true);
+      expect(await storage.getCodeSnippet(created.id)).toBeUndefined();
+      expect(await storage.getCodeSnippetRevisions(created.id)).toEqual([]);
+      expect(await storage.getCodeSnippetFeedback([created.id])).toEqual([]);
+      expect(await storage.deleteCodeSnippet(created.id)).toBe(false);
+
+      // The vanity URL is free again
+      const reused = await storage.createCodeSnippet(snippet({ vanityUrl: "doomed" }));
+      expect(await storage.recordCodeSnippetView(reused.id, "viewer")).toBe(true);
+    });
+
+    it("deletes only the snippets that have expired", async () => {
+      const now = new Date("2026-01-01T12:00:00Z");
+      const expired = await storage.createCodeSnippet(snippet({ expiresAt: new Date("2026-01-01T11:00:00Z") }));
+      const expiring = await storage.createCodeSnippet(snippet({ expiresAt: now }));
+      const live = await storage.createCodeSnippet(snippet({ expiresAt: new Date("2026-01-02T00:00:00Z") }));
+      const forever = await storage.createCodeSnippet(snippet());
+
+      expect(await storage.deleteExpiredCodeSnippets(now)).toBe(2);
+      expect(await storage.getCodeSnippet(expired.id)).toBeUndefined();
+      expect(await storage.getCodeSnippet(expiring.id)).toBeUndefined();
+      expect(await storage.getCodeSnippetRevisions(expired.id)).toEqual([]);
+      expect(await storage.getCodeSnippet(live.id)).toBeDefined();
+      expect(await storage.getCodeSnippet(forever.id)).toBeDefined();
+      expect(await storage.deleteExpiredCodeSnippets(now)).toBe(0);
+    });
+
+    it("searches visible snippets with facets", async () => {
+      const search = await storage.createCodeSnippet(snippet({ tags: ["algorithms"] }));
+      await storage.createCodeSnippet(snippet({ title: "Bubble sort", code: "function sort() {}", language: "python" }));
+      await storage.createCodeSnippet(snippet({ title: "Private search", isPublic: false }));
+
+      const result = await storage.searchCodeSnippets({ query: "search", page: 1, pageSize: 10 });
+      expect(result.results.map((hit) => hit.id)).toEqual([search.id]);
+      expect(result.total).toBe(1);
+      expect(result.facets.tags).toEqual([{ value: "algorithms", count: 1 }]);
+
+      const own = await storage.searchCodeSnippets({ query: "search", page: 1, pageSize: 10, viewerId: userId });
+      expect(own.total).toBe(2);
+
+      const python = await storage.searchCodeSnippets({ language: "python", page: 1, pageSize: 10 });
+      expect(python.results.map((hit) => hit.title)).toEqual(["Bubble sort"]);
+      expect(python.facets.languages).toEqual(expect.arrayContaining([
+        { value: "javascript", count: 1 },
+        { value: "python", count: 1 },
+      ]));
+    });
+  });
+
+  describe("AI conversations and usage", () => {
+    it("keeps messages in order and deletes them with the conversation", async () => {
+      const conversation = await storage.createAiConversation({ userId, projectId: null, title: "Question" });
+      await storage.addAiMessage(conversation.id, { role: "user", content: "Hello" });
+      await storage.addAiMessage(conversation.id, { role: "assistant", content: "Hi" });
+
+      expect((await storage.getAiMessages(conversation.id)).map((message) => message.content)).toEqual(["Hello", "Hi"]);
+      expect(await storage.getAiConversationsByUserId(userId, null)).toHaveLength(1);
+
+      expect(await storage.deleteAiConversation(conversation.id)).toBe(true);
+      expect(await storage.getAiMessages(conversation.id)).toEqual([]);
+      expect(await storage.getAiConversation(conversation.id)).toBeUndefined();
+    });
+
+    it("totals a user's usage since a point in time", async () => {
+      const usage = { userId, feature: "chat", provider: "openai", model: "gpt-4o", costMicros: 10, latencyMs: 100 };
+      await storage.createAiUsage({ ...usage, promptTokens: 100, completionTokens: 20 });
+      await storage.createAiUsage({ ...usage, promptTokens: 50, completionTokens: 5 });
+      await storage.createAiUsage({ ...usage, userId: userId + 1, promptTokens: 1000, completionTokens: 0 });
+
+      expect(await storage.getAiUsageTotals(userId, "2000-01-01T00:00:00.000Z")).toEqual({ requests: 2, tokens: 175 });
+      expect(await storage.getAiUsageTotals(userId, "2999-01-01T00:00:00.000Z")).toEqual({ requests: 0, tokens: 0 });
+      expect(await storage.getAiUsageByUserId(userId, "2000-01-01T00:00:00.000Z")).toHaveLength(2);
+    });
+  });
+});
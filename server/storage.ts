@@ -1,18 +1,96 @@
 import { 
   users, projects, files, deployments, 
-  codeSnippets, gitRepositories, 
-  collaborationSessions, cicdPipelines 
+  codeSnippets, codeSnippetViews, codeSnippetRevisions, codeSnippetSearch, codeSnippetFeedback, gitRepositories, 
+  collaborationSessions, cicdPipelines, aiConversations, aiMessages, aiUsage 
 } from "@shared/schema";
+import { and, arrayContains, asc, count, desc, eq, gt, gte, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { getDb, getPool, type Database } from "./db";
+import { hashPassword } from "./password";
 import type { 
   User, InsertUser, Project, InsertProject, 
   File, InsertFile, Deployment, InsertDeployment,
-  CodeSnippet, InsertCodeSnippet, GitRepository, InsertGitRepository,
+  CodeSnippet, InsertCodeSnippet, CodeSnippetRevision, CodeSnippetFeedback, GitRepository, InsertGitRepository,
   CollaborationSession, InsertCollaborationSession,
-  CicdPipeline, InsertCicdPipeline
+  CicdPipeline, InsertCicdPipeline,
+  AiConversation, InsertAiConversation, AiMessage, AiUsage, InsertAiUsage
 } from "@shared/schema";
+import {
+  buildSearchDocument, parseSearchQuery, SEARCH_WEIGHT_SCORES,
+  type SearchFacet, type SearchWeight, type SnippetSearchParams, type SnippetSearchResult
+} from "@shared/snippet-search";
+import { baseNameOf } from "@shared/file-tree";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Rows per statement when inserting many files at once
+const FILE_INSERT_BATCH_SIZE = 500;
+
+// Whether a file path is the given path or lies inside it
+const isAtOrBelow = (filePath: string, path: string) => filePath === path || filePath.startsWith(`${path}/`);
+
+// SQL condition for isAtOrBelow
+const fileAtOrBelow = (path: string): SQL | undefined =>
+  or(eq(files.path, path), sql`starts_with(${files.path}, ${`${path}/`})`);
+
+// The parts of a snippet that are versioned in its revision history
+const toRevisionContent = (snippet: CodeSnippet) => ({
+  title: snippet.title,
+  description: snippet.description,
+  code: snippet.code,
+  language: snippet.language,
+});
+
+const revisionContentChanged = (before: CodeSnippet, after: CodeSnippet) => {
+  const a = toRevisionContent(before);
+  const b = toRevisionContent(after);
+  return a.title !== b.title || a.description !== b.description || a.code !== b.code || a.language !== b.language;
+};
+
+// Most tags listed in search facets
+const MAX_TAG_FACETS = 20;
+
+// Count how often each value occurs, most common first
+const countFacet = (values: string[], limit?: number): SearchFacet[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+};
+
+// Query matching every term, the last as a prefix since it may still be being typed, e.g. "fetch & dat:*";
+// or matching any of the terms, e.g. "react | effect"
+const toTsQuery = (terms: string[], mode: "all" | "any") =>
+  sql`to_tsquery('simple', ${mode === "any"
+    ? terms.join(" | ")
+    : terms.map((term, i) => (i === terms.length - 1 ? `${term}:*` : term)).join(" & ")})`;
+
+// Terms a search matches on and whether all of them must match
+const searchTermsOf = (params: SnippetSearchParams): { terms: string[]; mode: "all" | "any" } =>
+  params.anyTerms ? { terms: params.anyTerms, mode: "any" } : { terms: parseSearchQuery(params.query ?? ""), mode: "all" };
+
+// Weighted tsvector for a snippet, built from the same terms the in-memory index uses
+const toSearchVector = (snippet: CodeSnippet): SQL => {
+  const document = buildSearchDocument(snippet);
+  return sql.join(
+    (Object.keys(document) as SearchWeight[]).map((weight) =>
+      sql`setweight(to_tsvector('simple', ${document[weight].join(" ")}), ${weight})`
+    ),
+    sql` || `
+  );
+};
 
 // Interface for all storage operations
 export interface IStorage {
+  // Backing store for express-session
+  sessionStore: session.Store;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -22,7 +100,10 @@ export interface IStorage {
   getProject(id: number): Promise<Project | undefined>;
   getProjectsByUserId(userId: number): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
+  // Create a project together with its files in one step, so a failure leaves nothing behind
+  createProjectWithFiles(project: InsertProject, files: Omit<InsertFile, "projectId">[]): Promise<Project>;
   updateProject(id: number, project: Partial<Project>): Promise<Project | undefined>;
+  // Delete a project together with its files in one step
   deleteProject(id: number): Promise<boolean>;
   
   // File operations
@@ -31,6 +112,11 @@ export interface IStorage {
   createFile(file: InsertFile): Promise<File>;
   updateFile(id: number, file: Partial<File>): Promise<File | undefined>;
   deleteFile(id: number): Promise<boolean>;
+  // Move the entry at a path and everything below it to a new path in one step, creating the
+  // given folders along with it; returns the moved rows
+  moveFiles(projectId: number, fromPath: string, toPath: string, newFolders: InsertFile[]): Promise<File[]>;
+  // Delete the entry at a path and everything below it in one step, returning how many rows went
+  deleteFiles(projectId: number, path: string): Promise<number>;
   
   // Deployment operations
   getDeployment(id: number): Promise<Deployment | undefined>;
@@ -46,7 +132,20 @@ export interface IStorage {
   createCodeSnippet(snippet: InsertCodeSnippet): Promise<CodeSnippet>;
   updateCodeSnippet(id: number, snippet: Partial<CodeSnippet>): Promise<CodeSnippet | undefined>;
   deleteCodeSnippet(id: number): Promise<boolean>;
+  // Returns undefined, counting nothing, once a burn-after-reading snippet has used up its views
   incrementCodeSnippetViews(id: number): Promise<CodeSnippet | undefined>;
+  // Returns false when this viewer was already recorded for the snippet
+  recordCodeSnippetView(snippetId: number, viewerKey: string): Promise<boolean>;
+  // Delete snippets whose expiresAt is at or before now, returning how many were removed
+  deleteExpiredCodeSnippets(now: Date): Promise<number>;
+  // Saved versions of a snippet, oldest first; updates that change its content add one
+  getCodeSnippetRevisions(snippetId: number): Promise<CodeSnippetRevision[]>;
+  // Ranked full-text search over the snippets the viewer may see, with facet counts
+  searchCodeSnippets(params: SnippetSearchParams): Promise<SnippetSearchResult>;
+  // Record a user's thumbs up or down on a snippet, replacing any earlier vote
+  setCodeSnippetFeedback(userId: number, snippetId: number, helpful: boolean): Promise<CodeSnippetFeedback>;
+  // Every user's votes on the given snippets
+  getCodeSnippetFeedback(snippetIds: number[]): Promise<CodeSnippetFeedback[]>;
   
   // Git Repository operations
   getGitRepository(id: number): Promise<GitRepository | undefined>;
@@ -71,38 +170,107 @@ export interface IStorage {
   createCicdPipeline(pipeline: InsertCicdPipeline): Promise<CicdPipeline>;
   updateCicdPipeline(id: number, pipeline: Partial<CicdPipeline>): Promise<CicdPipeline | undefined>;
   deleteCicdPipeline(id: number): Promise<boolean>;
+  
+  // AI conversation operations
+  getAiConversation(id: number): Promise<AiConversation | undefined>;
+  // A user's conversations in a project (or outside any, for null), most recently active first
+  getAiConversationsByUserId(userId: number, projectId: number | null): Promise<AiConversation[]>;
+  createAiConversation(conversation: InsertAiConversation): Promise<AiConversation>;
+  updateAiConversation(id: number, conversation: Partial<AiConversation>): Promise<AiConversation | undefined>;
+  // Deletes the conversation's messages too
+  deleteAiConversation(id: number): Promise<boolean>;
+  // Messages in the order they were added
+  getAiMessages(conversationId: number): Promise<AiMessage[]>;
+  // Append a message and mark the conversation as active now
+  addAiMessage(conversationId: number, message: Pick<AiMessage, "role" | "content">): Promise<AiMessage>;
+  
+  // AI usage operations
+  createAiUsage(usage: InsertAiUsage): Promise<AiUsage>;
+  // A user's AI requests made at or after an ISO timestamp, oldest first
+  getAiUsageByUserId(userId: number, since: string): Promise<AiUsage[]>;
+  // Requests and tokens a user has used since an ISO timestamp, for quota checks
+  getAiUsageTotals(userId: number, since: string): Promise<{ requests: number; tokens: number }>;
 }
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  
   private users: Map<number, User>;
   private projects: Map<number, Project>;
   private files: Map<number, File>;
   private deployments: Map<number, Deployment>;
+  private codeSnippets: Map<number, CodeSnippet>;
+  private codeSnippetViewers: Map<number, Set<string>>;
+  private codeSnippetRevisions: Map<number, CodeSnippetRevision[]>;
+  private codeSnippetFeedback: Map<number, CodeSnippetFeedback>;
+  // Inverted index: term -> snippet id -> weighted score
+  private codeSnippetSearchIndex: Map<string, Map<number, number>>;
+  private codeSnippetSearchTerms: Map<number, string[]>;
+  private gitRepositories: Map<number, GitRepository>;
+  private collaborationSessions: Map<number, CollaborationSession>;
+  private cicdPipelines: Map<number, CicdPipeline>;
+  private aiConversations: Map<number, AiConversation>;
+  private aiMessages: Map<number, AiMessage[]>;
+  private aiUsage: AiUsage[];
   
   private userIdCounter: number;
   private projectIdCounter: number;
   private fileIdCounter: number;
   private deploymentIdCounter: number;
+  private codeSnippetIdCounter: number;
+  private codeSnippetRevisionIdCounter: number;
+  private codeSnippetFeedbackIdCounter: number;
+  private gitRepositoryIdCounter: number;
+  private collaborationSessionIdCounter: number;
+  private cicdPipelineIdCounter: number;
+  private aiConversationIdCounter: number;
+  private aiMessageIdCounter: number;
+  private aiUsageIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.projects = new Map();
     this.files = new Map();
     this.deployments = new Map();
+    this.codeSnippets = new Map();
+    this.codeSnippetViewers = new Map();
+    this.codeSnippetRevisions = new Map();
+    this.codeSnippetFeedback = new Map();
+    this.codeSnippetSearchIndex = new Map();
+    this.codeSnippetSearchTerms = new Map();
+    this.gitRepositories = new Map();
+    this.collaborationSessions = new Map();
+    this.cicdPipelines = new Map();
+    this.aiConversations = new Map();
+    this.aiMessages = new Map();
+    this.aiUsage = [];
     
     this.userIdCounter = 1;
     this.projectIdCounter = 1;
     this.fileIdCounter = 1;
     this.deploymentIdCounter = 1;
+    this.codeSnippetIdCounter = 1;
+    this.codeSnippetRevisionIdCounter = 1;
+    this.codeSnippetFeedbackIdCounter = 1;
+    this.gitRepositoryIdCounter = 1;
+    this.collaborationSessionIdCounter = 1;
+    this.cicdPipelineIdCounter = 1;
+    this.aiConversationIdCounter = 1;
+    this.aiMessageIdCounter = 1;
+    this.aiUsageIdCounter = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // prune expired sessions every 24h
+    });
     
     // Add a demo user
-    this.createUser({
+    hashPassword("password").then((password) => this.createUser({
       username: "demo",
-      password: "password",
+      password,
       email: "demo@example.com",
       fullName: "Demo User"
-    });
+    }));
   }
 
   // User methods
@@ -157,6 +325,14 @@ export class MemStorage implements IStorage {
     return project;
   }
 
+  async createProjectWithFiles(insertProject: InsertProject, projectFiles: Omit<InsertFile, "projectId">[]): Promise<Project> {
+    const project = await this.createProject(insertProject);
+    for (const file of projectFiles) {
+      await this.createFile({ ...file, projectId: project.id });
+    }
+    return project;
+  }
+
   async updateProject(id: number, projectUpdate: Partial<Project>): Promise<Project | undefined> {
     const project = this.projects.get(id);
     
@@ -174,6 +350,9 @@ export class MemStorage implements IStorage {
   }
 
   async deleteProject(id: number): Promise<boolean> {
+    Array.from(this.files.values())
+      .filter((file) => file.projectId === id)
+      .forEach((file) => this.files.delete(file.id));
     return this.projects.delete(id);
   }
 
@@ -224,6 +403,34 @@ export class MemStorage implements IStorage {
     return this.files.delete(id);
   }
 
+  async moveFiles(projectId: number, fromPath: string, toPath: string, newFolders: InsertFile[]): Promise<File[]> {
+    const moved = Array.from(this.files.values())
+      .filter((file) => file.projectId === projectId && isAtOrBelow(file.path, fromPath));
+    
+    for (const folder of newFolders) {
+      await this.createFile(folder);
+    }
+    
+    const now = new Date().toISOString();
+    return moved.map((file) => {
+      const updatedFile: File = {
+        ...file,
+        path: toPath + file.path.slice(fromPath.length),
+        name: file.path === fromPath ? baseNameOf(toPath) : file.name,
+        updatedAt: now
+      };
+      this.files.set(file.id, updatedFile);
+      return updatedFile;
+    });
+  }
+
+  async deleteFiles(projectId: number, path: string): Promise<number> {
+    const deleted = Array.from(this.files.values())
+      .filter((file) => file.projectId === projectId && isAtOrBelow(file.path, path));
+    deleted.forEach((file) => this.files.delete(file.id));
+    return deleted.length;
+  }
+
   // Deployment methods
   async getDeployment(id: number): Promise<Deployment | undefined> {
     return this.deployments.get(id);
@@ -277,7 +484,1093 @@ export class MemStorage implements IStorage {
     this.deployments.set(id, updatedDeployment);
     return updatedDeployment;
   }
+
+  // Code Snippet methods
+  async getCodeSnippet(id: number): Promise<CodeSnippet | undefined> {
+    return this.codeSnippets.get(id);
+  }
+
+  async getCodeSnippetByVanityUrl(vanityUrl: string): Promise<CodeSnippet | undefined> {
+    return Array.from(this.codeSnippets.values()).find(
+      (snippet) => snippet.vanityUrl === vanityUrl
+    );
+  }
+
+  async getCodeSnippetsByUserId(userId: number): Promise<CodeSnippet[]> {
+    return Array.from(this.codeSnippets.values()).filter(
+      (snippet) => snippet.userId === userId
+    );
+  }
+
+  async createCodeSnippet(insertSnippet: InsertCodeSnippet): Promise<CodeSnippet> {
+    const id = this.codeSnippetIdCounter++;
+    const now = new Date().toISOString();
+    
+    const snippet: CodeSnippet = {
+      ...insertSnippet,
+      id,
+      description: insertSnippet.description ?? null,
+      vanityUrl: insertSnippet.vanityUrl ?? null,
+      views: 0,
+      complexity: insertSnippet.complexity ?? 1,
+      mood: insertSnippet.mood ?? "neutral",
+      isPublic: insertSnippet.isPublic ?? true,
+      expiresAt: insertSnippet.expiresAt ?? null,
+      maxViews: insertSnippet.maxViews ?? null,
+      forkedFromId: insertSnippet.forkedFromId ?? null,
+      tags: insertSnippet.tags ?? [],
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.codeSnippets.set(id, snippet);
+    this.addCodeSnippetRevision(snippet);
+    this.indexCodeSnippet(snippet);
+    return snippet;
+  }
+
+  async updateCodeSnippet(id: number, snippetUpdate: Partial<CodeSnippet>): Promise<CodeSnippet | undefined> {
+    const snippet = this.codeSnippets.get(id);
+    
+    if (!snippet) return undefined;
+    
+    const updatedSnippet: CodeSnippet = {
+      ...snippet,
+      ...snippetUpdate,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    
+    if (revisionContentChanged(snippet, updatedSnippet)) {
+      // Snippets shared before revisions were kept start their history here
+      if (!this.codeSnippetRevisions.has(id)) {
+        this.addCodeSnippetRevision(snippet);
+      }
+      this.addCodeSnippetRevision(updatedSnippet);
+    }
+    
+    this.codeSnippets.set(id, updatedSnippet);
+    this.indexCodeSnippet(updatedSnippet);
+    return updatedSnippet;
+  }
+
+  async deleteCodeSnippet(id: number): Promise<boolean> {
+    this.codeSnippetViewers.delete(id);
+    this.codeSnippetRevisions.delete(id);
+    this.unindexCodeSnippet(id);
+    this.deleteCodeSnippetFeedback([id]);
+    return this.codeSnippets.delete(id);
+  }
+
+  async incrementCodeSnippetViews(id: number): Promise<CodeSnippet | undefined> {
+    const snippet = this.codeSnippets.get(id);
+    
+    if (!snippet || (snippet.maxViews && (snippet.views ?? 0) >= snippet.maxViews)) return undefined;
+    
+    // Viewing a snippet is not an edit, so updatedAt is left alone
+    const updatedSnippet: CodeSnippet = {
+      ...snippet,
+      views: (snippet.views ?? 0) + 1
+    };
+    
+    this.codeSnippets.set(id, updatedSnippet);
+    return updatedSnippet;
+  }
+
+  async recordCodeSnippetView(snippetId: number, viewerKey: string): Promise<boolean> {
+    let viewers = this.codeSnippetViewers.get(snippetId);
+    if (!viewers) {
+      viewers = new Set();
+      this.codeSnippetViewers.set(snippetId, viewers);
+    }
+    
+    if (viewers.has(viewerKey)) return false;
+    
+    viewers.add(viewerKey);
+    return true;
+  }
+
+  async deleteExpiredCodeSnippets(now: Date): Promise<number> {
+    const expired = Array.from(this.codeSnippets.values()).filter(
+      (snippet) => snippet.expiresAt && snippet.expiresAt.getTime() <= now.getTime()
+    );
+    
+    expired.forEach((snippet) => {
+      this.codeSnippets.delete(snippet.id);
+      this.codeSnippetViewers.delete(snippet.id);
+      this.codeSnippetRevisions.delete(snippet.id);
+      this.unindexCodeSnippet(snippet.id);
+    });
+    this.deleteCodeSnippetFeedback(expired.map((snippet) => snippet.id));
+    
+    return expired.length;
+  }
+
+  async getCodeSnippetRevisions(snippetId: number): Promise<CodeSnippetRevision[]> {
+    return [...(this.codeSnippetRevisions.get(snippetId) ?? [])];
+  }
+
+  async searchCodeSnippets(params: SnippetSearchParams): Promise<SnippetSearchResult> {
+    const now = params.now ?? new Date();
+    const tags = params.tags ?? [];
+    const { terms, mode } = searchTermsOf(params);
+    const scores = this.scoreCodeSnippetSearch(terms, mode);
+    
+    const matches = Array.from(this.codeSnippets.values()).filter((snippet) => {
+      const isViewer = snippet.userId === params.viewerId;
+      return (snippet.isPublic || isViewer) &&
+        !(snippet.expiresAt && snippet.expiresAt.getTime() <= now.getTime()) &&
+        (!snippet.maxViews || isViewer) &&
+        (!scores || scores.has(snippet.id)) &&
+        tags.every((tag) => snippet.tags.includes(tag));
+    });
+    
+    const inLanguage = (snippet: CodeSnippet) => !params.language || snippet.language === params.language;
+    const inMood = (snippet: CodeSnippet) => !params.mood || snippet.mood === params.mood;
+    const scoreOf = (snippet: CodeSnippet) => scores?.get(snippet.id) ?? 0;
+    
+    const filtered = matches
+      .filter((snippet) => inLanguage(snippet) && inMood(snippet))
+      .sort((a, b) => scoreOf(b) - scoreOf(a) || (b.views ?? 0) - (a.views ?? 0) || b.id - a.id);
+    const start = (params.page - 1) * params.pageSize;
+    
+    return {
+      results: filtered.slice(start, start + params.pageSize).map((snippet) => ({ ...snippet, score: scoreOf(snippet) })),
+      total: filtered.length,
+      page: params.page,
+      pageSize: params.pageSize,
+      facets: {
+        languages: countFacet(matches.filter(inMood).map((snippet) => snippet.language)),
+        moods: countFacet(matches.filter(inLanguage).map((snippet) => snippet.mood ?? "neutral")),
+        tags: countFacet(filtered.flatMap((snippet) => snippet.tags), MAX_TAG_FACETS),
+      },
+    };
+  }
+
+  // Relevance of each snippet matching every term (or any, in "any" mode), or undefined when there are no terms
+  private scoreCodeSnippetSearch(terms: string[], mode: "all" | "any"): Map<number, number> | undefined {
+    return terms.reduce<Map<number, number> | undefined>((scores, term, i) => {
+      // The last term may still be being typed, so it matches as a prefix
+      const keys = mode === "all" && i === terms.length - 1
+        ? Array.from(this.codeSnippetSearchIndex.keys()).filter((key) => key.startsWith(term))
+        : [term];
+      
+      const termScores = new Map<number, number>();
+      keys.forEach((key) => {
+        this.codeSnippetSearchIndex.get(key)?.forEach((score, id) => {
+          termScores.set(id, Math.max(termScores.get(id) ?? 0, score));
+        });
+      });
+      
+      const combined = new Map<number, number>(mode === "any" && scores ? Array.from(scores.entries()) : []);
+      termScores.forEach((score, id) => {
+        if (!scores || mode === "any") {
+          combined.set(id, (combined.get(id) ?? 0) + score);
+        } else if (scores.has(id)) {
+          combined.set(id, scores.get(id)! + score);
+        }
+      });
+      return combined;
+    }, undefined);
+  }
+
+  async setCodeSnippetFeedback(userId: number, snippetId: number, helpful: boolean): Promise<CodeSnippetFeedback> {
+    const now = new Date().toISOString();
+    const existing = Array.from(this.codeSnippetFeedback.values()).find(
+      (feedback) => feedback.userId === userId && feedback.snippetId === snippetId
+    );
+    
+    const feedback: CodeSnippetFeedback = existing
+      ? { ...existing, helpful, updatedAt: now }
+      : { id: this.codeSnippetFeedbackIdCounter++, userId, snippetId, helpful, createdAt: now, updatedAt: now };
+    
+    this.codeSnippetFeedback.set(feedback.id, feedback);
+    return feedback;
+  }
+
+  async getCodeSnippetFeedback(snippetIds: number[]): Promise<CodeSnippetFeedback[]> {
+    return Array.from(this.codeSnippetFeedback.values()).filter(
+      (feedback) => snippetIds.includes(feedback.snippetId)
+    );
+  }
+
+  private deleteCodeSnippetFeedback(snippetIds: number[]): void {
+    Array.from(this.codeSnippetFeedback.values()).forEach((feedback) => {
+      if (snippetIds.includes(feedback.snippetId)) {
+        this.codeSnippetFeedback.delete(feedback.id);
+      }
+    });
+  }
+
+  private indexCodeSnippet(snippet: CodeSnippet): void {
+    this.unindexCodeSnippet(snippet.id);
+    
+    // Repeated terms count for less and less, so long code does not drown out the title
+    const scores = new Map<string, number>();
+    const document = buildSearchDocument(snippet);
+    (Object.keys(document) as SearchWeight[]).forEach((weight) => {
+      const counts = new Map<string, number>();
+      document[weight].forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+      counts.forEach((termCount, term) => {
+        scores.set(term, (scores.get(term) ?? 0) + SEARCH_WEIGHT_SCORES[weight] * (1 + Math.log(termCount)));
+      });
+    });
+    
+    scores.forEach((score, term) => {
+      let postings = this.codeSnippetSearchIndex.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.codeSnippetSearchIndex.set(term, postings);
+      }
+      postings.set(snippet.id, score);
+    });
+    this.codeSnippetSearchTerms.set(snippet.id, Array.from(scores.keys()));
+  }
+
+  private unindexCodeSnippet(id: number): void {
+    this.codeSnippetSearchTerms.get(id)?.forEach((term) => {
+      const postings = this.codeSnippetSearchIndex.get(term);
+      postings?.delete(id);
+      if (postings?.size === 0) {
+        this.codeSnippetSearchIndex.delete(term);
+      }
+    });
+    this.codeSnippetSearchTerms.delete(id);
+  }
+
+  private addCodeSnippetRevision(snippet: CodeSnippet): CodeSnippetRevision {
+    const revisions = this.codeSnippetRevisions.get(snippet.id) ?? [];
+    const revision: CodeSnippetRevision = {
+      ...toRevisionContent(snippet),
+      id: this.codeSnippetRevisionIdCounter++,
+      snippetId: snippet.id,
+      revision: revisions.length + 1,
+      createdAt: snippet.updatedAt,
+    };
+    
+    revisions.push(revision);
+    this.codeSnippetRevisions.set(snippet.id, revisions);
+    return revision;
+  }
+
+  // Git Repository methods
+  async getGitRepository(id: number): Promise<GitRepository | undefined> {
+    return this.gitRepositories.get(id);
+  }
+
+  async getGitRepositoriesByProjectId(projectId: number): Promise<GitRepository[]> {
+    return Array.from(this.gitRepositories.values()).filter(
+      (repo) => repo.projectId === projectId
+    );
+  }
+
+  async getGitRepositoriesByUserId(userId: number): Promise<GitRepository[]> {
+    return Array.from(this.gitRepositories.values()).filter(
+      (repo) => repo.userId === userId
+    );
+  }
+
+  async createGitRepository(insertRepo: InsertGitRepository): Promise<GitRepository> {
+    const id = this.gitRepositoryIdCounter++;
+    const now = new Date().toISOString();
+    
+    const repo: GitRepository = {
+      ...insertRepo,
+      id,
+      branch: insertRepo.branch ?? "main",
+      lastSynced: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.gitRepositories.set(id, repo);
+    return repo;
+  }
+
+  async updateGitRepository(id: number, repoUpdate: Partial<GitRepository>): Promise<GitRepository | undefined> {
+    const repo = this.gitRepositories.get(id);
+    
+    if (!repo) return undefined;
+    
+    const updatedRepo: GitRepository = {
+      ...repo,
+      ...repoUpdate,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    
+    this.gitRepositories.set(id, updatedRepo);
+    return updatedRepo;
+  }
+
+  async deleteGitRepository(id: number): Promise<boolean> {
+    return this.gitRepositories.delete(id);
+  }
+
+  // Collaboration Session methods
+  async getCollaborationSession(id: number): Promise<CollaborationSession | undefined> {
+    return this.collaborationSessions.get(id);
+  }
+
+  async getCollaborationSessionByKey(sessionKey: string): Promise<CollaborationSession | undefined> {
+    return Array.from(this.collaborationSessions.values()).find(
+      (session) => session.sessionKey === sessionKey
+    );
+  }
+
+  async getCollaborationSessionsByUserId(userId: number): Promise<CollaborationSession[]> {
+    return Array.from(this.collaborationSessions.values()).filter(
+      (session) => session.hostUserId === userId
+    );
+  }
+
+  async createCollaborationSession(insertSession: InsertCollaborationSession): Promise<CollaborationSession> {
+    const id = this.collaborationSessionIdCounter++;
+    const now = new Date().toISOString();
+    
+    const session: CollaborationSession = {
+      ...insertSession,
+      id,
+      status: insertSession.status ?? "active",
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.collaborationSessions.set(id, session);
+    return session;
+  }
+
+  async updateCollaborationSession(id: number, sessionUpdate: Partial<CollaborationSession>): Promise<CollaborationSession | undefined> {
+    const session = this.collaborationSessions.get(id);
+    
+    if (!session) return undefined;
+    
+    const updatedSession: CollaborationSession = {
+      ...session,
+      ...sessionUpdate,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    
+    this.collaborationSessions.set(id, updatedSession);
+    return updatedSession;
+  }
+
+  async deleteCollaborationSession(id: number): Promise<boolean> {
+    return this.collaborationSessions.delete(id);
+  }
+
+  // CI/CD Pipeline methods
+  async getCicdPipeline(id: number): Promise<CicdPipeline | undefined> {
+    return this.cicdPipelines.get(id);
+  }
+
+  async getCicdPipelinesByProjectId(projectId: number): Promise<CicdPipeline[]> {
+    return Array.from(this.cicdPipelines.values()).filter(
+      (pipeline) => pipeline.projectId === projectId
+    );
+  }
+
+  async getCicdPipelinesByUserId(userId: number): Promise<CicdPipeline[]> {
+    return Array.from(this.cicdPipelines.values()).filter(
+      (pipeline) => pipeline.userId === userId
+    );
+  }
+
+  async createCicdPipeline(insertPipeline: InsertCicdPipeline): Promise<CicdPipeline> {
+    const id = this.cicdPipelineIdCounter++;
+    const now = new Date().toISOString();
+    
+    const pipeline: CicdPipeline = {
+      ...insertPipeline,
+      id,
+      provider: insertPipeline.provider ?? "azure_devops",
+      status: insertPipeline.status ?? "inactive",
+      configuration: insertPipeline.configuration ?? null,
+      lastRun: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.cicdPipelines.set(id, pipeline);
+    return pipeline;
+  }
+
+  async updateCicdPipeline(id: number, pipelineUpdate: Partial<CicdPipeline>): Promise<CicdPipeline | undefined> {
+    const pipeline = this.cicdPipelines.get(id);
+    
+    if (!pipeline) return undefined;
+    
+    const updatedPipeline: CicdPipeline = {
+      ...pipeline,
+      ...pipelineUpdate,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    
+    this.cicdPipelines.set(id, updatedPipeline);
+    return updatedPipeline;
+  }
+
+  async deleteCicdPipeline(id: number): Promise<boolean> {
+    return this.cicdPipelines.delete(id);
+  }
+
+  // AI conversation methods
+  async getAiConversation(id: number): Promise<AiConversation | undefined> {
+    return this.aiConversations.get(id);
+  }
+
+  async getAiConversationsByUserId(userId: number, projectId: number | null): Promise<AiConversation[]> {
+    return Array.from(this.aiConversations.values())
+      .filter((conversation) => conversation.userId === userId && conversation.projectId === projectId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || b.id - a.id);
+  }
+
+  async createAiConversation(insertConversation: InsertAiConversation): Promise<AiConversation> {
+    const id = this.aiConversationIdCounter++;
+    const now = new Date().toISOString();
+    
+    const conversation: AiConversation = {
+      ...insertConversation,
+      id,
+      projectId: insertConversation.projectId ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.aiConversations.set(id, conversation);
+    this.aiMessages.set(id, []);
+    return conversation;
+  }
+
+  async updateAiConversation(id: number, conversationUpdate: Partial<AiConversation>): Promise<AiConversation | undefined> {
+    const conversation = this.aiConversations.get(id);
+    
+    if (!conversation) return undefined;
+    
+    const updatedConversation: AiConversation = {
+      ...conversation,
+      ...conversationUpdate,
+      id,
+      updatedAt: new Date().toISOString()
+    };
+    
+    this.aiConversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async deleteAiConversation(id: number): Promise<boolean> {
+    this.aiMessages.delete(id);
+    return this.aiConversations.delete(id);
+  }
+
+  async getAiMessages(conversationId: number): Promise<AiMessage[]> {
+    return [...(this.aiMessages.get(conversationId) ?? [])];
+  }
+
+  async addAiMessage(conversationId: number, insertMessage: Pick<AiMessage, "role" | "content">): Promise<AiMessage> {
+    const now = new Date().toISOString();
+    const message: AiMessage = { ...insertMessage, id: this.aiMessageIdCounter++, conversationId, createdAt: now };
+    
+    this.aiMessages.set(conversationId, [...(this.aiMessages.get(conversationId) ?? []), message]);
+    const conversation = this.aiConversations.get(conversationId);
+    if (conversation) {
+      this.aiConversations.set(conversationId, { ...conversation, updatedAt: now });
+    }
+    return message;
+  }
+
+  // AI usage methods
+  async createAiUsage(insertUsage: InsertAiUsage): Promise<AiUsage> {
+    const usage: AiUsage = { ...insertUsage, id: this.aiUsageIdCounter++, createdAt: new Date().toISOString() };
+    this.aiUsage.push(usage);
+    return usage;
+  }
+
+  async getAiUsageByUserId(userId: number, since: string): Promise<AiUsage[]> {
+    return this.aiUsage.filter((usage) => usage.userId === userId && usage.createdAt >= since);
+  }
+
+  async getAiUsageTotals(userId: number, since: string): Promise<{ requests: number; tokens: number }> {
+    const usage = await this.getAiUsageByUserId(userId, since);
+    return {
+      requests: usage.length,
+      tokens: usage.reduce((total, u) => total + u.promptTokens + u.completionTokens, 0),
+    };
+  }
+}
+
+// PostgreSQL storage implementation backed by the Drizzle schema
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+  
+  constructor(private db: Database = getDb(), sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? new PostgresSessionStore({
+      pool: getPool(),
+      createTableIfMissing: true
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Project methods
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByUserId(userId: number): Promise<Project[]> {
+    return this.db.select().from(projects).where(eq(projects.userId, userId)).orderBy(asc(projects.id));
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const now = new Date().toISOString();
+    const [project] = await this.db.insert(projects)
+      .values({ ...insertProject, createdAt: now, updatedAt: now })
+      .returning();
+    return project;
+  }
+
+  async createProjectWithFiles(insertProject: InsertProject, projectFiles: Omit<InsertFile, "projectId">[]): Promise<Project> {
+    const now = new Date().toISOString();
+    return this.db.transaction(async (tx) => {
+      const [project] = await tx.insert(projects)
+        .values({ ...insertProject, createdAt: now, updatedAt: now })
+        .returning();
+      
+      // Batched to keep each statement's parameters within limits
+      for (let i = 0; i < projectFiles.length; i += FILE_INSERT_BATCH_SIZE) {
+        await tx.insert(files).values(projectFiles.slice(i, i + FILE_INSERT_BATCH_SIZE)
+          .map((file) => ({ ...file, projectId: project.id, createdAt: now, updatedAt: now })));
+      }
+      
+      return project;
+    });
+  }
+
+  async updateProject(id: number, projectUpdate: Partial<Project>): Promise<Project | undefined> {
+    const { id: _id, ...changes } = projectUpdate;
+    const [project] = await this.db.update(projects)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(files).where(eq(files.projectId, id));
+      const deleted = await tx.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // File methods
+  async getFile(id: number): Promise<File | undefined> {
+    const [file] = await this.db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  async getFilesByProjectId(projectId: number): Promise<File[]> {
+    return this.db.select().from(files).where(eq(files.projectId, projectId)).orderBy(asc(files.id));
+  }
+
+  async createFile(insertFile: InsertFile): Promise<File> {
+    const now = new Date().toISOString();
+    const [file] = await this.db.insert(files)
+      .values({ ...insertFile, createdAt: now, updatedAt: now })
+      .returning();
+    return file;
+  }
+
+  async updateFile(id: number, fileUpdate: Partial<File>): Promise<File | undefined> {
+    const { id: _id, ...changes } = fileUpdate;
+    const [file] = await this.db.update(files)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async deleteFile(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(files).where(eq(files.id, id)).returning({ id: files.id });
+    return deleted.length > 0;
+  }
+
+  async moveFiles(projectId: number, fromPath: string, toPath: string, newFolders: InsertFile[]): Promise<File[]> {
+    const now = new Date().toISOString();
+    return this.db.transaction(async (tx) => {
+      if (newFolders.length > 0) {
+        await tx.insert(files).values(newFolders.map((folder) => ({ ...folder, createdAt: now, updatedAt: now })));
+      }
+      
+      return tx.update(files)
+        .set({
+          path: sql`${toPath} || substr(${files.path}, char_length(${fromPath}) + 1)`,
+          name: sql`case when ${files.path} = ${fromPath} then ${baseNameOf(toPath)} else ${files.name} end`,
+          updatedAt: now,
+        })
+        .where(and(eq(files.projectId, projectId), fileAtOrBelow(fromPath)))
+        .returning();
+    });
+  }
+
+  async deleteFiles(projectId: number, path: string): Promise<number> {
+    const deleted = await this.db.delete(files)
+      .where(and(eq(files.projectId, projectId), fileAtOrBelow(path)))
+      .returning({ id: files.id });
+    return deleted.length;
+  }
+
+  // Deployment methods
+  async getDeployment(id: number): Promise<Deployment | undefined> {
+    const [deployment] = await this.db.select().from(deployments).where(eq(deployments.id, id));
+    return deployment;
+  }
+
+  async getDeploymentsByProjectId(projectId: number): Promise<Deployment[]> {
+    return this.db.select().from(deployments).where(eq(deployments.projectId, projectId)).orderBy(asc(deployments.id));
+  }
+
+  async getDeploymentsByUserId(userId: number): Promise<Deployment[]> {
+    return this.db.select().from(deployments).where(eq(deployments.userId, userId)).orderBy(asc(deployments.id));
+  }
+
+  async createDeployment(insertDeployment: InsertDeployment): Promise<Deployment> {
+    const now = new Date().toISOString();
+    const [deployment] = await this.db.insert(deployments)
+      .values({ ...insertDeployment, deploymentDetails: {}, createdAt: now, updatedAt: now })
+      .returning();
+    return deployment;
+  }
+
+  async updateDeployment(id: number, deploymentUpdate: Partial<Deployment>): Promise<Deployment | undefined> {
+    const { id: _id, ...changes } = deploymentUpdate;
+    const [deployment] = await this.db.update(deployments)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(deployments.id, id))
+      .returning();
+    return deployment;
+  }
+
+  // Code Snippet methods
+  async getCodeSnippet(id: number): Promise<CodeSnippet | undefined> {
+    const [snippet] = await this.db.select().from(codeSnippets).where(eq(codeSnippets.id, id));
+    return snippet;
+  }
+
+  async getCodeSnippetByVanityUrl(vanityUrl: string): Promise<CodeSnippet | undefined> {
+    const [snippet] = await this.db.select().from(codeSnippets).where(eq(codeSnippets.vanityUrl, vanityUrl));
+    return snippet;
+  }
+
+  async getCodeSnippetsByUserId(userId: number): Promise<CodeSnippet[]> {
+    return this.db.select().from(codeSnippets).where(eq(codeSnippets.userId, userId)).orderBy(asc(codeSnippets.id));
+  }
+
+  async createCodeSnippet(insertSnippet: InsertCodeSnippet): Promise<CodeSnippet> {
+    const now = new Date().toISOString();
+    return this.db.transaction(async (tx) => {
+      const [snippet] = await tx.insert(codeSnippets)
+        .values({ ...insertSnippet, createdAt: now, updatedAt: now })
+        .returning();
+      await tx.insert(codeSnippetRevisions)
+        .values({ ...toRevisionContent(snippet), snippetId: snippet.id, revision: 1, createdAt: now });
+      await tx.insert(codeSnippetSearch).values({ snippetId: snippet.id, document: toSearchVector(snippet) });
+      return snippet;
+    });
+  }
+
+  async updateCodeSnippet(id: number, snippetUpdate: Partial<CodeSnippet>): Promise<CodeSnippet | undefined> {
+    const { id: _id, ...changes } = snippetUpdate;
+    
+    return this.db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(codeSnippets).where(eq(codeSnippets.id, id)).for("update");
+      if (!previous) return undefined;
+      
+      const [snippet] = await tx.update(codeSnippets)
+        .set({ ...changes, updatedAt: new Date().toISOString() })
+        .where(eq(codeSnippets.id, id))
+        .returning();
+      
+      if (revisionContentChanged(previous, snippet)) {
+        const [latest] = await tx.select({ revision: codeSnippetRevisions.revision })
+          .from(codeSnippetRevisions)
+          .where(eq(codeSnippetRevisions.snippetId, id))
+          .orderBy(desc(codeSnippetRevisions.revision))
+          .limit(1);
+        
+        // Snippets shared before revisions were kept start their history here
+        let revision = latest?.revision ?? 0;
+        if (!latest) {
+          await tx.insert(codeSnippetRevisions)
+            .values({ ...toRevisionContent(previous), snippetId: id, revision: ++revision, createdAt: previous.updatedAt });
+        }
+        await tx.insert(codeSnippetRevisions)
+          .values({ ...toRevisionContent(snippet), snippetId: id, revision: revision + 1, createdAt: snippet.updatedAt });
+      }
+      
+      await tx.insert(codeSnippetSearch)
+        .values({ snippetId: id, document: toSearchVector(snippet) })
+        .onConflictDoUpdate({ target: codeSnippetSearch.snippetId, set: { document: sql`excluded.document` } });
+      
+      return snippet;
+    });
+  }
+
+  async deleteCodeSnippet(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(codeSnippetViews).where(eq(codeSnippetViews.snippetId, id));
+      await tx.delete(codeSnippetRevisions).where(eq(codeSnippetRevisions.snippetId, id));
+      await tx.delete(codeSnippetSearch).where(eq(codeSnippetSearch.snippetId, id));
+      await tx.delete(codeSnippetFeedback).where(eq(codeSnippetFeedback.snippetId, id));
+      const deleted = await tx.delete(codeSnippets).where(eq(codeSnippets.id, id)).returning({ id: codeSnippets.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async incrementCodeSnippetViews(id: number): Promise<CodeSnippet | undefined> {
+    // Increment in SQL so concurrent viewers are all counted, and never past the view limit
+    const [snippet] = await this.db.update(codeSnippets)
+      .set({ views: sql`coalesce(${codeSnippets.views}, 0) + 1` })
+      .where(and(
+        eq(codeSnippets.id, id),
+        or(isNull(codeSnippets.maxViews), sql`coalesce(${codeSnippets.views}, 0) < ${codeSnippets.maxViews}`)
+      ))
+      .returning();
+    return snippet;
+  }
+
+  async recordCodeSnippetView(snippetId: number, viewerKey: string): Promise<boolean> {
+    // The unique (snippet_id, viewer_key) constraint makes repeat views a no-op
+    const inserted = await this.db.insert(codeSnippetViews)
+      .values({ snippetId, viewerKey, createdAt: new Date().toISOString() })
+      .onConflictDoNothing()
+      .returning({ id: codeSnippetViews.id });
+    return inserted.length > 0;
+  }
+
+  async deleteExpiredCodeSnippets(now: Date): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx.delete(codeSnippets)
+        .where(lte(codeSnippets.expiresAt, now))
+        .returning({ id: codeSnippets.id });
+      
+      if (deleted.length > 0) {
+        const ids = deleted.map((snippet) => snippet.id);
+        await tx.delete(codeSnippetViews).where(inArray(codeSnippetViews.snippetId, ids));
+        await tx.delete(codeSnippetRevisions).where(inArray(codeSnippetRevisions.snippetId, ids));
+        await tx.delete(codeSnippetSearch).where(inArray(codeSnippetSearch.snippetId, ids));
+        await tx.delete(codeSnippetFeedback).where(inArray(codeSnippetFeedback.snippetId, ids));
+      }
+      
+      return deleted.length;
+    });
+  }
+
+  async getCodeSnippetRevisions(snippetId: number): Promise<CodeSnippetRevision[]> {
+    return this.db.select().from(codeSnippetRevisions)
+      .where(eq(codeSnippetRevisions.snippetId, snippetId))
+      .orderBy(asc(codeSnippetRevisions.revision));
+  }
+
+  async searchCodeSnippets(params: SnippetSearchParams): Promise<SnippetSearchResult> {
+    const now = params.now ?? new Date();
+    const { terms, mode } = searchTermsOf(params);
+    const tsQuery = terms.length > 0 ? toTsQuery(terms, mode) : undefined;
+    const isViewer = params.viewerId !== undefined ? eq(codeSnippets.userId, params.viewerId) : sql`false`;
+    
+    const matches = and(
+      or(eq(codeSnippets.isPublic, true), isViewer),
+      or(isNull(codeSnippets.expiresAt), gt(codeSnippets.expiresAt, now)),
+      or(isNull(codeSnippets.maxViews), isViewer),
+      tsQuery ? sql`${codeSnippetSearch.document} @@ ${tsQuery}` : undefined,
+      params.tags?.length ? arrayContains(codeSnippets.tags, params.tags) : undefined,
+    );
+    const inLanguage = params.language ? eq(codeSnippets.language, params.language) : undefined;
+    const inMood = params.mood ? eq(codeSnippets.mood, params.mood) : undefined;
+    const filtered = and(matches, inLanguage, inMood);
+    
+    const score = (tsQuery ? sql`ts_rank(${codeSnippetSearch.document}, ${tsQuery})` : sql`0::real`).mapWith(Number);
+    const mood = sql<string>`coalesce(${codeSnippets.mood}, 'neutral')`;
+    const searchJoin = eq(codeSnippetSearch.snippetId, codeSnippets.id);
+    
+    const snippetTags = this.db.select({ tag: sql<string>`unnest(${codeSnippets.tags})`.as("tag") })
+      .from(codeSnippets)
+      .leftJoin(codeSnippetSearch, searchJoin)
+      .where(filtered)
+      .as("snippet_tags");
+    
+    const [rows, [{ total }], languages, moods, tags] = await Promise.all([
+      this.db.select({ snippet: codeSnippets, score })
+        .from(codeSnippets)
+        .leftJoin(codeSnippetSearch, searchJoin)
+        .where(filtered)
+        .orderBy(desc(score), desc(codeSnippets.views), desc(codeSnippets.id))
+        .limit(params.pageSize)
+        .offset((params.page - 1) * params.pageSize),
+      this.db.select({ total: count() }).from(codeSnippets).leftJoin(codeSnippetSearch, searchJoin).where(filtered),
+      this.db.select({ value: codeSnippets.language, count: count() })
+        .from(codeSnippets)
+        .leftJoin(codeSnippetSearch, searchJoin)
+        .where(and(matches, inMood))
+        .groupBy(codeSnippets.language)
+        .orderBy(desc(count()), asc(codeSnippets.language)),
+      this.db.select({ value: mood, count: count() })
+        .from(codeSnippets)
+        .leftJoin(codeSnippetSearch, searchJoin)
+        .where(and(matches, inLanguage))
+        .groupBy(mood)
+        .orderBy(desc(count()), asc(mood)),
+      this.db.select({ value: snippetTags.tag, count: count() })
+        .from(snippetTags)
+        .groupBy(snippetTags.tag)
+        .orderBy(desc(count()), asc(snippetTags.tag))
+        .limit(MAX_TAG_FACETS),
+    ]);
+    
+    return {
+      results: rows.map(({ snippet, score }) => ({ ...snippet, score })),
+      total,
+      page: params.page,
+      pageSize: params.pageSize,
+      facets: { languages, moods, tags },
+    };
+  }
+
+  async setCodeSnippetFeedback(userId: number, snippetId: number, helpful: boolean): Promise<CodeSnippetFeedback> {
+    const now = new Date().toISOString();
+    const [feedback] = await this.db.insert(codeSnippetFeedback)
+      .values({ userId, snippetId, helpful, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [codeSnippetFeedback.snippetId, codeSnippetFeedback.userId],
+        set: { helpful, updatedAt: now },
+      })
+      .returning();
+    return feedback;
+  }
+
+  async getCodeSnippetFeedback(snippetIds: number[]): Promise<CodeSnippetFeedback[]> {
+    if (snippetIds.length === 0) return [];
+    return this.db.select().from(codeSnippetFeedback).where(inArray(codeSnippetFeedback.snippetId, snippetIds));
+  }
+
+  // Git Repository methods
+  async getGitRepository(id: number): Promise<GitRepository | undefined> {
+    const [repo] = await this.db.select().from(gitRepositories).where(eq(gitRepositories.id, id));
+    return repo;
+  }
+
+  async getGitRepositoriesByProjectId(projectId: number): Promise<GitRepository[]> {
+    return this.db.select().from(gitRepositories).where(eq(gitRepositories.projectId, projectId)).orderBy(asc(gitRepositories.id));
+  }
+
+  async getGitRepositoriesByUserId(userId: number): Promise<GitRepository[]> {
+    return this.db.select().from(gitRepositories).where(eq(gitRepositories.userId, userId)).orderBy(asc(gitRepositories.id));
+  }
+
+  async createGitRepository(insertRepo: InsertGitRepository): Promise<GitRepository> {
+    const now = new Date().toISOString();
+    const [repo] = await this.db.insert(gitRepositories)
+      .values({ ...insertRepo, createdAt: now, updatedAt: now })
+      .returning();
+    return repo;
+  }
+
+  async updateGitRepository(id: number, repoUpdate: Partial<GitRepository>): Promise<GitRepository | undefined> {
+    const { id: _id, ...changes } = repoUpdate;
+    const [repo] = await this.db.update(gitRepositories)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(gitRepositories.id, id))
+      .returning();
+    return repo;
+  }
+
+  async deleteGitRepository(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(gitRepositories).where(eq(gitRepositories.id, id)).returning({ id: gitRepositories.id });
+    return deleted.length > 0;
+  }
+
+  // Collaboration Session methods
+  async getCollaborationSession(id: number): Promise<CollaborationSession | undefined> {
+    const [session] = await this.db.select().from(collaborationSessions).where(eq(collaborationSessions.id, id));
+    return session;
+  }
+
+  async getCollaborationSessionByKey(sessionKey: string): Promise<CollaborationSession | undefined> {
+    const [session] = await this.db.select().from(collaborationSessions).where(eq(collaborationSessions.sessionKey, sessionKey));
+    return session;
+  }
+
+  async getCollaborationSessionsByUserId(userId: number): Promise<CollaborationSession[]> {
+    return this.db.select().from(collaborationSessions).where(eq(collaborationSessions.hostUserId, userId)).orderBy(asc(collaborationSessions.id));
+  }
+
+  async createCollaborationSession(insertSession: InsertCollaborationSession): Promise<CollaborationSession> {
+    const now = new Date().toISOString();
+    const [session] = await this.db.insert(collaborationSessions)
+      .values({ ...insertSession, createdAt: now, updatedAt: now })
+      .returning();
+    return session;
+  }
+
+  async updateCollaborationSession(id: number, sessionUpdate: Partial<CollaborationSession>): Promise<CollaborationSession | undefined> {
+    const { id: _id, ...changes } = sessionUpdate;
+    const [session] = await this.db.update(collaborationSessions)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(collaborationSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteCollaborationSession(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(collaborationSessions).where(eq(collaborationSessions.id, id)).returning({ id: collaborationSessions.id });
+    return deleted.length > 0;
+  }
+
+  // CI/CD Pipeline methods
+  async getCicdPipeline(id: number): Promise<CicdPipeline | undefined> {
+    const [pipeline] = await this.db.select().from(cicdPipelines).where(eq(cicdPipelines.id, id));
+    return pipeline;
+  }
+
+  async getCicdPipelinesByProjectId(projectId: number): Promise<CicdPipeline[]> {
+    return this.db.select().from(cicdPipelines).where(eq(cicdPipelines.projectId, projectId)).orderBy(asc(cicdPipelines.id));
+  }
+
+  async getCicdPipelinesByUserId(userId: number): Promise<CicdPipeline[]> {
+    return this.db.select().from(cicdPipelines).where(eq(cicdPipelines.userId, userId)).orderBy(asc(cicdPipelines.id));
+  }
+
+  async createCicdPipeline(insertPipeline: InsertCicdPipeline): Promise<CicdPipeline> {
+    const now = new Date().toISOString();
+    const [pipeline] = await this.db.insert(cicdPipelines)
+      .values({ ...insertPipeline, createdAt: now, updatedAt: now })
+      .returning();
+    return pipeline;
+  }
+
+  async updateCicdPipeline(id: number, pipelineUpdate: Partial<CicdPipeline>): Promise<CicdPipeline | undefined> {
+    const { id: _id, ...changes } = pipelineUpdate;
+    const [pipeline] = await this.db.update(cicdPipelines)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(cicdPipelines.id, id))
+      .returning();
+    return pipeline;
+  }
+
+  async deleteCicdPipeline(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(cicdPipelines).where(eq(cicdPipelines.id, id)).returning({ id: cicdPipelines.id });
+    return deleted.length > 0;
+  }
+
+  // AI conversation methods
+  async getAiConversation(id: number): Promise<AiConversation | undefined> {
+    const [conversation] = await this.db.select().from(aiConversations).where(eq(aiConversations.id, id));
+    return conversation;
+  }
+
+  async getAiConversationsByUserId(userId: number, projectId: number | null): Promise<AiConversation[]> {
+    return this.db.select().from(aiConversations)
+      .where(and(
+        eq(aiConversations.userId, userId),
+        projectId === null ? isNull(aiConversations.projectId) : eq(aiConversations.projectId, projectId)
+      ))
+      .orderBy(desc(aiConversations.updatedAt), desc(aiConversations.id));
+  }
+
+  async createAiConversation(insertConversation: InsertAiConversation): Promise<AiConversation> {
+    const now = new Date().toISOString();
+    const [conversation] = await this.db.insert(aiConversations)
+      .values({ ...insertConversation, createdAt: now, updatedAt: now })
+      .returning();
+    return conversation;
+  }
+
+  async updateAiConversation(id: number, conversationUpdate: Partial<AiConversation>): Promise<AiConversation | undefined> {
+    const { id: _id, ...changes } = conversationUpdate;
+    const [conversation] = await this.db.update(aiConversations)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(aiConversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteAiConversation(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(aiMessages).where(eq(aiMessages.conversationId, id));
+      const deleted = await tx.delete(aiConversations).where(eq(aiConversations.id, id)).returning({ id: aiConversations.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getAiMessages(conversationId: number): Promise<AiMessage[]> {
+    return this.db.select().from(aiMessages).where(eq(aiMessages.conversationId, conversationId)).orderBy(asc(aiMessages.id));
+  }
+
+  async addAiMessage(conversationId: number, insertMessage: Pick<AiMessage, "role" | "content">): Promise<AiMessage> {
+    const now = new Date().toISOString();
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.insert(aiMessages)
+        .values({ ...insertMessage, conversationId, createdAt: now })
+        .returning();
+      await tx.update(aiConversations).set({ updatedAt: now }).where(eq(aiConversations.id, conversationId));
+      return message;
+    });
+  }
+
+  // AI usage methods
+  async createAiUsage(insertUsage: InsertAiUsage): Promise<AiUsage> {
+    const [usage] = await this.db.insert(aiUsage)
+      .values({ ...insertUsage, createdAt: new Date().toISOString() })
+      .returning();
+    return usage;
+  }
+
+  async getAiUsageByUserId(userId: number, since: string): Promise<AiUsage[]> {
+    return this.db.select().from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)))
+      .orderBy(asc(aiUsage.id));
+  }
+
+  async getAiUsageTotals(userId: number, since: string): Promise<{ requests: number; tokens: number }> {
+    const [totals] = await this.db.select({
+      requests: count(),
+      tokens: sql<number>`coalesce(sum(${aiUsage.promptTokens} + ${aiUsage.completionTokens}), 0)::int`,
+    }).from(aiUsage).where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)));
+    return totals;
+  }
+}
+
+// Pick the storage backend: STORAGE_BACKEND=postgres|memory, defaulting to
+// Postgres whenever a DATABASE_URL has been provisioned
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (backend) {
+    case "postgres":
+      return new DbStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "postgres" or "memory"`);
+  }
 }
 
 // Create and export storage instance
-export const storage = new MemStorage();
+export const storage = createStorage();
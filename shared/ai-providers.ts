@@ -0,0 +1,23 @@
+// AI providers the server can route requests to, and the /api/ai/providers contract
+
+export const AI_PROVIDERS = ["openai", "azure", "local"] as const;
+
+export type AiProviderName = typeof AI_PROVIDERS[number];
+
+// Header naming the provider for a single request, overriding the server default
+export const AI_PROVIDER_HEADER = "X-AI-Provider";
+
+export const isAiProviderName = (name: string): name is AiProviderName =>
+  (AI_PROVIDERS as readonly string[]).includes(name);
+
+export interface AiProviderInfo {
+  name: AiProviderName;
+  label: string;
+  // Whether the server has the credentials this provider needs
+  configured: boolean;
+}
+
+export interface AiProvidersResponse {
+  default: AiProviderName;
+  providers: AiProviderInfo[];
+}
@@ -0,0 +1,56 @@
+// Features AI usage is metered by, and the /api/ai/usage contract
+
+export const AI_FEATURES = ["chat", "completion", "generation", "debug", "explain", "tests", "refactoring"] as const;
+
+export type AiFeature = typeof AI_FEATURES[number];
+
+// Header naming the feature a request is made for, when its route serves several
+export const AI_FEATURE_HEADER = "X-AI-Feature";
+
+export const isAiFeature = (name: string): name is AiFeature =>
+  (AI_FEATURES as readonly string[]).includes(name);
+
+export interface AiUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated from the model's list price
+  costUsd: number;
+}
+
+export interface AiFeatureUsage extends AiUsageTotals {
+  feature: AiFeature;
+  averageLatencyMs: number;
+}
+
+export interface AiModelUsage extends AiUsageTotals {
+  provider: string;
+  model: string;
+}
+
+export interface AiDailyUsage extends AiUsageTotals {
+  // UTC day, as YYYY-MM-DD
+  date: string;
+}
+
+export interface AiQuotaStatus {
+  // Null when there is no limit
+  limit: number | null;
+  used: number;
+}
+
+export interface AiUsageReport {
+  // Start of the reported period, the first UTC day included
+  since: string;
+  totals: AiUsageTotals;
+  byFeature: AiFeatureUsage[];
+  byModel: AiModelUsage[];
+  // Every day of the period, oldest first, including days without usage
+  byDay: AiDailyUsage[];
+  quota: {
+    tokens: AiQuotaStatus;
+    requests: AiQuotaStatus;
+    // When today's usage stops counting against the quota
+    resetsAt: string;
+  };
+}
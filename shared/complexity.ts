@@ -0,0 +1,85 @@
+// Complexity analysis results shared by the server's analyzer and the editor
+
+// Languages the server can analyze
+export const COMPLEXITY_LANGUAGES = ["javascript", "typescript", "python"];
+
+// Whether complexity can be analyzed for a language
+export const isComplexityLanguage = (language: string): boolean => COMPLEXITY_LANGUAGES.includes(language);
+
+// Name of the entry for code outside any function
+export const TOP_LEVEL_NAME = "(top level)";
+
+// Metrics for one function, or for a file's top-level code
+export interface FunctionComplexity {
+  name: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  cyclomatic: number;
+  maxNesting: number;
+  length: number;
+  // 1-5, the same scale as codeSnippets.complexity
+  score: number;
+}
+
+export interface ComplexityReport {
+  language: string;
+  // 1-5, driven by the most complex function
+  score: number;
+  functions: FunctionComplexity[];
+  summary: {
+    functionCount: number;
+    maxCyclomatic: number;
+    averageCyclomatic: number;
+    maxNesting: number;
+    longestFunction: number;
+  };
+}
+
+// Upper bounds for scores 1-4 of each metric; anything above the last is a 5
+const CYCLOMATIC_THRESHOLDS = [4, 7, 10, 15];
+const NESTING_THRESHOLDS = [1, 2, 3, 4];
+const LENGTH_THRESHOLDS = [20, 40, 60, 100];
+
+const scoreAgainst = (value: number, thresholds: number[]): number => {
+  const index = thresholds.findIndex((limit) => value <= limit);
+  return index === -1 ? thresholds.length + 1 : index + 1;
+};
+
+/**
+ * Map raw metrics onto the 1-5 complexity scale
+ * Branching counts most, then nesting, then length; a single very bad
+ * metric still pulls the score to within one step of its own score.
+ */
+export const scoreComplexity = (metrics: { cyclomatic: number; maxNesting: number; length: number }): number => {
+  const scores = [
+    scoreAgainst(metrics.cyclomatic, CYCLOMATIC_THRESHOLDS),
+    scoreAgainst(metrics.maxNesting, NESTING_THRESHOLDS),
+    scoreAgainst(metrics.length, LENGTH_THRESHOLDS),
+  ];
+  const weighted = Math.round(scores[0] * 0.5 + scores[1] * 0.3 + scores[2] * 0.2);
+
+  return Math.min(5, Math.max(1, weighted, Math.max(...scores) - 1));
+};
+
+/**
+ * Summarize per-function results into a report
+ */
+export const buildComplexityReport = (language: string, functions: FunctionComplexity[]): ComplexityReport => {
+  const cyclomatic = functions.map((fn) => fn.cyclomatic);
+
+  return {
+    language,
+    score: functions.reduce((max, fn) => Math.max(max, fn.score), 1),
+    functions,
+    summary: {
+      functionCount: functions.length,
+      maxCyclomatic: Math.max(1, ...cyclomatic),
+      averageCyclomatic: cyclomatic.length > 0
+        ? Math.round((cyclomatic.reduce((sum, value) => sum + value, 0) / cyclomatic.length) * 10) / 10
+        : 1,
+      maxNesting: functions.reduce((max, fn) => Math.max(max, fn.maxNesting), 0),
+      longestFunction: functions.reduce((max, fn) => Math.max(max, fn.length), 0),
+    },
+  };
+};
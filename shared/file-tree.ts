@@ -0,0 +1,66 @@
+// Nested file tree shape shared by the server's tree endpoint and the editor
+export interface FileTreeItem {
+  id: string;
+  name: string;
+  type: "file" | "folder";
+  language?: string;
+  content?: string;
+  children?: FileTreeItem[];
+  // Set for items persisted on the server
+  serverId?: number;
+  path?: string;
+  updatedAt?: string;
+}
+
+// Define supported languages and their file extensions
+export const SUPPORTED_LANGUAGES = {
+  javascript: [".js"],
+  typescript: [".ts", ".tsx"],
+  html: [".html", ".htm"],
+  css: [".css"],
+  json: [".json"],
+  python: [".py"],
+  markdown: [".md"],
+  plaintext: [".txt"],
+};
+
+// Get language from file extension
+export const getLanguageForFile = (fileName: string): string => {
+  const extension = fileName.substring(fileName.lastIndexOf("."));
+  
+  for (const [language, extensions] of Object.entries(SUPPORTED_LANGUAGES)) {
+    if (extensions.includes(extension)) {
+      return language;
+    }
+  }
+  
+  return "plaintext";
+};
+
+/**
+ * Normalize a project file path to the canonical "/dir/name" form
+ * Resolves "." and ".." segments and collapses repeated or trailing slashes.
+ * Returns null for paths that are empty or would escape the project root.
+ */
+export const normalizeFilePath = (path: string): string | null => {
+  const segments: string[] = [];
+
+  for (const segment of path.replace(/\\/g, "/").split("/")) {
+    if (segment === "" || segment === ".") continue;
+
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.length > 0 ? "/" + segments.join("/") : null;
+};
+
+// Parent folder of a normalized path ("" for the project root)
+export const parentPathOf = (path: string): string => path.slice(0, path.lastIndexOf("/"));
+
+// Last segment of a normalized path
+export const baseNameOf = (path: string): string => path.slice(path.lastIndexOf("/") + 1);
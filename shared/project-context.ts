@@ -0,0 +1,67 @@
+// Project context retrieved for context-aware code generation, and the /api/ai/context-aware-code contract
+
+export interface ContextAwareCodeRequest {
+  prompt: string;
+  language: string;
+  // Project whose files context is retrieved from; null for files outside any saved project
+  projectId?: number | null;
+  // File being edited, with its content as it is in the editor, unsaved changes included
+  currentFile?: {
+    // Server id of the file, when it has been saved to the project
+    fileId?: number;
+    name: string;
+    content: string;
+  };
+  // Text selected in the editor
+  selectedCode?: string;
+  includeProjectStructure?: boolean;
+  // Look beyond the current file for relevant code
+  includeRelatedFiles?: boolean;
+}
+
+// Why a piece of code was put in the prompt
+export type ContextSourceReason = "current-file" | "import" | "lexical";
+
+// A piece of a project file put in the prompt
+export interface ContextSource {
+  path: string;
+  startLine: number;
+  endLine: number;
+  // Relevance to the prompt, higher is more relevant
+  score: number;
+  reason: ContextSourceReason;
+}
+
+// Lines startLine to endLine (1-based, inclusive) of a file replaced with new text;
+// endLine one less than startLine inserts before startLine without removing anything
+export interface AiLineEdit {
+  startLine: number;
+  endLine: number;
+  newText: string;
+}
+
+// Changes the AI asks for in one file: line edits to an existing file, or the whole content of a file
+export interface AiFileEdit {
+  path: string;
+  edits?: AiLineEdit[];
+  content?: string;
+}
+
+// A file as it is and as the AI would have it, for review before anything is applied
+export interface ProposedFileChange {
+  path: string;
+  isNewFile: boolean;
+  // The file being edited, which may not be saved to the project
+  isCurrentFile: boolean;
+  original: string;
+  modified: string;
+}
+
+export interface ContextAwareCodeResponse {
+  // The new code on its own, for display
+  code: string;
+  explanation: string;
+  changes: ProposedFileChange[];
+  // Code the prompt was given, in the order it appeared
+  sources: ContextSource[];
+}
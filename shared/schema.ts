@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, unique, index, customType } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -44,7 +45,10 @@ export const files = pgTable("files", {
   isFolder: boolean("is_folder").notNull(),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
-});
+}, (table) => [
+  // A path identifies exactly one file or folder within a project
+  unique("files_project_path_unique").on(table.projectId, table.path),
+]);
 
 export const insertFileSchema = createInsertSchema(files).pick({
   name: true,
@@ -106,9 +110,14 @@ export const codeSnippets = pgTable("code_snippets", {
   mood: text("mood").default("neutral"), // happy, sad, neutral, confused, etc.
   isPublic: boolean("is_public").default(true),
   expiresAt: timestamp("expires_at"),
+  maxViews: integer("max_views"), // burn after this many views
+  forkedFromId: integer("forked_from_id"), // snippet this one was forked from
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
-});
+}, (table) => [
+  index("code_snippets_tags_idx").using("gin", table.tags),
+]);
 
 export const insertCodeSnippetSchema = createInsertSchema(codeSnippets).pick({
   userId: true,
@@ -120,8 +129,62 @@ export const insertCodeSnippetSchema = createInsertSchema(codeSnippets).pick({
   complexity: true,
   mood: true,
   isPublic: true,
+  expiresAt: true,
+  maxViews: true,
+  forkedFromId: true,
+  tags: true,
+});
+
+// Every saved version of a snippet, so readers can see what changed
+export const codeSnippetRevisions = pgTable("code_snippet_revisions", {
+  id: serial("id").primaryKey(),
+  snippetId: integer("snippet_id").notNull(),
+  revision: integer("revision").notNull(), // 1 for the version the snippet was shared with
+  title: text("title").notNull(),
+  description: text("description"),
+  code: text("code").notNull(),
+  language: text("language").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  unique("code_snippet_revisions_revision_unique").on(table.snippetId, table.revision),
+]);
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
 });
 
+// Full-text search document for each snippet, weighted by the field each term came from
+export const codeSnippetSearch = pgTable("code_snippet_search", {
+  snippetId: integer("snippet_id").primaryKey(),
+  document: tsvector("document").notNull(),
+}, (table) => [
+  index("code_snippet_search_document_idx").using("gin", table.document),
+]);
+
+// Viewers already counted in a snippet's views, so repeat visits are not counted again
+export const codeSnippetViews = pgTable("code_snippet_views", {
+  id: serial("id").primaryKey(),
+  snippetId: integer("snippet_id").notNull(),
+  viewerKey: text("viewer_key").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  unique("code_snippet_views_viewer_unique").on(table.snippetId, table.viewerKey),
+]);
+
+// Thumbs up/down on recommended snippets, one vote per user and snippet
+export const codeSnippetFeedback = pgTable("code_snippet_feedback", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  snippetId: integer("snippet_id").notNull(),
+  helpful: boolean("helpful").notNull(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  unique("code_snippet_feedback_user_unique").on(table.snippetId, table.userId),
+]);
+
 // Git repositories for version control integration
 export const gitRepositories = pgTable("git_repositories", {
   id: serial("id").primaryKey(),
@@ -186,8 +249,68 @@ export const insertCicdPipelineSchema = createInsertSchema(cicdPipelines).pick({
   configuration: true,
 });
 
+// AI assistant conversations, kept per user and project
+export const aiConversations = pgTable("ai_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  // Null for conversations held outside any saved project
+  projectId: integer("project_id"),
+  title: text("title").notNull(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  index("ai_conversations_user_project_idx").on(table.userId, table.projectId),
+]);
+
+export const insertAiConversationSchema = createInsertSchema(aiConversations).pick({
+  userId: true,
+  projectId: true,
+  title: true,
+});
+
+export const aiMessages = pgTable("ai_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull(),
+  // "user" or "assistant"
+  role: text("role").notNull(),
+  content: text("content").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  index("ai_messages_conversation_idx").on(table.conversationId),
+]);
+
+// Tokens, cost and latency of each AI request, metered per user and feature
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  feature: text("feature").notNull(), // chat, completion, generation, debug, explain, tests, refactoring
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  costMicros: integer("cost_micros").notNull(), // estimated cost in millionths of a US dollar
+  latencyMs: integer("latency_ms").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  index("ai_usage_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+export const insertAiUsageSchema = createInsertSchema(aiUsage).pick({
+  userId: true,
+  feature: true,
+  provider: true,
+  model: true,
+  promptTokens: true,
+  completionTokens: true,
+  costMicros: true,
+  latencyMs: true,
+});
+
 export type InsertCodeSnippet = z.infer<typeof insertCodeSnippetSchema>;
 export type CodeSnippet = typeof codeSnippets.$inferSelect;
+export type CodeSnippetView = typeof codeSnippetViews.$inferSelect;
+export type CodeSnippetRevision = typeof codeSnippetRevisions.$inferSelect;
+export type CodeSnippetFeedback = typeof codeSnippetFeedback.$inferSelect;
 
 export type InsertGitRepository = z.infer<typeof insertGitRepositorySchema>;
 export type GitRepository = typeof gitRepositories.$inferSelect;
@@ -197,3 +320,10 @@ export type CollaborationSession = typeof collaborationSessions.$inferSelect;
 
 export type InsertCicdPipeline = z.infer<typeof insertCicdPipelineSchema>;
 export type CicdPipeline = typeof cicdPipelines.$inferSelect;
+
+export type InsertAiConversation = z.infer<typeof insertAiConversationSchema>;
+export type AiConversation = typeof aiConversations.$inferSelect;
+export type AiMessage = typeof aiMessages.$inferSelect;
+
+export type InsertAiUsage = z.infer<typeof insertAiUsageSchema>;
+export type AiUsage = typeof aiUsage.$inferSelect;
@@ -0,0 +1,104 @@
+// Snippet recommendations: what is taken from the file being edited, and the /api/snippets/recommendations contract
+
+import { tokenizeForSearch, type SnippetSearchHit } from "./snippet-search";
+
+// Identifiers kept from a file, most frequent first
+export const MAX_CONTEXT_IDENTIFIERS = 12;
+
+// Words every file in a language uses, which say nothing about what it does
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  "abstract", "any", "as", "async", "await", "boolean", "break", "case", "catch", "class", "const", "constructor",
+  "continue", "debugger", "declare", "default", "delete", "do", "else", "enum", "export", "extends", "false",
+  "finally", "for", "from", "function", "get", "if", "implements", "import", "in", "instanceof", "interface",
+  "let", "new", "null", "number", "of", "private", "protected", "public", "readonly", "return", "set", "static",
+  "string", "super", "switch", "this", "throw", "true", "try", "type", "typeof", "undefined", "var", "void",
+  "while", "with", "yield", "console", "log", "props", "value", "data", "result", "error", "err",
+  // Python
+  "and", "def", "del", "elif", "except", "global", "is", "lambda", "none", "nonlocal", "not", "or", "pass",
+  "raise", "self", "cls", "print", "len", "range", "str", "int", "dict", "list",
+]);
+
+// Context pulled from the file being edited
+export interface EditorContext {
+  language: string;
+  // Modules the file imports, e.g. "react" or "os.path"
+  imports: string[];
+  // The file's most used identifiers
+  identifiers: string[];
+}
+
+export interface SnippetRecommendationRequest {
+  language: string;
+  code: string;
+  fileName?: string;
+  // Snippets the user bookmarked, which are ranked higher
+  savedSnippetIds?: number[];
+  limit?: number;
+}
+
+export interface SnippetRecommendation extends SnippetSearchHit {
+  // 0-100, relative to the best recommendation
+  relevance: number;
+  // The signed-in user's own thumbs up (true) or down (false), if any
+  userFeedback: boolean | null;
+}
+
+export interface SnippetRecommendationResponse {
+  context: EditorContext;
+  recommendations: SnippetRecommendation[];
+}
+
+const IMPORT_PATTERNS: Record<string, RegExp[]> = {
+  javascript: [
+    /\bimport\s+(?:[\w*{}\s,$]+\s+from\s+)?["']([^"']+)["']/g,
+    /\brequire\(\s*["']([^"']+)["']\s*\)/g,
+  ],
+  python: [
+    /^\s*from\s+([\w.]+)\s+import\b/gm,
+    /^\s*import\s+([\w.]+)/gm,
+  ],
+};
+IMPORT_PATTERNS.typescript = IMPORT_PATTERNS.javascript;
+
+/**
+ * Pull the imports and most used identifiers out of a source file
+ */
+export const extractEditorContext = (code: string, language: string): EditorContext => {
+  const imports = new Set<string>();
+  (IMPORT_PATTERNS[language] ?? []).forEach((pattern) => {
+    Array.from(code.matchAll(pattern)).forEach((match) => imports.add(match[1]));
+  });
+
+  // Count identifiers, remembering where each first appeared to break ties
+  const counts = new Map<string, { count: number; first: number }>();
+  Array.from(code.matchAll(/[A-Za-z_$][\w$]*/g)).forEach((match, index) => {
+    const identifier = match[0];
+    if (identifier.length < 3 || KEYWORDS.has(identifier.toLowerCase())) return;
+
+    const entry = counts.get(identifier);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(identifier, { count: 1, first: index });
+    }
+  });
+
+  const identifiers = Array.from(counts.entries())
+    .sort(([, a], [, b]) => b.count - a.count || a.first - b.first)
+    .slice(0, MAX_CONTEXT_IDENTIFIERS)
+    .map(([identifier]) => identifier);
+
+  return { language, imports: Array.from(imports), identifiers };
+};
+
+/**
+ * Search terms for a file's context: the words of its imports, then its identifiers
+ */
+export const contextSearchTerms = (context: EditorContext): string[] => {
+  const terms = [
+    ...context.imports.flatMap(tokenizeForSearch),
+    ...context.identifiers.flatMap(tokenizeForSearch),
+  ];
+  return Array.from(new Set(terms.filter((term) => !KEYWORDS.has(term))));
+};
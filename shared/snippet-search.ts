@@ -0,0 +1,107 @@
+// Snippet search: how snippets are tokenized and weighted, and the /api/snippets/search contract
+
+import type { CodeSnippet } from "./schema";
+
+// Postgres text search weight classes, most important first
+export type SearchWeight = "A" | "B" | "C" | "D";
+
+// Score of a match in each class; the same defaults Postgres uses for ts_rank
+export const SEARCH_WEIGHT_SCORES: Record<SearchWeight, number> = { A: 1.0, B: 0.4, C: 0.2, D: 0.1 };
+
+// Query terms beyond this are ignored
+export const MAX_QUERY_TERMS = 8;
+
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+// Tags a snippet may carry and the form each tag is stored in
+export const MAX_SNIPPET_TAGS = 10;
+export const SNIPPET_TAG_PATTERN = /^[a-z0-9][a-z0-9+#.-]{0,31}$/;
+
+// Lower-case a tag and turn spaces into hyphens, e.g. "Error Handling" -> "error-handling"
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+/**
+ * Split text into lower-case search terms
+ * Identifiers are indexed whole and by their camelCase parts, so "fetchData"
+ * matches searches for "fetchdata", "fetch" and "data".
+ */
+export const tokenizeForSearch = (text: string): string[] => {
+  const tokens: string[] = [];
+
+  text.split(/[^A-Za-z0-9]+/).forEach((word) => {
+    if (!word) return;
+
+    tokens.push(word.toLowerCase());
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(" ");
+    if (parts.length > 1) {
+      parts.forEach((part) => tokens.push(part.toLowerCase()));
+    }
+  });
+
+  return tokens.filter((token) => token.length >= 2 && token.length <= 40);
+};
+
+/**
+ * Distinct terms of a search query, in the order they were typed
+ * Query words are not split on camelCase: documents hold whole identifiers
+ * too, so "fetchDa" still finds "fetchData" as a prefix.
+ */
+export const parseSearchQuery = (query: string): string[] => {
+  const words = query.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length >= 2 && word.length <= 40);
+  return Array.from(new Set(words)).slice(0, MAX_QUERY_TERMS);
+};
+
+/**
+ * Terms of a snippet grouped by weight: title and tags count most, then the
+ * description, then language and mood, then the code itself
+ */
+export const buildSearchDocument = (
+  snippet: Pick<CodeSnippet, "title" | "description" | "code" | "language" | "mood" | "tags">
+): Record<SearchWeight, string[]> => ({
+  A: [...tokenizeForSearch(snippet.title), ...snippet.tags.flatMap(tokenizeForSearch)],
+  B: tokenizeForSearch(snippet.description ?? ""),
+  C: [...tokenizeForSearch(snippet.language), ...tokenizeForSearch(snippet.mood ?? "")],
+  D: tokenizeForSearch(snippet.code),
+});
+
+export interface SnippetSearchParams {
+  query?: string;
+  // Already tokenized terms, any of which may match; used instead of query, with no prefix matching
+  anyTerms?: string[];
+  language?: string;
+  mood?: string;
+  // Results must carry every one of these tags
+  tags?: string[];
+  // 1-based
+  page: number;
+  pageSize: number;
+  // Signed-in searcher, whose private snippets are included
+  viewerId?: number;
+  now?: Date;
+}
+
+export interface SnippetSearchHit extends CodeSnippet {
+  // Relevance to the query; 0 when browsing without one
+  score: number;
+}
+
+export interface SearchFacet {
+  value: string;
+  count: number;
+}
+
+export interface SnippetSearchResult {
+  results: SnippetSearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Counts for narrowing the search; each ignores its own filter so other values stay selectable
+  facets: {
+    languages: SearchFacet[];
+    moods: SearchFacet[];
+    tags: SearchFacet[];
+  };
+}